@@ -0,0 +1,77 @@
+import { Args, Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { loadGlobalConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { acceptSharedProject, listInvitations } from "../lib/projects.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+
+export default class Accept extends Command {
+  static override description =
+    "Accept a project a teammate shared with you, or list the invitations you have";
+
+  static override examples = [
+    "<%= config.bin %> accept",
+    "<%= config.bin %> accept my-app",
+    "<%= config.bin %> accept my-app --as team-app",
+  ];
+
+  static override args = {
+    project: Args.string({
+      description: "Name of the shared project",
+    }),
+  };
+
+  static override flags = {
+    as: Flags.string({
+      description: "Use the project under another name, e.g. when you have one of the same name",
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(Accept);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+
+    if (!args.project) {
+      const invitations = await listInvitations(storage, auth.userId, masterKey);
+      if (invitations.length === 0) {
+        this.log("No invitations.");
+        return;
+      }
+      for (const invitation of invitations) {
+        this.log(
+          `${chalk.cyan(invitation.projectName)}  ${chalk.dim(`from ${invitation.sharedBy}`)}`
+        );
+      }
+      this.log("");
+      this.log(chalk.dim("Accept one with 'pss accept <project>'."));
+      return;
+    }
+
+    try {
+      const { project, role, sharedBy } = await acceptSharedProject(
+        storage,
+        auth.userId,
+        masterKey,
+        args.project,
+        flags.as
+      );
+      this.log(
+        chalk.green("✓") + ` Joined ${chalk.cyan(project.name)} as ${role}, shared by ${sharedBy}`
+      );
+      this.log(
+        chalk.dim(`Run 'pss init' with project name "${project.name}" and 'pss pull' to get it.`)
+      );
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Command, Flags } from "@oclif/core";
+import { spawn } from "node:child_process";
+import chalk from "chalk";
+import {
+  DEFAULT_AGENT_TTL_MINUTES,
+  MAX_AGENT_TTL_MINUTES,
+  getAgentSocketPath,
+  getAgentStatus,
+  startKeyAgent,
+} from "../../lib/key-agent.ts";
+
+const STARTUP_CHECKS = 50;
+const STARTUP_CHECK_INTERVAL_MS = 100;
+
+export default class AgentStart extends Command {
+  static override description =
+    "Start a key agent that keeps unlocked master keys in memory between commands";
+
+  static override examples = [
+    "<%= config.bin %> agent start",
+    "<%= config.bin %> agent start --ttl 60",
+    "<%= config.bin %> agent start --foreground",
+  ];
+
+  static override flags = {
+    ttl: Flags.integer({
+      description: "Minutes to keep a key after it is unlocked",
+      default: DEFAULT_AGENT_TTL_MINUTES,
+      min: 1,
+      max: MAX_AGENT_TTL_MINUTES,
+    }),
+    foreground: Flags.boolean({
+      description: "Run the agent in this terminal instead of in the background",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(AgentStart);
+    const socketPath = getAgentSocketPath();
+
+    if (flags.foreground) {
+      let server;
+      try {
+        server = await startKeyAgent(socketPath, flags.ttl * 60_000);
+      } catch (error) {
+        this.error((error as Error).message);
+      }
+      this.log(`Key agent listening on ${socketPath} (keys kept for ${flags.ttl} min)`);
+
+      const shutdown = (): void => {
+        server.close();
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+      await new Promise((resolve) => server.once("close", resolve));
+      return;
+    }
+
+    if ((await getAgentStatus()) !== null) {
+      this.log(`A key agent is already running on ${socketPath}.`);
+      return;
+    }
+
+    // Re-run this CLI detached, so the agent outlives the terminal command
+    const child = spawn(
+      process.execPath,
+      [
+        ...process.execArgv,
+        process.argv[1]!,
+        "agent",
+        "start",
+        "--foreground",
+        "--ttl",
+        String(flags.ttl),
+      ],
+      { detached: true, stdio: "ignore" }
+    );
+    child.unref();
+
+    for (let check = 0; check < STARTUP_CHECKS; check++) {
+      await new Promise((resolve) => setTimeout(resolve, STARTUP_CHECK_INTERVAL_MS));
+      if ((await getAgentStatus()) !== null) {
+        this.log(
+          chalk.green("✓") +
+            ` Key agent started (pid ${child.pid}); unlocked keys are kept for ${flags.ttl} min`
+        );
+        this.log(chalk.dim("Run 'pss lock' to wipe them, 'pss agent stop' to stop the agent."));
+        return;
+      }
+    }
+
+    this.error("The key agent did not start. Run 'pss agent start --foreground' to see why.");
+  }
+}
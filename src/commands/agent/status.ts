@@ -0,0 +1,30 @@
+import { Command } from "@oclif/core";
+import chalk from "chalk";
+import { getAgentSocketPath, getAgentStatus } from "../../lib/key-agent.ts";
+
+export default class AgentStatus extends Command {
+  static override description = "Show whether a key agent is running and which keys it holds";
+
+  static override examples = ["<%= config.bin %> agent status"];
+
+  public async run(): Promise<void> {
+    await this.parse(AgentStatus);
+
+    const keys = await getAgentStatus();
+    if (keys === null) {
+      this.log("No key agent is running.");
+      return;
+    }
+
+    this.log(`Key agent running on ${getAgentSocketPath()}`);
+    if (keys.length === 0) {
+      this.log(chalk.dim("  No unlocked keys."));
+      return;
+    }
+    for (const key of keys) {
+      this.log(
+        `  ${chalk.cyan(key.userId)} ${chalk.dim(`until ${new Date(key.expiresAt).toLocaleString()}`)}`
+      );
+    }
+  }
+}
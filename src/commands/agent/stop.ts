@@ -0,0 +1,19 @@
+import { Command } from "@oclif/core";
+import chalk from "chalk";
+import { stopAgent } from "../../lib/key-agent.ts";
+
+export default class AgentStop extends Command {
+  static override description = "Wipe the keys the key agent holds and stop it";
+
+  static override examples = ["<%= config.bin %> agent stop"];
+
+  public async run(): Promise<void> {
+    await this.parse(AgentStop);
+
+    if (!(await stopAgent())) {
+      this.log("No key agent is running.");
+      return;
+    }
+    this.log(chalk.green("✓") + " Key agent stopped");
+  }
+}
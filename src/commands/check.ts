@@ -0,0 +1,100 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { loadProjectConfig } from "../lib/config.ts";
+import { discoverProjectFiles, normalizeRelativePath } from "../lib/env-files.ts";
+import { isSchemaTarget, loadInheritedValues, loadSchema, validateEnvFile } from "../lib/schema.ts";
+import type { SchemaViolation } from "../lib/schema.ts";
+
+export default class Check extends Command {
+  static override description = "Check local env files against the schema declared in .pss.json";
+
+  static override examples = [
+    "<%= config.bin %> check",
+    "<%= config.bin %> check .env.production",
+    "<%= config.bin %> check --json",
+  ];
+
+  static override strict = false;
+
+  static override flags = {
+    json: Flags.boolean({
+      description: "Output as JSON",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { argv, flags } = await this.parse(Check);
+
+    const projectDir = process.cwd();
+    const projectConfig = await loadProjectConfig(projectDir);
+    if (!projectConfig) {
+      this.error("Project not initialized. Run 'pss init' first.");
+    }
+
+    const schemaConfig = projectConfig.schema;
+    if (!schemaConfig) {
+      this.error(
+        'No schema configured. Add "schema": { "source": ".env.example" } to .pss.json first.'
+      );
+    }
+
+    const projectFiles = await discoverProjectFiles(
+      projectDir,
+      projectConfig.pattern,
+      projectConfig.ignore
+    );
+    let files = projectFiles.filter((file) => isSchemaTarget(schemaConfig, file.name));
+
+    if (argv.length > 0) {
+      const names = (argv as string[]).map((file) => normalizeRelativePath(file) ?? file);
+      for (const name of names) {
+        if (!files.some((file) => file.name === name)) {
+          this.error(`Not a file the schema applies to: ${name}`);
+        }
+      }
+      files = files.filter((file) => names.includes(file.name));
+    }
+
+    const results: { file: string; violations: SchemaViolation[] }[] = [];
+    try {
+      const schema = await loadSchema(projectDir, schemaConfig);
+      for (const file of files.sort((a, b) => a.name.localeCompare(b.name))) {
+        const inherited = await loadInheritedValues(projectDir, file.name, projectFiles);
+        results.push({
+          file: file.name,
+          violations: validateEnvFile(schema, file.name, file.content, inherited),
+        });
+      }
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    const total = results.reduce((sum, result) => sum + result.violations.length, 0);
+
+    if (flags.json) {
+      this.log(JSON.stringify(results, null, 2));
+    } else if (results.length === 0) {
+      this.log(`No env files to check against ${schemaConfig.source}.`);
+    } else {
+      for (const result of results) {
+        if (result.violations.length === 0) {
+          this.log(chalk.green(`${result.file}: valid ✓`));
+          continue;
+        }
+        this.log(chalk.bold(`${result.file}:`));
+        for (const violation of result.violations) {
+          this.log(chalk.red(`  ✗ ${violation.key} ${violation.message}`));
+        }
+      }
+      if (total > 0) {
+        this.log("");
+        this.log(`${total} violation(s) of ${schemaConfig.source}`);
+      }
+    }
+
+    if (total > 0) {
+      this.exit(1);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { configPaths, migrateSecrets } from "../../lib/config.ts";
+import {
+  CREDENTIALS_PASSPHRASE_ENV,
+  SecretServiceStore,
+  detectCredentialStore,
+} from "../../lib/credential-store.ts";
+import type { CredentialStoreType } from "../../types/index.ts";
+
+export default class ConfigMigrateSecrets extends Command {
+  static override description =
+    "Move tokens, storage keys and client secrets out of the JSON config files";
+
+  static override examples = [
+    "<%= config.bin %> config migrate-secrets",
+    "<%= config.bin %> config migrate-secrets --store file",
+  ];
+
+  static override flags = {
+    store: Flags.string({
+      description:
+        "Where to keep secrets (default: secret-service when available, else an encrypted file)",
+      options: ["secret-service", "file"],
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(ConfigMigrateSecrets);
+
+    const store =
+      (flags.store as CredentialStoreType | undefined) ?? (await detectCredentialStore());
+    if (store === "secret-service" && !(await SecretServiceStore.isAvailable())) {
+      this.error("No Secret Service found. Install libsecret-tools and unlock your keyring.");
+    }
+
+    try {
+      const moved = await migrateSecrets(store);
+      const where =
+        store === "secret-service" ? "the Secret Service keyring" : configPaths.credentials;
+      this.log(chalk.green("✓") + ` Moved ${moved} secret(s) to ${where}`);
+      if (store === "file") {
+        this.log(
+          chalk.dim(
+            `Commands will ask for the passphrase; set ${CREDENTIALS_PASSPHRASE_ENV} to run unattended.`
+          )
+        );
+      }
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+  }
+}
@@ -8,11 +8,18 @@ export default class ConfigSet extends Command {
     "<%= config.bin %> config set b2.keyId YOUR_KEY_ID",
     "<%= config.bin %> config set b2.appKey YOUR_APP_KEY",
     "<%= config.bin %> config set google.clientId YOUR_CLIENT_ID",
+    "<%= config.bin %> config set auth.provider oidc",
+    "<%= config.bin %> config set oidc.issuer https://example.okta.com",
+    "<%= config.bin %> config set github.clientId YOUR_CLIENT_ID",
+    "<%= config.bin %> config set storage.type filesystem",
+    "<%= config.bin %> config set storage.path /mnt/shared/pss",
+    "<%= config.bin %> config set s3.endpoint http://localhost:9000",
+    "<%= config.bin %> config set s3.forcePathStyle true",
   ];
 
   static override args = {
     key: Args.string({
-      description: "Configuration key (e.g., b2.keyId, google.clientId)",
+      description: "Configuration key (e.g., b2.keyId, google.clientId, storage.type)",
       required: true,
     }),
     value: Args.string({
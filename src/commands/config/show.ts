@@ -42,13 +42,41 @@ export default class ConfigShow extends Command {
               keyId: config.b2.keyId ? maskSecret(config.b2.keyId) : "",
               appKey: config.b2.appKey ? maskSecret(config.b2.appKey) : "",
             },
+            ...(config.oidc?.clientSecret && {
+              oidc: { ...config.oidc, clientSecret: maskSecret(config.oidc.clientSecret) },
+            }),
+            ...(config.github?.clientSecret && {
+              github: { ...config.github, clientSecret: maskSecret(config.github.clientSecret) },
+            }),
+            ...(config.s3 && {
+              s3: {
+                ...config.s3,
+                secretAccessKey: config.s3.secretAccessKey
+                  ? maskSecret(config.s3.secretAccessKey)
+                  : "",
+                sessionToken: config.s3.sessionToken
+                  ? maskSecret(config.s3.sessionToken)
+                  : undefined,
+              },
+            }),
           };
       this.log(JSON.stringify(output, null, 2));
       return;
     }
 
+    const reveal = (secret?: string) =>
+      secret ? (flags["show-secrets"] ? secret : maskSecret(secret)) : "(not set)";
     this.log("Configuration:");
     this.log(`  Config file: ${configPaths.globalConfig}`);
+    this.log(
+      `  Secrets:     ${config.secretStore ?? "in the config file (run 'pss config migrate-secrets')"}`
+    );
+    this.log("");
+    this.log("Storage:");
+    this.log(`  type: ${config.storage?.type ?? "b2"}`);
+    if (config.storage?.type === "filesystem") {
+      this.log(`  path: ${config.storage.path || "(not set)"}`);
+    }
     this.log("");
     this.log("B2 Storage:");
     this.log(
@@ -60,11 +88,39 @@ export default class ConfigShow extends Command {
     this.log(`  endpoint: ${config.b2.endpoint}`);
     this.log(`  bucket:   ${config.b2.bucket}`);
     this.log(`  region:   ${config.b2.region}`);
+    if (config.s3) {
+      this.log("");
+      this.log("S3 Storage:");
+      this.log(`  provider:        ${config.s3.provider ?? "custom"}`);
+      this.log(`  endpoint:        ${config.s3.endpoint || "(default)"}`);
+      this.log(`  accessKeyId:     ${config.s3.accessKeyId || "(not set)"}`);
+      this.log(`  secretAccessKey: ${reveal(config.s3.secretAccessKey)}`);
+      this.log(`  sessionToken:    ${reveal(config.s3.sessionToken)}`);
+      this.log(`  bucket:          ${config.s3.bucket || "(not set)"}`);
+      this.log(`  region:          ${config.s3.region || "(provider default)"}`);
+      this.log(`  forcePathStyle:  ${config.s3.forcePathStyle ?? "(provider default)"}`);
+      this.log(`  caBundle:        ${config.s3.caBundle || "(not set)"}`);
+    }
+    this.log("");
+    this.log(`Login provider: ${config.auth?.provider ?? "google"}`);
     this.log("");
     this.log("Google OAuth:");
     this.log(`  clientId:     ${config.google?.clientId || "(not set)"}`);
     this.log(
       `  clientSecret: ${config.google?.clientSecret ? (flags["show-secrets"] ? config.google.clientSecret : maskSecret(config.google.clientSecret)) : "(not set)"}`
     );
+    if (config.oidc) {
+      this.log("");
+      this.log("OIDC:");
+      this.log(`  issuer:       ${config.oidc.issuer || "(not set)"}`);
+      this.log(`  clientId:     ${config.oidc.clientId || "(not set)"}`);
+      this.log(`  clientSecret: ${reveal(config.oidc.clientSecret)}`);
+    }
+    if (config.github) {
+      this.log("");
+      this.log("GitHub OAuth:");
+      this.log(`  clientId:     ${config.github.clientId || "(not set)"}`);
+      this.log(`  clientSecret: ${reveal(config.github.clientSecret)}`);
+    }
   }
 }
@@ -1,11 +1,18 @@
 import { Command, Args, Flags } from "@oclif/core";
+import { join } from "node:path";
 import chalk from "chalk";
 import ora from "ora";
 import { loadProjectConfig, loadGlobalConfig } from "../lib/config.ts";
 import { requireAuth } from "../lib/auth.ts";
-import { createB2Client, getStoragePath, getManifestPath } from "../lib/b2-client.ts";
+import { createStorageBackend, getStoragePath, getManifestPath } from "../lib/storage.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { assertCanWrite, forgetSharedProject, openProject } from "../lib/projects.ts";
+import { withdrawShareNotices } from "../lib/sharing.ts";
 import { normalizeRelativePath } from "../lib/env-files.ts";
-import type { ProjectManifest } from "../types/index.ts";
+import { commitManifest, loadManifest } from "../lib/manifest.ts";
+import { appendHistory } from "../lib/history.ts";
+import { getFileSource } from "../lib/source-info.ts";
+import type { HistoryEntry, ProjectManifest } from "../types/index.ts";
 
 export default class Delete extends Command {
   static override description = "Delete files or project from remote storage";
@@ -56,9 +63,20 @@ export default class Delete extends Command {
 
     const auth = await requireAuth();
 
-    const b2 = createB2Client(globalConfig);
+    const storage = createStorageBackend(globalConfig);
+    const encryptionKey = await getEncryptionKey(auth.userId, storage);
+    const { project, keyRing } = await openProject(
+      storage,
+      auth.userId,
+      encryptionKey,
+      projectConfig.projectName
+    );
 
     if (flags.project) {
+      if (project.shared && keyRing.role !== "owner") {
+        this.error(`Only owners can delete the shared project "${project.name}".`);
+      }
+
       if (!flags.force) {
         this.log(
           chalk.red(
@@ -72,12 +90,20 @@ export default class Delete extends Command {
       const spinner = ora("Deleting project...").start();
 
       try {
-        const prefix = `users/${auth.userId}/projects/${projectConfig.projectName}/`;
-        const keys = await b2.list(prefix);
+        if (project.shared) {
+          await withdrawShareNotices(storage, project);
+        }
+
+        const prefix = `${project.root}/`;
+        const keys = await storage.list(prefix);
 
         for (const key of keys) {
           spinner.text = `Deleting ${key}...`;
-          await b2.delete(key);
+          await storage.delete(key);
+        }
+
+        if (project.shared) {
+          await forgetSharedProject(storage, auth.userId, encryptionKey, project);
         }
 
         spinner.succeed(`Deleted project "${projectConfig.projectName}" from remote`);
@@ -103,32 +129,47 @@ export default class Delete extends Command {
     const spinner = ora("Deleting files...").start();
 
     try {
-      const manifestPath = getManifestPath(auth.userId, projectConfig.projectName);
-      let manifest: ProjectManifest;
+      assertCanWrite(project, keyRing);
+      const manifestPath = getManifestPath(project.root);
+      const loaded = await loadManifest(storage, manifestPath, keyRing);
 
-      try {
-        manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-      } catch {
+      if (!loaded) {
         spinner.fail("No remote files found");
         return;
       }
 
+      const manifest: ProjectManifest = structuredClone(loaded.manifest);
+
       let deleted = 0;
+      const historyEntries: HistoryEntry[] = [];
 
       for (const fileName of filesToDelete) {
-        const storagePath = getStoragePath(auth.userId, projectConfig.projectName, fileName);
+        const entry = manifest.files.find((f) => f.name === fileName);
 
-        try {
-          await b2.delete(storagePath);
-          manifest.files = manifest.files.filter((f) => f.name !== fileName);
-          deleted++;
-        } catch {
+        if (!entry) {
           this.warn(`File not found: ${fileName}`);
+          continue;
         }
+
+        // Revisions are kept so the file can be restored later; only the
+        // pre-revision object is removed.
+        if (!entry.revision) {
+          await storage.delete(getStoragePath(project.root, fileName));
+        }
+
+        manifest.files = manifest.files.filter((f) => f.name !== fileName);
+        historyEntries.push({
+          file: fileName,
+          action: "delete",
+          createdAt: new Date().toISOString(),
+          source: getFileSource(projectDir, join(projectDir, fileName)),
+        });
+        deleted++;
       }
 
       if (deleted > 0) {
-        await b2.uploadJson(manifestPath, manifest);
+        await commitManifest(storage, manifestPath, loaded, manifest, keyRing);
+        await appendHistory(storage, project, keyRing, historyEntries);
       }
 
       spinner.succeed(`Deleted ${deleted} file(s)`);
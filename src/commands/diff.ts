@@ -1,7 +1,6 @@
 import { Command, Args, Flags } from "@oclif/core";
 import chalk from "chalk";
 import { loadProjectConfig, loadGlobalConfig } from "../lib/config.ts";
-import { requireAuth } from "../lib/auth.ts";
 import {
   discoverProjectFiles,
   parseEnvFile,
@@ -9,9 +8,11 @@ import {
   isEnvFile,
   normalizeRelativePath,
 } from "../lib/env-files.ts";
-import { createB2Client, getStoragePath, getManifestPath } from "../lib/b2-client.ts";
-import { decrypt, getEncryptionKey, hashFile } from "../lib/crypto.ts";
-import type { ProjectManifest, EncryptedData } from "../types/index.ts";
+import { createStorageBackend, getFileObjectPath, getManifestPath } from "../lib/storage.ts";
+import { loadManifest } from "../lib/manifest.ts";
+import { findReferenceProblems } from "../lib/interpolation.ts";
+import { openProjectAs, requireCaller } from "../lib/projects.ts";
+import type { EncryptedData } from "../types/index.ts";
 
 export default class Diff extends Command {
   static override description = "Show differences between local and remote files";
@@ -51,25 +52,25 @@ export default class Diff extends Command {
       this.error("Not configured. Run 'pss config set' first.");
     }
 
-    const auth = await requireAuth();
-    const encryptionKey = await getEncryptionKey(auth.userId);
+    const storage = createStorageBackend(globalConfig);
+    const caller = await requireCaller(storage);
 
-    const b2 = createB2Client(globalConfig);
+    const { project, keyRing } = await openProjectAs(storage, caller, projectConfig.projectName);
+    const loaded = await loadManifest(storage, getManifestPath(project.root), keyRing);
 
-    let manifest: ProjectManifest;
-    try {
-      const manifestPath = getManifestPath(auth.userId, projectConfig.projectName);
-      manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-    } catch {
+    if (!loaded) {
       this.log("No remote files found. Nothing to compare.");
       return;
     }
 
-    let localFiles = await discoverProjectFiles(
+    const manifest = loaded.manifest;
+
+    const allLocalFiles = await discoverProjectFiles(
       projectDir,
       projectConfig.pattern,
       projectConfig.ignore
     );
+    let localFiles = allLocalFiles;
 
     const normalizedFile = args.file ? normalizeRelativePath(args.file) : null;
 
@@ -96,8 +97,7 @@ export default class Diff extends Command {
       }
 
       if (!isEnvFile(localFile.name)) {
-        const localHash = await hashFile(localFile.content);
-        if (localHash === remoteEntry.hash) {
+        if (await keyRing.matchesHash(remoteEntry.hash, localFile.content)) {
           this.log(chalk.green(`${localFile.name}: in sync ✓`));
         } else {
           hasDiff = true;
@@ -107,11 +107,15 @@ export default class Diff extends Command {
         continue;
       }
 
-      const storagePath = getStoragePath(auth.userId, projectConfig.projectName, localFile.name);
+      const storagePath = getFileObjectPath(project.root, remoteEntry);
 
       try {
-        const encrypted = await b2.downloadJson<EncryptedData>(storagePath);
-        const remoteContent = await decrypt(encrypted, encryptionKey);
+        const encrypted = await storage.downloadJson<EncryptedData>(storagePath);
+        const remoteContent = await keyRing.decrypt(
+          remoteEntry.name,
+          encrypted,
+          remoteEntry.keyVersion
+        );
 
         const localVars = parseEnvFile(localFile.content);
         const remoteVars = parseEnvFile(remoteContent);
@@ -175,5 +179,15 @@ export default class Diff extends Command {
     if (!hasDiff) {
       this.log(chalk.green("\nAll files are in sync!"));
     }
+
+    if (projectConfig.interpolation) {
+      // References may point into the files the one being diffed is layered on
+      const problems = findReferenceProblems(allLocalFiles.filter((f) => isEnvFile(f.name)));
+      for (const problem of problems) {
+        if (!normalizedFile || problem.file === normalizedFile) {
+          this.warn(problem.message);
+        }
+      }
+    }
   }
 }
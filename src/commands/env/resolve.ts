@@ -0,0 +1,106 @@
+import { Command, Flags } from "@oclif/core";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { loadProjectConfig } from "../../lib/config.ts";
+import { formatEnvValue } from "../../lib/env-document.ts";
+import { discoverProjectFiles, isEnvFile, normalizeRelativePath } from "../../lib/env-files.ts";
+import { expandEnvFiles, getEnvironmentSources } from "../../lib/interpolation.ts";
+import type { EnvSource } from "../../lib/interpolation.ts";
+
+export default class EnvResolve extends Command {
+  static override description =
+    "Print the local env files with ${VAR} references expanded, without changing them";
+
+  static override examples = [
+    "<%= config.bin %> env resolve",
+    "<%= config.bin %> env resolve --mode production",
+    "<%= config.bin %> env resolve --file .env --file .env.local",
+    "<%= config.bin %> env resolve --inherit --json",
+  ];
+
+  static override flags = {
+    file: Flags.string({
+      char: "f",
+      description:
+        "Env file to read; repeat to read several, later ones win (default: the files of --mode)",
+      multiple: true,
+      exclusive: ["mode"],
+    }),
+    mode: Flags.string({
+      description:
+        "Environment to resolve: .env, .env.local, .env.<mode> and .env.<mode>.local (default: .env and .env.local)",
+    }),
+    inherit: Flags.boolean({
+      description: "Resolve references that no file defines from the current environment",
+      default: false,
+    }),
+    json: Flags.boolean({
+      description: "Output as JSON",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(EnvResolve);
+
+    const projectDir = process.cwd();
+    let sources: EnvSource[];
+    try {
+      sources = flags.file
+        ? await readSources(projectDir, flags.file)
+        : await discoverSources(projectDir, flags.mode);
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    const { values, problems } = expandEnvFiles(sources, flags.inherit ? process.env : {});
+    for (const problem of problems) {
+      this.warn(problem.message);
+    }
+
+    if (flags.json) {
+      this.log(JSON.stringify(Object.fromEntries(values), null, 2));
+      return;
+    }
+    for (const [key, value] of values) {
+      this.log(`${key}=${formatEnvValue(value)}`);
+    }
+  }
+}
+
+async function readSources(projectDir: string, files: string[]): Promise<EnvSource[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      const name = normalizeRelativePath(file);
+      if (!name) {
+        throw new Error(`Invalid file path: ${file}`);
+      }
+      try {
+        return { name, content: await readFile(join(projectDir, name), "utf-8") };
+      } catch {
+        throw new Error(`Local file not found: ${file}`);
+      }
+    })
+  );
+}
+
+/**
+ * The env files one environment loads, lowest layer first. Files of other
+ * environments are left out so their values can't leak into this one.
+ */
+async function discoverSources(projectDir: string, mode?: string): Promise<EnvSource[]> {
+  const projectConfig = await loadProjectConfig(projectDir);
+  if (!projectConfig) {
+    throw new Error("Project not initialized. Run 'pss init' first, or pass --file.");
+  }
+  const files = await discoverProjectFiles(projectDir, projectConfig.pattern, projectConfig.ignore);
+  const top = mode ? `.env.${mode}.local` : ".env.local";
+  const sources = getEnvironmentSources(
+    files.filter((file) => isEnvFile(file.name)),
+    top
+  );
+  if (sources.length === 0) {
+    throw new Error(`No env files found for ${mode ? `mode "${mode}"` : ".env"}`);
+  }
+  return sources;
+}
@@ -0,0 +1,198 @@
+import { Command, Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { loadProjectConfig, loadGlobalConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { createStorageBackend, getFileObjectPath } from "../lib/storage.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import type { ProjectKeyRing } from "../lib/project-keys.ts";
+import { openProject } from "../lib/projects.ts";
+import { diffEnvFiles, isEnvFile, normalizeRelativePath, parseEnvFile } from "../lib/env-files.ts";
+import { findPreviousUpload, getFileHistory, loadHistory } from "../lib/history.ts";
+import type { StorageBackend } from "../lib/storage.ts";
+import type { EncryptedData, HistoryEntry } from "../types/index.ts";
+
+export default class History extends Command {
+  static override description = "Show the revision history of remote files";
+
+  static override examples = [
+    "<%= config.bin %> history",
+    "<%= config.bin %> history .env.local",
+    "<%= config.bin %> history --limit 5",
+    "<%= config.bin %> history --no-summary",
+  ];
+
+  static override args = {
+    file: Args.string({
+      description: "Only show history for this file",
+      required: false,
+    }),
+  };
+
+  static override flags = {
+    limit: Flags.integer({
+      char: "n",
+      description: "Maximum number of revisions to show",
+      default: 20,
+    }),
+    summary: Flags.boolean({
+      description: "Show key-level change summaries (downloads and decrypts revisions)",
+      default: true,
+      allowNo: true,
+    }),
+    json: Flags.boolean({
+      description: "Output as JSON",
+      default: false,
+    }),
+  };
+
+  private revisionCache = new Map<string, string>();
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(History);
+
+    const projectDir = process.cwd();
+    const projectConfig = await loadProjectConfig(projectDir);
+
+    if (!projectConfig) {
+      this.error("Project not initialized. Run 'pss init' first.");
+    }
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const fileName = args.file ? normalizeRelativePath(args.file) : undefined;
+    if (args.file && !fileName) {
+      this.error(`Invalid file path: ${args.file}`);
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const encryptionKey = await getEncryptionKey(auth.userId, storage);
+    const { project, keyRing } = await openProject(
+      storage,
+      auth.userId,
+      encryptionKey,
+      projectConfig.projectName
+    );
+
+    const history = await loadHistory(storage, project, keyRing);
+    const entries = getFileHistory(history, fileName ?? undefined).slice(0, flags.limit);
+
+    if (entries.length === 0) {
+      this.log(fileName ? `No history found for ${fileName}.` : "No history found.");
+      return;
+    }
+
+    const summaries = new Map<HistoryEntry, string[]>();
+
+    if (flags.summary) {
+      for (const entry of entries) {
+        try {
+          summaries.set(
+            entry,
+            await this.summarizeEntry(
+              storage,
+              project.root,
+              keyRing,
+              entry,
+              findPreviousUpload(history, entry)
+            )
+          );
+        } catch (error) {
+          summaries.set(entry, [`(summary unavailable: ${(error as Error).message})`]);
+        }
+      }
+    }
+
+    if (flags.json) {
+      this.log(
+        JSON.stringify(
+          entries.map((entry) => ({ ...entry, changes: summaries.get(entry) })),
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    this.log(chalk.bold(`History for ${fileName ?? project.name}:\n`));
+
+    for (const entry of entries) {
+      const action = entry.action === "delete" ? chalk.red("deleted") : chalk.green("uploaded");
+      const machine = entry.source
+        ? `${entry.source.machineName} ${chalk.dim(`(${entry.source.os})`)}`
+        : chalk.dim("unknown machine");
+
+      this.log(`${chalk.cyan(formatTimestamp(entry.createdAt))}  ${entry.file}  ${action}`);
+      if (entry.revision) {
+        this.log(chalk.dim(`  revision ${entry.revision}`));
+      }
+      this.log(`  from ${machine}`);
+
+      for (const line of summaries.get(entry) ?? []) {
+        this.log(chalk.dim(`    ${line}`));
+      }
+      this.log("");
+    }
+  }
+
+  private async summarizeEntry(
+    storage: StorageBackend,
+    root: string,
+    keyRing: ProjectKeyRing,
+    entry: HistoryEntry,
+    previous: HistoryEntry | null
+  ): Promise<string[]> {
+    if (entry.action === "delete" || !entry.revision) {
+      return [];
+    }
+
+    const current = await this.readRevision(storage, root, keyRing, entry);
+    const before = previous?.revision
+      ? await this.readRevision(storage, root, keyRing, previous)
+      : null;
+
+    if (!isEnvFile(entry.file)) {
+      if (before === null) return ["content created"];
+      return before === current ? ["no content changes"] : ["content changed"];
+    }
+
+    const currentVars = parseEnvFile(current);
+    const beforeVars = before === null ? new Map<string, string>() : parseEnvFile(before);
+    const diff = diffEnvFiles(currentVars, beforeVars);
+
+    const lines = [
+      ...diff.added.map((key) => `+ ${key}`),
+      ...diff.removed.map((key) => `- ${key}`),
+      ...diff.changed.map((key) => `~ ${key}`),
+    ];
+
+    return lines.length > 0 ? lines : ["no key changes"];
+  }
+
+  private async readRevision(
+    storage: StorageBackend,
+    root: string,
+    keyRing: ProjectKeyRing,
+    entry: HistoryEntry
+  ): Promise<string> {
+    const revision = entry.revision!;
+    const cached = this.revisionCache.get(revision);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const encrypted = await storage.downloadJson<EncryptedData>(
+      getFileObjectPath(root, { name: entry.file, ...entry })
+    );
+    const content = await keyRing.decrypt(entry.file, encrypted, entry.keyVersion);
+    this.revisionCache.set(revision, content);
+    return content;
+  }
+}
+
+function formatTimestamp(isoString: string): string {
+  return new Date(isoString).toLocaleString();
+}
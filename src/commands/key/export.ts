@@ -0,0 +1,60 @@
+import { Command, Flags } from "@oclif/core";
+import { chmod, writeFile } from "node:fs/promises";
+import chalk from "chalk";
+import { loadGlobalConfig } from "../../lib/config.ts";
+import { requireAuth } from "../../lib/auth.ts";
+import { getEncryptionKey, getKeyMode, loadUserIndex } from "../../lib/master-key.ts";
+import { listProjects } from "../../lib/projects.ts";
+import { formatRecoveryKit } from "../../lib/recovery-kit.ts";
+import { createStorageBackend, getStorageLocation } from "../../lib/storage.ts";
+
+export default class KeyExport extends Command {
+  static override description =
+    "Print a recovery kit that restores access if your master key or account is lost";
+
+  static override examples = [
+    "<%= config.bin %> key export",
+    "<%= config.bin %> key export --output pss-recovery-kit.txt",
+  ];
+
+  static override flags = {
+    output: Flags.string({
+      char: "o",
+      description: "Write the kit to a file (mode 0600) instead of printing it",
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(KeyExport);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const key = await getEncryptionKey(auth.userId, storage);
+    const loaded = await loadUserIndex(storage, auth.userId);
+
+    const kit = await formatRecoveryKit({
+      userId: auth.userId,
+      key,
+      email: auth.email,
+      keyMode: getKeyMode(loaded?.index ?? null),
+      storage: getStorageLocation(globalConfig),
+      projects: (await listProjects(storage, auth.userId, key)).map((project) => project.name),
+      createdAt: new Date().toISOString(),
+    });
+
+    if (flags.output) {
+      await writeFile(flags.output, kit, { mode: 0o600 });
+      await chmod(flags.output, 0o600);
+      this.log(chalk.green("✓") + ` Recovery kit written to ${flags.output}`);
+      this.log(chalk.yellow("Print it or move it somewhere safe, then delete this copy."));
+      return;
+    }
+
+    this.log(kit);
+  }
+}
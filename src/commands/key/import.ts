@@ -0,0 +1,119 @@
+import { Args, Command, Flags } from "@oclif/core";
+import { readFile } from "node:fs/promises";
+import chalk from "chalk";
+import { loadAuthData, loadGlobalConfig, saveAuthData } from "../../lib/config.ts";
+import {
+  clearKeyCache,
+  getKeyMode,
+  isMasterKey,
+  loadUserIndex,
+  saveLocalMasterKey,
+} from "../../lib/master-key.ts";
+import { isInteractive, promptSecret } from "../../lib/prompt.ts";
+import { listProjects } from "../../lib/projects.ts";
+import { parseRecoveryKit } from "../../lib/recovery-kit.ts";
+import { createStorageBackend } from "../../lib/storage.ts";
+
+export default class KeyImport extends Command {
+  static override description = "Restore access on this machine from a recovery kit";
+
+  static override examples = [
+    "<%= config.bin %> key import pss-recovery-kit.txt",
+    "<%= config.bin %> key import",
+  ];
+
+  static override args = {
+    file: Args.string({
+      description: "Recovery kit file (prompts for the code if omitted)",
+      required: false,
+    }),
+  };
+
+  static override flags = {
+    force: Flags.boolean({
+      char: "f",
+      description: "Replace the account you are currently logged in with",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(KeyImport);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first so pss can reach your storage.");
+    }
+
+    let recovered;
+    try {
+      if (args.file) {
+        recovered = await parseRecoveryKit(await readFile(args.file, "utf-8"));
+      } else {
+        if (!isInteractive()) {
+          this.error("No terminal available. Pass the recovery kit file instead.");
+        }
+        const code = await promptSecret("Recovery code: ");
+        const checksum = await promptSecret("Checksum: ");
+        recovered = await parseRecoveryKit(code, checksum);
+      }
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    const { userId, key } = recovered;
+    const storage = createStorageBackend(globalConfig);
+    const loaded = await loadUserIndex(storage, userId);
+
+    if (loaded?.index.migration) {
+      this.error(
+        "A master key migration was in progress for this account. " +
+          "Finish it on a machine that still has access, then export a new kit."
+      );
+    }
+
+    if (!(await isMasterKey(userId, loaded?.index ?? null, key))) {
+      this.error(
+        "This recovery kit doesn't unlock the data in your storage. " +
+          "The master key may have been rotated since the kit was made."
+      );
+    }
+
+    const auth = await loadAuthData();
+    if (auth && auth.userId !== userId && !flags.force) {
+      this.error(
+        `Logged in as ${auth.email}, but the kit belongs to another account. ` +
+          "Use --force to switch this machine to the kit's account."
+      );
+    }
+
+    if (!auth || auth.userId !== userId) {
+      await saveAuthData({
+        accessToken: "",
+        refreshToken: "",
+        expiresAt: 0,
+        userId,
+        email: `recovered account ${userId}`,
+        recovery: true,
+      });
+    }
+
+    const keyMode = getKeyMode(loaded?.index ?? null);
+    if (keyMode !== "legacy") {
+      await saveLocalMasterKey(userId, key);
+    }
+    clearKeyCache();
+
+    const projects = await listProjects(storage, userId, key);
+    this.log(chalk.green("✓") + " Access restored on this machine");
+    if (projects.length > 0) {
+      this.log(chalk.dim(`Projects: ${projects.map((project) => project.name).join(", ")}`));
+    }
+    this.log("");
+    const next = keyMode === "legacy" ? "pss key setup" : "pss rotate-key --master";
+    this.log(
+      `Consider running ${chalk.cyan(next)} and exporting a new kit, ` +
+        "especially if the old key may be compromised."
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig } from "../../lib/config.ts";
+import { requireAuth } from "../../lib/auth.ts";
+import {
+  deriveKeyFromPassphrase,
+  encodeKey,
+  generateKdfParams,
+  generateMasterKey,
+} from "../../lib/crypto.ts";
+import {
+  MASTER_KEY_ENV,
+  PASSPHRASE_ENV,
+  beginKeyMigration,
+  completeKeyMigration,
+  createUserIndex,
+  getKeyMode,
+  getLocalKeyPath,
+  hasLegacyData,
+  loadUserIndex,
+  readNewPassphrase,
+  saveLocalMasterKey,
+  saveUserIndex,
+  unlockMasterKey,
+  unlockPreviousMasterKey,
+} from "../../lib/master-key.ts";
+import { createStorageBackend } from "../../lib/storage.ts";
+import type { KdfParams } from "../../types/index.ts";
+
+export default class KeySetup extends Command {
+  static override description =
+    "Choose the passphrase or random master key your files are encrypted with";
+
+  static override examples = [
+    "<%= config.bin %> key setup",
+    "<%= config.bin %> key setup --random",
+    `${PASSPHRASE_ENV}=... <%= config.bin %> key setup`,
+  ];
+
+  static override flags = {
+    random: Flags.boolean({
+      description: "Generate a random master key instead of using a passphrase",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(KeySetup);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+
+    let loaded = await loadUserIndex(storage, auth.userId);
+    let newKey: Uint8Array;
+    let generatedKey = false;
+
+    if (loaded?.index.migration) {
+      // A previous run was interrupted; unlock the key it already chose and carry on
+      this.log(chalk.yellow("Resuming interrupted master key migration..."));
+      newKey = await unlockMasterKey(auth.userId, loaded.index);
+    } else {
+      const mode = getKeyMode(loaded?.index ?? null);
+      if (mode !== "legacy") {
+        this.error(`Master key is already set up (${mode} mode). Use 'pss rotate-key --master'.`);
+      }
+
+      let kdf: KdfParams | undefined;
+
+      if (flags.random) {
+        newKey = await generateMasterKey();
+        await saveLocalMasterKey(auth.userId, newKey);
+        generatedKey = true;
+      } else {
+        const passphrase = await readNewPassphrase(PASSPHRASE_ENV);
+        kdf = await generateKdfParams();
+        newKey = await deriveKeyFromPassphrase(passphrase, kdf);
+      }
+
+      const index = await createUserIndex(flags.random ? "random" : "passphrase", newKey, kdf);
+      if (!loaded && !(await hasLegacyData(storage, auth.userId))) {
+        // Nothing was ever encrypted with the legacy key, so there is nothing to migrate
+        await saveUserIndex(storage, auth.userId, index, null);
+        this.log(chalk.green(`✓ Master key set up (${index.keyMode} mode)`));
+        if (generatedKey) {
+          await this.showGeneratedKey(auth.userId, newKey);
+        }
+        return;
+      }
+      loaded = await beginKeyMigration(storage, auth.userId, loaded, index);
+    }
+
+    const oldKey = await unlockPreviousMasterKey(auth.userId, loaded.index.migration!);
+    const spinner = ora("Re-encrypting files...").start();
+
+    try {
+      const result = await completeKeyMigration(
+        storage,
+        auth.userId,
+        loaded,
+        oldKey,
+        newKey,
+        (key, done, total) => {
+          spinner.text = `Re-encrypting files (${done + 1}/${total}) ${chalk.dim(key)}`;
+        }
+      );
+
+      spinner.succeed(
+        `Master key set up (${loaded.index.keyMode} mode), re-encrypted ${result.reencrypted} file(s)` +
+          (result.skipped > 0 ? chalk.dim(` (${result.skipped} already done)`) : "")
+      );
+    } catch (error) {
+      spinner.fail("Migration interrupted");
+      this.error(`${(error as Error).message}\nRun 'pss key setup' again to resume.`);
+    }
+
+    if (generatedKey) {
+      await this.showGeneratedKey(auth.userId, newKey);
+    }
+  }
+
+  private async showGeneratedKey(userId: string, key: Uint8Array): Promise<void> {
+    this.log("");
+    this.log(chalk.bold("Your master key:"));
+    this.log(`  ${await encodeKey(key)}`);
+    this.log("");
+    this.log(chalk.yellow("Store it somewhere safe. Without it your files cannot be decrypted."));
+    this.log(chalk.dim(`Saved on this machine at ${getLocalKeyPath(userId)}`));
+    this.log(chalk.dim(`On other machines, enter it when prompted or set ${MASTER_KEY_ENV}.`));
+  }
+}
@@ -0,0 +1,112 @@
+import { Command, Flags } from "@oclif/core";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import chalk from "chalk";
+import { loadProjectConfig } from "../lib/config.ts";
+import { EnvDocument } from "../lib/env-document.ts";
+import { discoverProjectFiles, isEnvFile, normalizeRelativePath } from "../lib/env-files.ts";
+
+export default class Lint extends Command {
+  static override description =
+    "Check env files for duplicate keys, malformed lines, unclosed quotes and invalid names";
+
+  static override examples = [
+    "<%= config.bin %> lint",
+    "<%= config.bin %> lint .env .env.local",
+    "<%= config.bin %> lint --fix",
+  ];
+
+  static override strict = false;
+
+  static override flags = {
+    fix: Flags.boolean({
+      description: "Remove overridden duplicate keys and whitespace around =, then report the rest",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { argv, flags } = await this.parse(Lint);
+    const projectDir = process.cwd();
+
+    let fileNames: string[];
+    if (argv.length > 0) {
+      fileNames = (argv as string[]).map((file) => {
+        const name = normalizeRelativePath(file);
+        if (!name) {
+          this.error(`Invalid file path: ${file}`);
+        }
+        return name;
+      });
+    } else {
+      const projectConfig = await loadProjectConfig(projectDir);
+      if (!projectConfig) {
+        this.error("Project not initialized. Run 'pss init' first, or name the files to check.");
+      }
+      const files = await discoverProjectFiles(
+        projectDir,
+        projectConfig.pattern,
+        projectConfig.ignore
+      );
+      fileNames = files
+        .map((file) => file.name)
+        .filter(isEnvFile)
+        .sort();
+    }
+
+    let errors = 0;
+    let warnings = 0;
+
+    for (const fileName of fileNames) {
+      const filePath = join(projectDir, fileName);
+      let content: string;
+      try {
+        content = await readFile(filePath, "utf-8");
+      } catch {
+        this.error(`Local file not found: ${fileName}`);
+      }
+
+      const document = EnvDocument.parse(content);
+      if (flags.fix) {
+        const fixed = document.fix();
+        if (fixed > 0) {
+          await writeFile(filePath, document.toString());
+          this.log(chalk.green(`✓ Fixed ${fixed} problem(s) in ${fileName}`));
+        }
+      }
+
+      const diagnostics = document.diagnostics();
+      if (diagnostics.length === 0) {
+        continue;
+      }
+
+      this.log(chalk.bold(fileName));
+      for (const diagnostic of diagnostics) {
+        const severity =
+          diagnostic.severity === "error" ? chalk.red("error".padEnd(7)) : chalk.yellow("warning");
+        this.log(
+          `  ${diagnostic.line}:${diagnostic.column}  ${severity}  ${diagnostic.message}  ${chalk.dim(diagnostic.code)}`
+        );
+        if (diagnostic.severity === "error") {
+          errors++;
+        } else {
+          warnings++;
+        }
+      }
+      this.log("");
+    }
+
+    if (errors + warnings === 0) {
+      this.log(chalk.green(`✓ ${fileNames.length} env file(s) look good`));
+      return;
+    }
+
+    this.log(`${errors + warnings} problem(s): ${errors} error(s), ${warnings} warning(s)`);
+    if (!flags.fix && warnings > 0) {
+      this.log(chalk.dim("Run 'pss lint --fix' to repair duplicates and whitespace around ="));
+    }
+    if (errors > 0) {
+      this.exit(1);
+    }
+  }
+}
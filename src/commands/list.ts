@@ -3,8 +3,10 @@ import chalk from "chalk";
 import { loadProjectConfig, loadGlobalConfig } from "../lib/config.ts";
 import { getAuthData } from "../lib/auth.ts";
 import { discoverProjectFiles } from "../lib/env-files.ts";
-import { createB2Client, getManifestPath } from "../lib/b2-client.ts";
-import type { ProjectManifest } from "../types/index.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { loadManifest } from "../lib/manifest.ts";
+import { listProjects, openProject } from "../lib/projects.ts";
+import { createStorageBackend, getManifestPath } from "../lib/storage.ts";
 
 export default class List extends Command {
   static override description = "List projects and files";
@@ -80,16 +82,22 @@ export default class List extends Command {
 
     if (!flags.local) {
       try {
-        const b2 = createB2Client(globalConfig);
-        const manifestPath = getManifestPath(auth.userId, projectName);
-        const manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-        remoteFiles = manifest.files.map((f) => ({
+        const storage = createStorageBackend(globalConfig);
+        const encryptionKey = await getEncryptionKey(auth.userId, storage);
+        const { project, keyRing } = await openProject(
+          storage,
+          auth.userId,
+          encryptionKey,
+          projectName
+        );
+        const loaded = await loadManifest(storage, getManifestPath(project.root), keyRing);
+        remoteFiles = (loaded?.manifest.files ?? []).map((f) => ({
           name: f.name,
           size: f.size,
           updatedAt: f.updatedAt,
         }));
-      } catch {
-        // No remote files
+      } catch (error) {
+        this.error((error as Error).message);
       }
     }
 
@@ -138,31 +146,32 @@ export default class List extends Command {
     if (!globalConfig) return;
 
     try {
-      const b2 = createB2Client(globalConfig);
-
-      const keys = await b2.list(`users/${userId}/projects/`);
-      const projects = new Set<string>();
+      const storage = createStorageBackend(globalConfig);
+      const encryptionKey = await getEncryptionKey(userId, storage);
 
-      for (const key of keys) {
-        const match = key.match(/users\/[^/]+\/projects\/([^/]+)\//);
-        if (match?.[1]) {
-          projects.add(match[1]);
-        }
-      }
+      // Project directories are named by opaque IDs; names come from the user index
+      const projects = await listProjects(storage, userId, encryptionKey);
 
       if (json) {
-        this.log(JSON.stringify([...projects], null, 2));
+        this.log(
+          JSON.stringify(
+            projects.map((project) => project.name),
+            null,
+            2
+          )
+        );
         return;
       }
 
-      if (projects.size === 0) {
+      if (projects.length === 0) {
         this.log("No projects found.");
         return;
       }
 
       this.log(chalk.bold("Your projects:\n"));
       for (const project of projects) {
-        this.log(`  ${chalk.dim("•")} ${project}`);
+        const shared = project.shared ? chalk.dim(" (shared)") : "";
+        this.log(`  ${chalk.dim("•")} ${project.name}${shared}`);
       }
     } catch (error) {
       this.error((error as Error).message);
@@ -0,0 +1,22 @@
+import { Command } from "@oclif/core";
+import chalk from "chalk";
+import { lockAgent } from "../lib/key-agent.ts";
+
+export default class Lock extends Command {
+  static override description = "Wipe the unlocked master keys held by the key agent";
+
+  static override examples = ["<%= config.bin %> lock"];
+
+  public async run(): Promise<void> {
+    await this.parse(Lock);
+
+    const removed = await lockAgent();
+    if (removed === null) {
+      this.log("No key agent is running.");
+      return;
+    }
+    this.log(
+      chalk.green("✓") + ` Locked; ${removed} key${removed === 1 ? "" : "s"} wiped from the agent`
+    );
+  }
+}
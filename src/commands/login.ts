@@ -1,14 +1,43 @@
-import { Command } from "@oclif/core";
+import { Command, Flags } from "@oclif/core";
 import { login, getAuthData } from "../lib/auth.ts";
+import { loadGlobalConfig } from "../lib/config.ts";
+import { ensureIdentity } from "../lib/identity.ts";
+import { getEncryptionKey, needsKeySetup } from "../lib/master-key.ts";
+import { isInteractive, promptLine } from "../lib/prompt.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+import { AUTH_PROVIDERS } from "../types/index.ts";
+import type { AuthData, AuthProviderType } from "../types/index.ts";
 import chalk from "chalk";
 
 export default class Login extends Command {
-  static override description = "Login with Google OAuth";
+  static override description = "Login with Google, GitHub or an OpenID Connect provider";
 
-  static override examples = ["<%= config.bin %> login"];
+  static override examples = [
+    "<%= config.bin %> login",
+    "<%= config.bin %> login --device",
+    "<%= config.bin %> login --no-browser",
+    "<%= config.bin %> login --provider github",
+  ];
+
+  static override flags = {
+    provider: Flags.string({
+      description: "Identity provider (default: auth.provider from the config, else google)",
+      options: AUTH_PROVIDERS,
+    }),
+    device: Flags.boolean({
+      description: "Enter a code on another device instead of using a browser here",
+      default: false,
+      exclusive: ["browser"],
+    }),
+    browser: Flags.boolean({
+      description: "Open a browser on this machine (--no-browser to paste the redirect URL)",
+      default: true,
+      allowNo: true,
+    }),
+  };
 
   public async run(): Promise<void> {
-    await this.parse(Login);
+    const { flags } = await this.parse(Login);
 
     const existing = await getAuthData();
     if (existing) {
@@ -18,11 +47,53 @@ export default class Login extends Command {
     }
 
     try {
-      const auth = await login();
+      const mode = flags.device ? "device" : flags.browser ? "browser" : "paste";
+      const auth = await login(mode, flags.provider as AuthProviderType | undefined);
       this.log("");
       this.log(chalk.green("✓") + ` Logged in as ${chalk.cyan(auth.email)}`);
+      await this.publishIdentity(auth);
     } catch (error) {
       this.error((error as Error).message);
     }
   }
+
+  /**
+   * Publish the user's public key so teammates can share projects with them.
+   * New users choose a master key first. Login still succeeds if storage isn't
+   * reachable yet.
+   */
+  private async publishIdentity(auth: AuthData): Promise<void> {
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      return;
+    }
+
+    try {
+      const storage = createStorageBackend(globalConfig);
+      if ((await needsKeySetup(storage, auth.userId)) && !(await this.offerKeySetup())) {
+        return;
+      }
+      const key = await getEncryptionKey(auth.userId, storage);
+      await ensureIdentity(storage, auth.userId, auth.email, key);
+    } catch (error) {
+      this.log(chalk.dim(`Sharing key not published: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Run 'pss key setup' if the user agrees. Returns whether a master key was set up.
+   */
+  private async offerKeySetup(): Promise<boolean> {
+    this.log("");
+    this.log("Your files are encrypted with a master key, and you haven't chosen one yet.");
+    if (isInteractive()) {
+      const answer = await promptLine("Set up a passphrase now? (Y/n) ");
+      if (!/^n/i.test(answer.trim())) {
+        await this.config.runCommand("key:setup");
+        return true;
+      }
+    }
+    this.log(`Run ${chalk.cyan("pss key setup")} before pushing (--random for a generated key).`);
+    return false;
+  }
 }
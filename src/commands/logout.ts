@@ -1,23 +1,42 @@
-import { Command } from "@oclif/core";
-import { logout, getAuthData } from "../lib/auth.ts";
+import { Command, Flags } from "@oclif/core";
+import { logout } from "../lib/auth.ts";
+import { loadAuthData } from "../lib/config.ts";
 import chalk from "chalk";
 
 export default class Logout extends Command {
-  static override description = "Log out and clear stored credentials";
+  static override description = "Log out, revoke the login's tokens and clear stored credentials";
 
-  static override examples = ["<%= config.bin %> logout"];
+  static override examples = ["<%= config.bin %> logout", "<%= config.bin %> logout --no-revoke"];
+
+  static override flags = {
+    revoke: Flags.boolean({
+      description: "Revoke the tokens with the identity provider (--no-revoke to only forget them)",
+      allowNo: true,
+      default: true,
+    }),
+  };
 
   public async run(): Promise<void> {
-    await this.parse(Logout);
+    const { flags } = await this.parse(Logout);
 
-    const auth = await getAuthData();
+    // Read without refreshing: the tokens are about to be revoked anyway
+    const auth = await loadAuthData();
 
     if (!auth) {
       this.log("Not currently logged in.");
       return;
     }
 
-    await logout();
+    const result = await logout({ revoke: flags.revoke });
     this.log(chalk.green("✓") + ` Logged out from ${chalk.cyan(auth.email)}`);
+
+    if (result.revokedWith) {
+      this.log(chalk.dim(`  Tokens revoked with ${result.revokedWith}`));
+    } else if (result.revokeError) {
+      this.warn(
+        `Could not revoke the tokens: ${result.revokeError}\n` +
+          "They stay valid until they expire or you remove the app's access in your account settings."
+      );
+    }
   }
 }
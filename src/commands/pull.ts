@@ -4,14 +4,30 @@ import { join } from "node:path";
 import chalk from "chalk";
 import ora from "ora";
 import { loadProjectConfig, loadGlobalConfig, saveProjectConfig } from "../lib/config.ts";
-import { requireAuth } from "../lib/auth.ts";
-import { decrypt, getEncryptionKey, hashFile } from "../lib/crypto.ts";
-import { createB2Client, getStoragePath, getManifestPath } from "../lib/b2-client.ts";
+import { hashFile } from "../lib/crypto.ts";
+import { openProjectAs, requireCaller } from "../lib/projects.ts";
+import {
+  createStorageBackend,
+  getStorageLabel,
+  getFileObjectPath,
+  getManifestPath,
+} from "../lib/storage.ts";
 import { discoverProjectFiles, normalizeRelativePath } from "../lib/env-files.ts";
-import { loadAllBaseContents, updateBaseSnapshot } from "../lib/base-snapshot.ts";
+import {
+  findUnpushedChanges,
+  loadAllBaseContents,
+  loadBaseSnapshot,
+  updateBaseSnapshot,
+} from "../lib/base-snapshot.ts";
 import { ensureParentDir } from "../lib/fs-utils.ts";
-import { getManifestFingerprint } from "../lib/manifest.ts";
-import type { ProjectManifest, EncryptedData, BaseFileEntry } from "../types/index.ts";
+import {
+  assertTrustedManifest,
+  getManifestFingerprint,
+  loadManifest,
+  verifyFileContent,
+} from "../lib/manifest.ts";
+import { refreshTemplate } from "../lib/template.ts";
+import type { EncryptedData, BaseFileEntry } from "../types/index.ts";
 
 export default class Pull extends Command {
   static override description = "Pull files from remote storage";
@@ -61,28 +77,24 @@ export default class Pull extends Command {
       this.error("Not configured. Run 'pss config set' first.");
     }
 
-    const auth = await requireAuth();
-    const encryptionKey = await getEncryptionKey(auth.userId);
+    const storage = createStorageBackend(globalConfig);
+    const caller = await requireCaller(storage);
 
-    const spinner = ora("Connecting to B2...").start();
+    const spinner = ora(`Connecting to ${getStorageLabel(globalConfig)}...`).start();
 
     try {
-      const b2 = createB2Client(globalConfig);
-
-      const connected = await b2.testConnection();
+      const connected = await storage.testConnection();
       if (!connected) {
-        spinner.fail("Failed to connect to B2");
-        this.error("Check your B2 credentials.");
+        spinner.fail(`Failed to connect to ${getStorageLabel(globalConfig)}`);
+        this.error("Check your storage configuration.");
       }
 
       spinner.text = "Fetching manifest...";
 
-      const manifestPath = getManifestPath(auth.userId, projectConfig.projectName);
-      let manifest: ProjectManifest;
+      const { project, keyRing } = await openProjectAs(storage, caller, projectConfig.projectName);
+      const loaded = await loadManifest(storage, getManifestPath(project.root), keyRing);
 
-      try {
-        manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-      } catch {
+      if (!loaded) {
         spinner.fail("No remote files found");
         this.log("");
         this.log("This project hasn't been pushed yet.");
@@ -90,6 +102,8 @@ export default class Pull extends Command {
         return;
       }
 
+      assertTrustedManifest(loaded, (await loadBaseSnapshot(projectDir))?.remoteSequence);
+      const manifest = loaded.manifest;
       let filesToPull = manifest.files;
 
       if (args.files) {
@@ -121,23 +135,7 @@ export default class Pull extends Command {
       );
 
       if (baseContents.size > 0 && !flags.force) {
-        let hasLocalChanges = false;
-
-        for (const localFile of localFiles) {
-          const baseContent = baseContents.get(localFile.name);
-          if (baseContent !== undefined) {
-            const localHash = await hashFile(localFile.content);
-            const baseHash = await hashFile(baseContent);
-            if (localHash !== baseHash) {
-              hasLocalChanges = true;
-              break;
-            }
-          } else {
-            // New local file not in base = local change
-            hasLocalChanges = true;
-            break;
-          }
-        }
+        const hasLocalChanges = findUnpushedChanges(localFiles, baseContents).length > 0;
 
         if (hasLocalChanges) {
           spinner.warn("Local has unpushed changes");
@@ -177,13 +175,14 @@ export default class Pull extends Command {
       for (const file of filesToPull) {
         spinner.text = `Downloading ${file.name}...`;
 
-        const storagePath = getStoragePath(auth.userId, projectConfig.projectName, file.name);
+        const storagePath = getFileObjectPath(project.root, file);
 
-        const encrypted = await b2.downloadJson<EncryptedData>(storagePath);
+        const encrypted = await storage.downloadJson<EncryptedData>(storagePath);
 
         spinner.text = `Decrypting ${file.name}...`;
 
-        const content = await decrypt(encrypted, encryptionKey);
+        const content = await keyRing.decrypt(file.name, encrypted, file.keyVersion);
+        await verifyFileContent(keyRing, file, content);
 
         const localPath = join(projectDir, file.name);
         await ensureParentDir(localPath);
@@ -213,12 +212,17 @@ export default class Pull extends Command {
       // Update base snapshot to track what we pulled
       spinner.text = "Updating base snapshot...";
       const manifestHash = await hashFile(getManifestFingerprint(manifest));
-      await updateBaseSnapshot(projectDir, baseFiles, manifestHash);
+      await updateBaseSnapshot(projectDir, baseFiles, manifestHash, manifest.generation);
 
       projectConfig.lastSync = new Date().toISOString();
       await saveProjectConfig(projectDir, projectConfig);
 
       spinner.succeed(`Pulled ${downloaded} file(s)`);
+
+      await refreshTemplate(projectDir, projectConfig, {
+        log: (message) => this.log(chalk.dim(message)),
+        warn: (message) => this.warn(message),
+      });
     } catch (error) {
       spinner.fail("Pull failed");
       this.error((error as Error).message);
@@ -2,14 +2,22 @@ import { Command, Args, Flags } from "@oclif/core";
 import chalk from "chalk";
 import ora from "ora";
 import { loadProjectConfig, loadGlobalConfig, saveProjectConfig } from "../lib/config.ts";
-import { requireAuth } from "../lib/auth.ts";
 import { discoverProjectFiles, normalizeRelativePath } from "../lib/env-files.ts";
-import { encrypt, getEncryptionKey, hashFile } from "../lib/crypto.ts";
-import { createB2Client, getStoragePath, getManifestPath } from "../lib/b2-client.ts";
-import { loadBaseSnapshot, updateBaseSnapshot } from "../lib/base-snapshot.ts";
+import { hashFile } from "../lib/crypto.ts";
+import { assertCanWrite, openProjectAs, requireCaller } from "../lib/projects.ts";
+import { createStorageBackend, getStorageLabel, getManifestPath } from "../lib/storage.ts";
+import { hasUnpulledChanges, loadBaseSnapshot, updateBaseSnapshot } from "../lib/base-snapshot.ts";
 import { getFileSource, getManifestSource } from "../lib/source-info.ts";
-import { getManifestFingerprint } from "../lib/manifest.ts";
-import type { ProjectManifest, FileEntry, BaseFileEntry } from "../types/index.ts";
+import {
+  assertTrustedManifest,
+  commitManifest,
+  createEmptyManifest,
+  getManifestFingerprint,
+  loadManifest,
+} from "../lib/manifest.ts";
+import { appendHistory, uploadRevision } from "../lib/history.ts";
+import { checkSchema } from "../lib/schema.ts";
+import type { ProjectManifest, FileEntry, BaseFileEntry, HistoryEntry } from "../types/index.ts";
 
 export default class Push extends Command {
   static override description = "Push files to remote storage";
@@ -38,6 +46,11 @@ export default class Push extends Command {
       description: "Push even if remote has unpulled changes",
       default: false,
     }),
+    "sign-unsigned": Flags.boolean({
+      description:
+        "Build on an unsigned manifest pushed by an older version and sign it (check it with 'pss diff' first)",
+      default: false,
+    }),
   };
 
   public async run(): Promise<void> {
@@ -55,8 +68,8 @@ export default class Push extends Command {
       this.error("Not configured. Run 'pss config set' first.");
     }
 
-    const auth = await requireAuth();
-    const encryptionKey = await getEncryptionKey(auth.userId);
+    const storage = createStorageBackend(globalConfig);
+    const caller = await requireCaller(storage);
 
     let projectFiles = await discoverProjectFiles(
       projectDir,
@@ -74,6 +87,22 @@ export default class Push extends Command {
       return;
     }
 
+    let violations;
+    try {
+      violations = await checkSchema(projectDir, projectConfig, projectFiles);
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+    if (violations.length > 0) {
+      for (const violation of violations) {
+        this.log(chalk.red(`  ${violation.file}: ${violation.key} ${violation.message}`));
+      }
+      this.log("");
+      this.error(
+        `Refusing to push: ${violations.length} schema violation(s). Fix them and push again, or run 'pss check'.`
+      );
+    }
+
     this.log(chalk.bold(`Pushing ${projectFiles.length} file(s):\n`));
 
     for (const file of projectFiles) {
@@ -88,46 +117,41 @@ export default class Push extends Command {
 
     this.log("");
 
-    const spinner = ora("Connecting to B2...").start();
+    const spinner = ora(`Connecting to ${getStorageLabel(globalConfig)}...`).start();
 
     try {
-      const b2 = createB2Client(globalConfig);
-
-      const connected = await b2.testConnection();
+      const connected = await storage.testConnection();
       if (!connected) {
-        spinner.fail("Failed to connect to B2");
-        this.error("Check your B2 credentials.");
+        spinner.fail(`Failed to connect to ${getStorageLabel(globalConfig)}`);
+        this.error("Check your storage configuration.");
       }
 
-      const manifestPath = getManifestPath(auth.userId, projectConfig.projectName);
-      let manifest: ProjectManifest;
-      let remoteManifestHash: string | null = null;
-      let legacyManifestHash: string | null = null;
-
-      try {
-        manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-        remoteManifestHash = await hashFile(getManifestFingerprint(manifest));
-        legacyManifestHash = await hashFile(JSON.stringify(manifest));
-      } catch {
-        manifest = {
-          version: 1,
-          projectName: projectConfig.projectName,
-          files: [],
-        };
-      }
+      const { project, keyRing } = await openProjectAs(storage, caller, projectConfig.projectName, {
+        create: true,
+      });
+      assertCanWrite(project, keyRing);
+      const manifestPath = getManifestPath(project.root);
+      const loaded = await loadManifest(storage, manifestPath, keyRing);
+      const manifest: ProjectManifest = loaded
+        ? structuredClone(loaded.manifest)
+        : createEmptyManifest(projectConfig.projectName);
 
       // Check if remote has changed since last sync
       spinner.text = "Checking for remote changes...";
       const baseSnapshot = await loadBaseSnapshot(projectDir);
 
-      if (baseSnapshot && remoteManifestHash && !flags.force) {
-        const baseHash = baseSnapshot.remoteManifestHash;
-        const remoteChanged =
-          baseHash &&
-          baseHash !== remoteManifestHash &&
-          (!legacyManifestHash || baseHash !== legacyManifestHash);
+      // Pushing builds on the remote manifest and signs the result, so it must be
+      // trusted like one that is pulled. An unsigned one may only be signed on
+      // request, and never after this checkout has seen a signed one.
+      if (
+        loaded &&
+        !(!loaded.signedBy && flags["sign-unsigned"] && baseSnapshot?.remoteSequence === undefined)
+      ) {
+        assertTrustedManifest(loaded, baseSnapshot?.remoteSequence);
+      }
 
-        if (remoteChanged) {
+      if (loaded && !flags.force) {
+        if (await hasUnpulledChanges(baseSnapshot, loaded.manifest)) {
           spinner.warn("Remote has unpulled changes");
           this.log("");
           this.log(chalk.yellow("The remote has changes that you haven't pulled yet."));
@@ -143,21 +167,35 @@ export default class Push extends Command {
       }
 
       let uploaded = 0;
+      let unchanged = 0;
       const baseFiles: BaseFileEntry[] = [];
+      const historyEntries: HistoryEntry[] = [];
 
       for (const file of projectFiles) {
-        spinner.text = `Encrypting ${file.name}...`;
+        const hash = await keyRing.hashContent(file.content);
+        const existingIndex = manifest.files.findIndex((f) => f.name === file.name);
+        const existing = manifest.files[existingIndex];
 
-        const encrypted = await encrypt(file.content, encryptionKey);
-        const hash = await hashFile(file.content);
+        // Track for base snapshot
+        baseFiles.push({
+          name: file.name,
+          hash,
+          content: file.content,
+        });
 
-        spinner.text = `Uploading ${file.name}...`;
+        // Identical content already has a revision; don't store another copy
+        if (existing?.revision && (await keyRing.matchesHash(existing.hash, file.content))) {
+          unchanged++;
+          continue;
+        }
+
+        spinner.text = `Encrypting ${file.name}...`;
 
-        const storagePath = getStoragePath(auth.userId, projectConfig.projectName, file.name);
+        const { encrypted, keyVersion } = await keyRing.encrypt(file.name, file.content);
 
-        await b2.uploadJson(storagePath, encrypted);
+        spinner.text = `Uploading ${file.name}...`;
 
-        const existingIndex = manifest.files.findIndex((f) => f.name === file.name);
+        const { revision, objectId } = await uploadRevision(storage, project.root, encrypted);
 
         const entry: FileEntry = {
           name: file.name,
@@ -165,6 +203,9 @@ export default class Push extends Command {
           size: file.size,
           updatedAt: new Date().toISOString(),
           source: getFileSource(projectDir, file.path),
+          revision,
+          keyVersion,
+          objectId,
         };
 
         if (existingIndex >= 0) {
@@ -173,11 +214,16 @@ export default class Push extends Command {
           manifest.files.push(entry);
         }
 
-        // Track for base snapshot
-        baseFiles.push({
-          name: file.name,
+        historyEntries.push({
+          file: entry.name,
+          action: "upload",
+          revision,
+          keyVersion,
+          objectId,
           hash,
-          content: file.content,
+          size: entry.size,
+          createdAt: entry.updatedAt,
+          source: entry.source,
         });
 
         uploaded++;
@@ -185,17 +231,29 @@ export default class Push extends Command {
 
       manifest.source = getManifestSource(projectDir);
       spinner.text = "Updating manifest...";
-      await b2.uploadJson(manifestPath, manifest);
+      const committed = await commitManifest(storage, manifestPath, loaded, manifest, keyRing);
+
+      spinner.text = "Recording history...";
+      await appendHistory(storage, project, keyRing, historyEntries);
 
-      // Update base snapshot to track what we pushed
+      // Update base snapshot to track what we pushed. If the manifest had to be
+      // rebased onto a concurrent push, this hash won't match the remote, so the
+      // next push will ask for a sync first.
       spinner.text = "Updating base snapshot...";
       const newManifestHash = await hashFile(getManifestFingerprint(manifest));
-      await updateBaseSnapshot(projectDir, baseFiles, newManifestHash);
+      await updateBaseSnapshot(
+        projectDir,
+        baseFiles,
+        newManifestHash,
+        committed.manifest.generation
+      );
 
       projectConfig.lastSync = new Date().toISOString();
       await saveProjectConfig(projectDir, projectConfig);
 
-      spinner.succeed(`Pushed ${uploaded} file(s)`);
+      spinner.succeed(
+        `Pushed ${uploaded} file(s)${unchanged > 0 ? chalk.dim(` (${unchanged} unchanged)`) : ""}`
+      );
     } catch (error) {
       spinner.fail("Push failed");
       this.error((error as Error).message);
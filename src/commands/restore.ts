@@ -0,0 +1,348 @@
+import { Command, Args, Flags } from "@oclif/core";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import chalk from "chalk";
+import ora from "ora";
+import { loadProjectConfig, loadGlobalConfig, saveProjectConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { hashFile } from "../lib/crypto.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { assertCanWrite, openProject } from "../lib/projects.ts";
+import {
+  createStorageBackend,
+  getStorageLabel,
+  getManifestPath,
+  getFileObjectPath,
+} from "../lib/storage.ts";
+import { discoverProjectFiles, normalizeRelativePath } from "../lib/env-files.ts";
+import {
+  findUnpushedChanges,
+  hasUnpulledChanges,
+  loadAllBaseContents,
+  loadBaseSnapshot,
+  updateBaseSnapshot,
+} from "../lib/base-snapshot.ts";
+import {
+  appendHistory,
+  findRevision,
+  getRevisionsAt,
+  loadHistory,
+  uploadRevision,
+  verifyHistoryEntry,
+} from "../lib/history.ts";
+import {
+  assertTrustedManifest,
+  commitManifest,
+  createEmptyManifest,
+  getManifestFingerprint,
+  loadManifest,
+  verifyFileContent,
+} from "../lib/manifest.ts";
+import { ensureParentDir } from "../lib/fs-utils.ts";
+import { getFileSource, getManifestSource } from "../lib/source-info.ts";
+import type { BaseFileEntry, EncryptedData, HistoryEntry } from "../types/index.ts";
+
+export default class Restore extends Command {
+  static override description = "Restore a file or the whole project to a previous revision";
+
+  static override examples = [
+    "<%= config.bin %> restore .env.local --revision 20250112T101530123Z-1a2b3c",
+    '<%= config.bin %> restore .env.local --at "2025-01-12 10:00"',
+    '<%= config.bin %> restore --at "2025-01-12 10:00"',
+    '<%= config.bin %> restore --at "2025-01-12 10:00" --push',
+  ];
+
+  static override args = {
+    file: Args.string({
+      description: "File to restore (defaults to the whole project)",
+      required: false,
+    }),
+  };
+
+  static override flags = {
+    revision: Flags.string({
+      char: "r",
+      description: "Revision ID to restore (see 'pss history')",
+      exclusive: ["at"],
+    }),
+    at: Flags.string({
+      description: "Restore the revision that was current at this date/time",
+      exclusive: ["revision"],
+    }),
+    push: Flags.boolean({
+      description: "Also publish the restored content to remote as the new head",
+      default: false,
+    }),
+    force: Flags.boolean({
+      char: "f",
+      description:
+        "Restore even if local has unpushed changes (or, with --push, remote has unpulled ones)",
+      default: false,
+    }),
+    "dry-run": Flags.boolean({
+      description: "Show what would be restored without changing anything",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(Restore);
+
+    if (!flags.revision && !flags.at) {
+      this.error("Specify --revision or --at.");
+    }
+
+    if (flags.revision && !args.file) {
+      this.error("--revision requires a file. Use --at to restore the whole project.");
+    }
+
+    const fileName = args.file ? normalizeRelativePath(args.file) : null;
+    if (args.file && !fileName) {
+      this.error(`Invalid file path: ${args.file}`);
+    }
+
+    let at: Date | null = null;
+    if (flags.at) {
+      at = new Date(flags.at);
+      if (Number.isNaN(at.getTime())) {
+        this.error(`Invalid date: ${flags.at}`);
+      }
+    }
+
+    const projectDir = process.cwd();
+    const projectConfig = await loadProjectConfig(projectDir);
+
+    if (!projectConfig) {
+      this.error("Project not initialized. Run 'pss init' first.");
+    }
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const encryptionKey = await getEncryptionKey(auth.userId, storage);
+
+    const spinner = ora(`Connecting to ${getStorageLabel(globalConfig)}...`).start();
+
+    try {
+      spinner.text = "Loading history...";
+      const { project, keyRing } = await openProject(
+        storage,
+        auth.userId,
+        encryptionKey,
+        projectConfig.projectName,
+        { create: flags.push }
+      );
+      if (flags.push) {
+        assertCanWrite(project, keyRing);
+      }
+      const history = await loadHistory(storage, project, keyRing);
+
+      // 1. Work out which revision to restore for each file
+      let targets: HistoryEntry[];
+
+      if (flags.revision) {
+        const entry = findRevision(history, fileName!, flags.revision);
+        if (!entry) {
+          spinner.fail(`Revision ${flags.revision} not found for ${fileName}`);
+          return;
+        }
+        targets = [entry];
+      } else {
+        const state = getRevisionsAt(history, at!);
+        targets = [...state.values()].filter((entry) => !fileName || entry.file === fileName);
+      }
+
+      targets = targets.filter((entry) => {
+        const safeName = normalizeRelativePath(entry.file);
+        if (!safeName || safeName !== entry.file) {
+          this.warn(`Skipping unsafe remote file path: ${entry.file}`);
+          return false;
+        }
+        return true;
+      });
+
+      // Anyone holding the data key can rewrite the log, readers included
+      for (const entry of targets) {
+        await verifyHistoryEntry(keyRing, entry);
+      }
+
+      if (targets.length === 0) {
+        spinner.fail(
+          fileName
+            ? `${fileName} had no revision at ${at!.toLocaleString()}`
+            : `No revisions found at ${at!.toLocaleString()}`
+        );
+        return;
+      }
+
+      // 2. Refuse to clobber unpushed local edits, like pull does
+      spinner.text = "Checking for local changes...";
+      const targetNames = new Set(targets.map((entry) => entry.file));
+      const baseContents = await loadAllBaseContents(projectDir);
+      const localFiles = (
+        await discoverProjectFiles(projectDir, projectConfig.pattern, projectConfig.ignore)
+      ).filter((file) => targetNames.has(file.name));
+
+      const unpushed = findUnpushedChanges(localFiles, baseContents);
+
+      if (unpushed.length > 0 && !flags.force) {
+        spinner.warn("Local has unpushed changes");
+        this.log("");
+        this.log(chalk.yellow("These files have local changes that haven't been pushed yet:"));
+        for (const name of unpushed) {
+          this.log(`  ${chalk.dim("•")} ${name}`);
+        }
+        this.log("");
+        this.log("Options:");
+        this.log(`  ${chalk.cyan("pss push")}          Push your changes first`);
+        this.log(`  ${chalk.cyan("pss restore -f")}    Restore anyway and overwrite local`);
+        this.log("");
+        return;
+      }
+
+      // 3. With --push the restored content becomes the remote head, so the remote
+      // gets the same checks as a push
+      const manifestPath = getManifestPath(project.root);
+      const snapshot = await loadBaseSnapshot(projectDir);
+      const loaded = flags.push ? await loadManifest(storage, manifestPath, keyRing) : null;
+      let remoteChanged = false;
+
+      if (loaded) {
+        spinner.text = "Checking for remote changes...";
+        assertTrustedManifest(loaded, snapshot?.remoteSequence);
+        remoteChanged = await hasUnpulledChanges(snapshot, loaded.manifest);
+
+        if (remoteChanged && !flags.force) {
+          spinner.warn("Remote has unpulled changes");
+          this.log("");
+          this.log(chalk.yellow("The remote has changes that you haven't pulled yet."));
+          this.log("");
+          this.log("Options:");
+          this.log(`  ${chalk.cyan("pss sync")}                Merge remote changes first`);
+          this.log(`  ${chalk.cyan("pss restore --push -f")}   Restore and push anyway`);
+          this.log("");
+          return;
+        }
+      }
+
+      spinner.stop();
+
+      this.log(chalk.bold(`Restoring ${targets.length} file(s):\n`));
+      for (const entry of targets) {
+        const machine = entry.source ? ` from ${entry.source.machineName}` : "";
+        this.log(
+          `  ${chalk.dim("•")} ${entry.file} ${chalk.dim(
+            `(${new Date(entry.createdAt).toLocaleString()}${machine}, ${entry.revision})`
+          )}`
+        );
+      }
+
+      if (flags["dry-run"]) {
+        this.log("");
+        this.log(chalk.yellow("Dry run - nothing was restored."));
+        return;
+      }
+
+      this.log("");
+      spinner.start("Downloading revisions...");
+
+      // 4. Write the old revisions to the working tree
+      const restored: BaseFileEntry[] = [];
+
+      for (const entry of targets) {
+        spinner.text = `Restoring ${entry.file}...`;
+
+        const encrypted = await storage.downloadJson<EncryptedData>(
+          getFileObjectPath(project.root, { name: entry.file, ...entry })
+        );
+        const content = await keyRing.decrypt(entry.file, encrypted, entry.keyVersion);
+        if (entry.hash) {
+          await verifyFileContent(keyRing, { name: entry.file, hash: entry.hash }, content);
+        }
+
+        const localPath = join(projectDir, entry.file);
+        await ensureParentDir(localPath);
+        await writeFile(localPath, content);
+
+        restored.push({ name: entry.file, hash: await keyRing.hashContent(content), content });
+      }
+
+      if (!flags.push) {
+        // The base snapshot is left alone, so the restored content shows up as a
+        // local change that the next push or sync will publish.
+        spinner.succeed(`Restored ${restored.length} file(s) locally`);
+        this.log("");
+        this.log(`Run ${chalk.cyan("pss push")} to publish the restored content.`);
+        return;
+      }
+
+      // 5. Publish the restored content as the new remote head
+      const manifest = loaded
+        ? structuredClone(loaded.manifest)
+        : createEmptyManifest(project.name);
+      const historyEntries: HistoryEntry[] = [];
+
+      for (const file of restored) {
+        spinner.text = `Uploading ${file.name}...`;
+
+        const { encrypted, keyVersion } = await keyRing.encrypt(file.name, file.content);
+        const { revision, objectId } = await uploadRevision(storage, project.root, encrypted);
+
+        const entry = {
+          name: file.name,
+          hash: file.hash,
+          size: Buffer.byteLength(file.content),
+          updatedAt: new Date().toISOString(),
+          source: getFileSource(projectDir, join(projectDir, file.name)),
+          revision,
+          keyVersion,
+          objectId,
+        };
+
+        manifest.files = [...manifest.files.filter((f) => f.name !== file.name), entry];
+        historyEntries.push({
+          file: entry.name,
+          action: "upload",
+          revision,
+          keyVersion,
+          objectId,
+          hash: entry.hash,
+          size: entry.size,
+          createdAt: entry.updatedAt,
+          source: entry.source,
+        });
+      }
+
+      manifest.source = getManifestSource(projectDir);
+      spinner.text = "Updating manifest...";
+      const committed = await commitManifest(storage, manifestPath, loaded, manifest, keyRing);
+      await appendHistory(storage, project, keyRing, historyEntries);
+
+      // Keep base entries for files that weren't restored. Remote changes that
+      // were pushed over with --force haven't been pulled, so the snapshot keeps
+      // pointing at the old remote and the next push asks for a sync first.
+      spinner.text = "Updating base snapshot...";
+      const baseFiles = [
+        ...(snapshot?.files ?? []).filter((file) => !targetNames.has(file.name)),
+        ...restored,
+      ];
+      const manifestHash =
+        remoteChanged && snapshot
+          ? snapshot.remoteManifestHash
+          : await hashFile(getManifestFingerprint(manifest));
+      await updateBaseSnapshot(projectDir, baseFiles, manifestHash, committed.manifest.generation);
+
+      projectConfig.lastSync = new Date().toISOString();
+      await saveProjectConfig(projectDir, projectConfig);
+
+      spinner.succeed(`Restored and pushed ${restored.length} file(s)`);
+    } catch (error) {
+      spinner.fail("Restore failed");
+      this.error((error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig, loadProjectConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import {
+  deriveKeyFromPassphrase,
+  encodeKey,
+  generateKdfParams,
+  generateMasterKey,
+} from "../lib/crypto.ts";
+import {
+  MASTER_KEY_ENV,
+  NEW_PASSPHRASE_ENV,
+  beginKeyMigration,
+  completeKeyMigration,
+  createUserIndex,
+  getEncryptionKey,
+  getLocalKeyPath,
+  loadUserIndex,
+  readNewPassphrase,
+  saveLocalMasterKey,
+  unlockMasterKey,
+  unlockPreviousMasterKey,
+} from "../lib/master-key.ts";
+import { rotateProjectKey } from "../lib/project-keys.ts";
+import { loadIdentity } from "../lib/identity.ts";
+import { resolveProject } from "../lib/projects.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+import type { StorageBackend } from "../lib/storage.ts";
+import type { KdfParams } from "../types/index.ts";
+
+export default class RotateKey extends Command {
+  static override description = "Rotate the master key or the current project's data key";
+
+  static override examples = [
+    "<%= config.bin %> rotate-key --project",
+    "<%= config.bin %> rotate-key --master",
+    `${NEW_PASSPHRASE_ENV}=... <%= config.bin %> rotate-key --master`,
+  ];
+
+  static override flags = {
+    master: Flags.boolean({
+      description: "Replace the master key and re-wrap every project's data keys",
+      default: false,
+      exclusive: ["project"],
+    }),
+    project: Flags.boolean({
+      description: "Start a new data key version for the current project",
+      default: false,
+      exclusive: ["master"],
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(RotateKey);
+
+    if (!flags.master && !flags.project) {
+      this.error("Specify --master or --project.");
+    }
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+
+    if (flags.project) {
+      await this.rotateProject(storage, auth.userId);
+    } else {
+      await this.rotateMaster(storage, auth.userId);
+    }
+  }
+
+  private async rotateProject(storage: StorageBackend, userId: string): Promise<void> {
+    const projectConfig = await loadProjectConfig(process.cwd());
+    if (!projectConfig) {
+      this.error("Project not initialized. Run 'pss init' first.");
+    }
+
+    const masterKey = await getEncryptionKey(userId, storage);
+    const spinner = ora("Rotating project data key...").start();
+
+    try {
+      const project = await resolveProject(storage, userId, masterKey, projectConfig.projectName, {
+        create: true,
+      });
+      const identity = await loadIdentity(storage, userId, masterKey);
+      const version = await rotateProjectKey(storage, project, masterKey, identity);
+      spinner.succeed(`Project data key rotated to version ${version}`);
+      this.log(
+        chalk.dim(
+          "New uploads use the new key; existing revisions keep the key they were written with."
+        )
+      );
+    } catch (error) {
+      spinner.fail("Key rotation failed");
+      this.error((error as Error).message);
+    }
+  }
+
+  private async rotateMaster(storage: StorageBackend, userId: string): Promise<void> {
+    let loaded = await loadUserIndex(storage, userId);
+    let oldKey: Uint8Array;
+    let newKey: Uint8Array;
+    let generatedKey = false;
+
+    if (loaded?.index.migration) {
+      this.log(chalk.yellow("Resuming interrupted master key migration..."));
+      newKey = await unlockMasterKey(userId, loaded.index);
+      oldKey = await unlockPreviousMasterKey(userId, loaded.index.migration);
+    } else {
+      if (!loaded || loaded.index.keyMode === "legacy") {
+        this.error("No master key set up yet. Run 'pss key setup' first.");
+      }
+
+      oldKey = await unlockMasterKey(userId, loaded.index);
+      let kdf: KdfParams | undefined;
+
+      if (loaded.index.keyMode === "random") {
+        // Keep the old key around until the migration completes
+        await saveLocalMasterKey(userId, oldKey, true);
+        newKey = await generateMasterKey();
+        await saveLocalMasterKey(userId, newKey);
+        generatedKey = true;
+      } else {
+        const passphrase = await readNewPassphrase(NEW_PASSPHRASE_ENV);
+        kdf = await generateKdfParams();
+        newKey = await deriveKeyFromPassphrase(passphrase, kdf);
+      }
+
+      const index = await createUserIndex(loaded.index.keyMode, newKey, kdf);
+      loaded = await beginKeyMigration(storage, userId, loaded, index);
+    }
+
+    const spinner = ora("Re-wrapping project keys...").start();
+
+    try {
+      const result = await completeKeyMigration(
+        storage,
+        userId,
+        loaded,
+        oldKey,
+        newKey,
+        (key, done, total) => {
+          spinner.text = `Re-wrapping keys (${done + 1}/${total}) ${chalk.dim(key)}`;
+        }
+      );
+
+      spinner.succeed(
+        `Master key rotated: re-wrapped ${result.rewrapped} project key(s), ` +
+          `re-encrypted ${result.reencrypted} file(s) without a data key`
+      );
+    } catch (error) {
+      spinner.fail("Rotation interrupted");
+      this.error(`${(error as Error).message}\nRun 'pss rotate-key --master' again to resume.`);
+    }
+
+    if (generatedKey) {
+      this.log("");
+      this.log(chalk.bold("Your new master key:"));
+      this.log(`  ${await encodeKey(newKey)}`);
+      this.log("");
+      this.log(chalk.yellow("Store it somewhere safe. The old key no longer works."));
+      this.log(chalk.dim(`Saved on this machine at ${getLocalKeyPath(userId)}`));
+      this.log(chalk.dim(`On other machines, enter it when prompted or set ${MASTER_KEY_ENV}.`));
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { Command, Flags } from "@oclif/core";
+import { spawn } from "node:child_process";
+import { constants } from "node:os";
+import { loadGlobalConfig, loadProjectConfig } from "../lib/config.ts";
+import { isEnvFile, parseEnvFile } from "../lib/env-files.ts";
+import { loadBaseSnapshot } from "../lib/base-snapshot.ts";
+import { assertTrustedManifest, loadManifest, verifyFileContent } from "../lib/manifest.ts";
+import { openProjectAs, requireCaller } from "../lib/projects.ts";
+import { SERVICE_TOKEN_ENV } from "../lib/service-tokens.ts";
+import { createStorageBackend, getFileObjectPath, getManifestPath } from "../lib/storage.ts";
+import type { EncryptedData } from "../types/index.ts";
+
+export default class Run extends Command {
+  static override description =
+    "Run a command with variables from remote env files, without writing them to disk";
+
+  static override examples = [
+    "<%= config.bin %> run -- npm start",
+    "<%= config.bin %> run --file .env.production -- ./deploy.sh",
+    "PSS_TOKEN=pss_... <%= config.bin %> run --project my-app -- node server.js",
+  ];
+
+  static override strict = false;
+
+  static override flags = {
+    file: Flags.string({
+      char: "f",
+      description: "Remote env file to load; repeat to load several, later ones win",
+      multiple: true,
+      default: [".env"],
+    }),
+    project: Flags.string({
+      char: "p",
+      description: "Project name (default: from .pss.json, or the service token's project)",
+    }),
+    override: Flags.boolean({
+      description: "Let file values replace variables already set in the environment",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { argv, flags } = await this.parse(Run);
+    const [command, ...commandArgs] = argv as string[];
+    if (!command) {
+      this.error("Nothing to run. Usage: pss run [flags] -- <command> [args...]");
+    }
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const projectDir = process.cwd();
+    const storage = createStorageBackend(globalConfig);
+    const caller = await requireCaller(storage);
+    const projectName =
+      flags.project ??
+      (await loadProjectConfig(projectDir))?.projectName ??
+      (caller.kind === "token" ? caller.token.projectName : undefined);
+    if (!projectName) {
+      this.error("No project. Run 'pss init' first or pass --project.");
+    }
+
+    const variables: Record<string, string> = {};
+    try {
+      const { project, keyRing } = await openProjectAs(storage, caller, projectName);
+      const loaded = await loadManifest(storage, getManifestPath(project.root), keyRing);
+      if (!loaded) {
+        throw new Error(`Project "${projectName}" has no remote files`);
+      }
+      assertTrustedManifest(loaded, (await loadBaseSnapshot(projectDir))?.remoteSequence);
+
+      for (const name of flags.file) {
+        const file = loaded.manifest.files.find((entry) => entry.name === name);
+        if (!file) {
+          throw new Error(`Remote file not found: ${name}`);
+        }
+        if (!isEnvFile(file.name)) {
+          throw new Error(`${name} is not an env file`);
+        }
+
+        const encrypted = await storage.downloadJson<EncryptedData>(
+          getFileObjectPath(project.root, file)
+        );
+        const content = await keyRing.decrypt(file.name, encrypted, file.keyVersion);
+        await verifyFileContent(keyRing, file, content);
+
+        for (const [key, value] of parseEnvFile(content)) {
+          variables[key] = value;
+        }
+      }
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    const env = flags.override
+      ? { ...process.env, ...variables }
+      : { ...variables, ...process.env };
+    // The command gets the settings, not the credential that fetched them
+    delete env[SERVICE_TOKEN_ENV];
+
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      const child = spawn(command, commandArgs, { env, stdio: "inherit" });
+      child.on("error", reject);
+      child.on("close", (code, signal) =>
+        resolve(code ?? 128 + (signal ? constants.signals[signal] : 0))
+      );
+    }).catch((error: Error) => this.error(`Failed to run ${command}: ${error.message}`));
+
+    this.exit(exitCode);
+  }
+}
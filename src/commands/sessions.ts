@@ -0,0 +1,64 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { loadGlobalConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { listSessions } from "../lib/sessions.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+
+export default class Sessions extends Command {
+  static override description = "List the machines that have pushed to your projects";
+
+  static override examples = ["<%= config.bin %> sessions", "<%= config.bin %> sessions --json"];
+
+  static override flags = {
+    json: Flags.boolean({
+      description: "Output as JSON",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(Sessions);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+
+    let result;
+    try {
+      const storage = createStorageBackend(globalConfig);
+      const masterKey = await getEncryptionKey(auth.userId, storage);
+      result = await listSessions(storage, auth.userId, masterKey);
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    if (flags.json) {
+      this.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.sessions.length === 0) {
+      this.log("No pushes recorded yet.");
+    }
+
+    for (const session of result.sessions) {
+      const lastPush = session.lastPushAt
+        ? `last push ${new Date(session.lastPushAt).toLocaleString()}`
+        : "no files from it remain";
+      this.log(`${chalk.bold(session.machineName)} ${chalk.dim(`(${session.os}, ${lastPush})`)}`);
+      for (const [project, paths] of Object.entries(session.projects)) {
+        this.log(`  ${chalk.cyan(project)} ${chalk.dim(paths.join(", "))}`);
+      }
+      this.log("");
+    }
+
+    if (result.unreadable.length > 0) {
+      this.warn(`Couldn't read: ${result.unreadable.join(", ")}`);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { Args, Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { ensureIdentity, lookupMember, pinMember } from "../lib/identity.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { openProject } from "../lib/projects.ts";
+import { addMember, convertToSharedProject } from "../lib/sharing.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+import type { MemberRole } from "../types/index.ts";
+
+export default class Share extends Command {
+  static override description = "Share a project with a teammate";
+
+  static override examples = [
+    "<%= config.bin %> share my-app alice@example.com",
+    "<%= config.bin %> share my-app ci@example.com --role reader",
+  ];
+
+  static override args = {
+    project: Args.string({
+      description: "Project name",
+      required: true,
+    }),
+    email: Args.string({
+      description: "Email the teammate logs in with",
+      required: true,
+    }),
+  };
+
+  static override flags = {
+    role: Flags.string({
+      description: "What the teammate may do (run again to change it)",
+      options: ["owner", "writer", "reader"],
+      default: "writer",
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(Share);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    if (auth.recovery) {
+      this.error("Log in with 'pss login' before sharing projects.");
+    }
+    if (args.email.trim().toLowerCase() === auth.email.toLowerCase()) {
+      this.error("You already have access to your own projects.");
+    }
+
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+    const spinner = ora("Looking up teammate...").start();
+
+    try {
+      const owner = await ensureIdentity(storage, auth.userId, auth.email, masterKey);
+      const recipient = await lookupMember(storage, args.email);
+      if (!recipient) {
+        spinner.fail(`${args.email} has no sharing key yet`);
+        this.log(`Ask them to run ${chalk.cyan("pss login")} with this storage, then try again.`);
+        return;
+      }
+      await pinMember(storage, auth.userId, masterKey, args.email, recipient);
+
+      let opened = await openProject(storage, auth.userId, masterKey, args.project);
+      if (!opened.project.shared) {
+        spinner.text = "Moving project to shared storage...";
+        opened = await convertToSharedProject(storage, masterKey, opened, owner, auth.email);
+      }
+      if (opened.keyRing.role !== "owner") {
+        spinner.fail(`Only owners of ${args.project} can share it`);
+        return;
+      }
+
+      spinner.text = `Sharing ${args.project}...`;
+      const role = flags.role as MemberRole;
+      await addMember(storage, opened, recipient, { email: args.email, role }, owner, auth.email);
+      spinner.succeed(`Shared ${chalk.cyan(args.project)} with ${args.email} as ${role}`);
+      this.log(
+        chalk.dim(`They can now run 'pss accept ${args.project}', then 'pss init' and 'pss pull'.`)
+      );
+    } catch (error) {
+      spinner.fail("Share failed");
+      this.error((error as Error).message);
+    }
+  }
+}
@@ -4,18 +4,23 @@ import { join, resolve } from "node:path";
 import chalk from "chalk";
 import ora from "ora";
 import { loadProjectConfig, loadGlobalConfig, saveProjectConfig } from "../lib/config.ts";
-import { requireAuth } from "../lib/auth.ts";
 import {
   discoverProjectFiles,
   parseEnvFile,
-  serializeEnvFile,
   getFileKind,
   normalizeRelativePath,
 } from "../lib/env-files.ts";
-import { encrypt, decrypt, getEncryptionKey, hashFile } from "../lib/crypto.ts";
-import { createB2Client, getStoragePath, getManifestPath } from "../lib/b2-client.ts";
+import { hashFile } from "../lib/crypto.ts";
+import { assertCanWrite, openProjectAs, requireCaller } from "../lib/projects.ts";
+import {
+  createStorageBackend,
+  getStorageLabel,
+  getFileObjectPath,
+  getManifestPath,
+} from "../lib/storage.ts";
 import {
   loadAllBaseContents,
+  loadBaseSnapshot,
   updateBaseSnapshot,
   hasValidBaseSnapshot,
 } from "../lib/base-snapshot.ts";
@@ -27,14 +32,28 @@ import {
   getAutoMergeSummary,
   createSyncResult,
 } from "../lib/merge.ts";
+import { EnvDocument } from "../lib/env-document.ts";
+import { findReferenceProblems } from "../lib/interpolation.ts";
+import type { EnvSource } from "../lib/interpolation.ts";
+import { checkSchema } from "../lib/schema.ts";
+import { refreshTemplate } from "../lib/template.ts";
 import { ensureParentDir } from "../lib/fs-utils.ts";
 import { getFileSource, getManifestSource } from "../lib/source-info.ts";
-import { getManifestFingerprint } from "../lib/manifest.ts";
+import {
+  assertTrustedManifest,
+  commitManifest,
+  getManifestFingerprint,
+  loadManifest,
+  verifyFileContent,
+} from "../lib/manifest.ts";
+import { appendHistory, uploadRevision } from "../lib/history.ts";
 import type {
   ProjectManifest,
   EncryptedData,
+  FileEntry,
   FileMergeResult,
   BaseFileEntry,
+  HistoryEntry,
 } from "../types/index.ts";
 
 export default class Sync extends Command {
@@ -84,18 +103,16 @@ export default class Sync extends Command {
       this.error("Not configured. Run 'pss config set' first.");
     }
 
-    const auth = await requireAuth();
-    const encryptionKey = await getEncryptionKey(auth.userId);
+    const storage = createStorageBackend(globalConfig);
+    const caller = await requireCaller(storage);
 
-    const spinner = ora("Connecting to B2...").start();
+    const spinner = ora(`Connecting to ${getStorageLabel(globalConfig)}...`).start();
 
     try {
-      const b2 = createB2Client(globalConfig);
-
-      const connected = await b2.testConnection();
+      const connected = await storage.testConnection();
       if (!connected) {
-        spinner.fail("Failed to connect to B2");
-        this.error("Check your B2 credentials.");
+        spinner.fail(`Failed to connect to ${getStorageLabel(globalConfig)}`);
+        this.error("Check your storage configuration.");
       }
 
       // 1. Load all three versions: base, local, remote
@@ -115,14 +132,16 @@ export default class Sync extends Command {
       }
 
       spinner.text = "Fetching remote manifest...";
-      const manifestPath = getManifestPath(auth.userId, projectConfig.projectName);
-      let manifest: ProjectManifest | null = null;
-
-      try {
-        manifest = await b2.downloadJson<ProjectManifest>(manifestPath);
-      } catch {
-        // No remote manifest - first sync
+      const { project, keyRing } = await openProjectAs(storage, caller, projectConfig.projectName, {
+        create: true,
+      });
+      assertCanWrite(project, keyRing);
+      const manifestPath = getManifestPath(project.root);
+      const loaded = await loadManifest(storage, manifestPath, keyRing);
+      if (loaded) {
+        assertTrustedManifest(loaded, (await loadBaseSnapshot(projectDir))?.remoteSequence);
       }
+      const manifest = loaded?.manifest ?? null;
 
       // 2. Download all remote file contents
       spinner.text = "Downloading remote files...";
@@ -135,14 +154,19 @@ export default class Sync extends Command {
             this.warn(`Skipping unsafe remote file path: ${file.name}`);
             continue;
           }
-          const storagePath = getStoragePath(auth.userId, projectConfig.projectName, safeName);
+          const storagePath = getFileObjectPath(project.root, file);
+          let content: string;
           try {
-            const encrypted = await b2.downloadJson<EncryptedData>(storagePath);
-            const content = await decrypt(encrypted, encryptionKey);
-            remoteContents.set(safeName, content);
-          } catch {
-            // Skip files that can't be downloaded
+            const encrypted = await storage.downloadJson<EncryptedData>(storagePath);
+            content = await keyRing.decrypt(file.name, encrypted, file.keyVersion);
+          } catch (error) {
+            // Leaving it out would push a manifest without it, deleting it for everyone
+            throw new Error(
+              `Could not download ${file.name}: ${(error as Error).message}. Nothing was changed.`
+            );
           }
+          await verifyFileContent(keyRing, file, content);
+          remoteContents.set(safeName, content);
         }
       }
 
@@ -246,6 +270,26 @@ export default class Sync extends Command {
         }
       }
 
+      const mergedContents = new Map(
+        mergeResults.map((result) => [
+          result.fileName,
+          getMergedContent(
+            result,
+            localFiles.find((f) => f.name === result.fileName)?.content,
+            remoteContents.get(result.fileName)
+          ),
+        ])
+      );
+
+      const mergedEnvFiles = mergeResults.flatMap((result) => {
+        const content = mergedContents.get(result.fileName);
+        return result.kind === "env" && content ? [{ name: result.fileName, content }] : [];
+      });
+
+      if (projectConfig.interpolation) {
+        this.reportInterpolationProblems(mergedEnvFiles);
+      }
+
       // 7. Check if there are any changes to apply
       const hasChanges = mergeResults.some((r) => r.status !== "clean" || r.autoMerged.length > 0);
 
@@ -255,6 +299,19 @@ export default class Sync extends Command {
         return;
       }
 
+      // Nothing is written or uploaded while the merged files break the schema
+      const violations = await checkSchema(projectDir, projectConfig, mergedEnvFiles);
+      if (violations.length > 0) {
+        this.log("");
+        for (const violation of violations) {
+          this.log(chalk.red(`  ${violation.file}: ${violation.key} ${violation.message}`));
+        }
+        this.log("");
+        this.error(
+          `Refusing to sync: ${violations.length} schema violation(s) in the merged files. Fix them and sync again, or run 'pss check'.`
+        );
+      }
+
       // 8. Dry run - show what would happen
       if (flags["dry-run"]) {
         this.log("");
@@ -267,7 +324,7 @@ export default class Sync extends Command {
 
       // Write merged files locally
       for (const result of mergeResults) {
-        const content = getMergedContent(result);
+        const content = mergedContents.get(result.fileName) ?? null;
         if (content === null) {
           // File was deleted - we don't delete local files automatically
           continue;
@@ -288,42 +345,77 @@ export default class Sync extends Command {
       };
 
       const baseFiles: BaseFileEntry[] = [];
+      const historyEntries: HistoryEntry[] = [];
 
       for (const result of mergeResults) {
-        const content = getMergedContent(result);
+        const content = mergedContents.get(result.fileName) ?? null;
+        const remoteEntry = manifest?.files.find((f) => f.name === result.fileName);
+
         if (content === null) {
+          if (remoteEntry) {
+            historyEntries.push({
+              file: result.fileName,
+              action: "delete",
+              createdAt: new Date().toISOString(),
+              source: getFileSource(projectDir, resolve(projectDir, result.fileName)),
+            });
+          }
+          continue;
+        }
+        const hash = await keyRing.hashContent(content);
+
+        baseFiles.push({
+          name: result.fileName,
+          hash,
+          content,
+        });
+
+        // Unchanged remote content keeps its existing revision
+        if (remoteEntry?.revision && (await keyRing.matchesHash(remoteEntry.hash, content))) {
+          newManifest.files.push(remoteEntry);
           continue;
         }
-        const hash = await hashFile(content);
 
         spinner.text = `Uploading ${result.fileName}...`;
-        const encrypted = await encrypt(content, encryptionKey);
-        const storagePath = getStoragePath(auth.userId, projectConfig.projectName, result.fileName);
-        await b2.uploadJson(storagePath, encrypted);
+        const { encrypted, keyVersion } = await keyRing.encrypt(result.fileName, content);
+        const { revision, objectId } = await uploadRevision(storage, project.root, encrypted);
 
-        newManifest.files.push({
+        const entry: FileEntry = {
           name: result.fileName,
           hash,
           size: content.length,
           updatedAt: new Date().toISOString(),
           source: getFileSource(projectDir, resolve(projectDir, result.fileName)),
-        });
-
-        baseFiles.push({
-          name: result.fileName,
+          revision,
+          keyVersion,
+          objectId,
+        };
+        newManifest.files.push(entry);
+
+        historyEntries.push({
+          file: entry.name,
+          action: "upload",
+          revision,
+          keyVersion,
+          objectId,
           hash,
-          content,
+          size: entry.size,
+          createdAt: entry.updatedAt,
+          source: entry.source,
         });
       }
 
       // Upload manifest
       spinner.text = "Updating manifest...";
-      await b2.uploadJson(manifestPath, newManifest);
+      const committed = await commitManifest(storage, manifestPath, loaded, newManifest, keyRing);
+
+      spinner.text = "Recording history...";
+      await appendHistory(storage, project, keyRing, historyEntries);
 
       // Update base snapshot
       spinner.text = "Updating base snapshot...";
       const manifestHash = await hashFile(getManifestFingerprint(newManifest));
-      await updateBaseSnapshot(projectDir, baseFiles, manifestHash);
+      await updateBaseSnapshot(projectDir, baseFiles, manifestHash, committed.manifest.generation);
 
       // Update project config
       projectConfig.lastSync = new Date().toISOString();
@@ -333,12 +425,33 @@ export default class Sync extends Command {
 
       this.log("");
       this.log(chalk.green("✓ Sync complete!"));
+
+      await refreshTemplate(projectDir, projectConfig, {
+        log: (message) => this.log(chalk.dim(message)),
+        warn: (message) => this.warn(message),
+      });
     } catch (error) {
       spinner.fail("Sync failed");
       this.error((error as Error).message);
     }
   }
 
+  /**
+   * Warn about references in the merged env files that don't resolve, so
+   * they're noticed before the files reach other machines.
+   */
+  private reportInterpolationProblems(sources: EnvSource[]): void {
+    const problems = findReferenceProblems(sources);
+    if (problems.length === 0) {
+      return;
+    }
+
+    this.log("");
+    for (const problem of problems) {
+      this.warn(problem.message);
+    }
+  }
+
   private displayMergeSummary(results: FileMergeResult[]): void {
     this.log("");
     this.log(chalk.bold("Sync Summary:"));
@@ -368,12 +481,24 @@ export default class Sync extends Command {
   }
 }
 
-function getMergedContent(result: FileMergeResult): string | null {
+/**
+ * The content to write for a merged file. Env files are the local file with
+ * the merged changes applied line by line (or the remote file if there is no
+ * local one), so comments, ordering and formatting survive the sync.
+ */
+function getMergedContent(
+  result: FileMergeResult,
+  localContent: string | undefined,
+  remoteContent: string | undefined
+): string | null {
   if (result.kind === "env") {
     if (result.merged.size === 0) {
       return null;
     }
-    return serializeEnvFile(result.merged);
+    const remote = EnvDocument.parse(remoteContent ?? "");
+    const document = localContent !== undefined ? EnvDocument.parse(localContent) : remote;
+    document.update(result.merged, remote);
+    return document.toString();
   }
 
   return result.mergedContent ?? null;
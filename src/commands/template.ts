@@ -0,0 +1,34 @@
+import { Command } from "@oclif/core";
+import chalk from "chalk";
+import { loadProjectConfig } from "../lib/config.ts";
+import { updateTemplate } from "../lib/template.ts";
+
+export default class Template extends Command {
+  static override description =
+    "Generate or update .env.example from the keys of your env files, without their values";
+
+  static override examples = ["<%= config.bin %> template"];
+
+  public async run(): Promise<void> {
+    await this.parse(Template);
+
+    const projectDir = process.cwd();
+    const projectConfig = await loadProjectConfig(projectDir);
+    if (!projectConfig) {
+      this.error("Project not initialized. Run 'pss init' first.");
+    }
+
+    let result;
+    try {
+      result = await updateTemplate(projectDir, projectConfig);
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+
+    if (result.changed) {
+      this.log(chalk.green(`✓ Updated ${result.path}`));
+    } else {
+      this.log(`${result.path} is up to date.`);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig } from "../../lib/config.ts";
+import { requireAuth } from "../../lib/auth.ts";
+import { ensureIdentity } from "../../lib/identity.ts";
+import { getEncryptionKey } from "../../lib/master-key.ts";
+import { openProject } from "../../lib/projects.ts";
+import { isInteractive, promptLine } from "../../lib/prompt.ts";
+import { SERVICE_TOKEN_ENV, createServiceToken } from "../../lib/service-tokens.ts";
+import { convertToSharedProject } from "../../lib/sharing.ts";
+import { createStorageBackend } from "../../lib/storage.ts";
+
+export default class TokenCreate extends Command {
+  static override description = "Create a service token for CI and deploy pipelines";
+
+  static override examples = [
+    "<%= config.bin %> token create --project my-app --read-only",
+    "<%= config.bin %> token create --project my-app --name release-bot",
+    "<%= config.bin %> token create --project my-app --convert",
+  ];
+
+  static override flags = {
+    project: Flags.string({
+      char: "p",
+      description: "Project the token gives access to",
+      required: true,
+    }),
+    name: Flags.string({
+      description: "Name shown in 'pss token list'",
+      default: "ci",
+    }),
+    "read-only": Flags.boolean({
+      description: "Only allow pull and run (reader role) instead of push too (writer role)",
+      default: false,
+    }),
+    convert: Flags.boolean({
+      description:
+        "Move a personal project to shared storage without asking (can't be undone; tokens need it)",
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(TokenCreate);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    if (auth.recovery) {
+      this.error("Log in with 'pss login' before creating service tokens.");
+    }
+
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+    const spinner = ora(`Opening ${flags.project}...`).start();
+
+    try {
+      const owner = await ensureIdentity(storage, auth.userId, auth.email, masterKey);
+
+      let opened = await openProject(storage, auth.userId, masterKey, flags.project);
+      if (opened.keyRing.currentVersion === undefined) {
+        spinner.fail(`Project "${flags.project}" has nothing pushed yet`);
+        return;
+      }
+      if (!opened.project.shared) {
+        spinner.stop();
+        if (!(await this.confirmConvert(flags.project, flags.convert))) {
+          this.log("No token created.");
+          return;
+        }
+        spinner.start("Moving project to shared storage...");
+        opened = await convertToSharedProject(storage, masterKey, opened, owner, auth.email);
+      }
+      if (opened.keyRing.role !== "owner") {
+        spinner.fail(`Only owners of ${flags.project} can create service tokens`);
+        return;
+      }
+
+      spinner.text = "Creating token...";
+      const role = flags["read-only"] ? "reader" : "writer";
+      const { id, token } = await createServiceToken(storage, opened, owner, {
+        name: flags.name,
+        role,
+      });
+      spinner.succeed(`Created ${role} token ${chalk.cyan(id)} for ${chalk.cyan(flags.project)}`);
+
+      this.log("");
+      this.log(token);
+      this.log("");
+      this.log(
+        chalk.yellow("This token is shown only once. Store it as a secret in your pipeline:")
+      );
+      this.log(`  ${SERVICE_TOKEN_ENV}=<token> pss pull`);
+      this.log(chalk.dim(`Revoke it with 'pss token revoke ${id} --project ${flags.project}'.`));
+    } catch (error) {
+      spinner.fail("Token creation failed");
+      this.error((error as Error).message);
+    }
+  }
+
+  /**
+   * Tokens are members of a shared project, and a personal project can't be
+   * moved back once it is shared, so that takes --convert or a yes at the prompt.
+   */
+  private async confirmConvert(project: string, convert: boolean): Promise<boolean> {
+    if (convert) {
+      return true;
+    }
+
+    this.log(
+      `Service tokens need ${chalk.cyan(project)} in shared storage. Moving it re-encrypts every file ` +
+        "and revision for sharing, and can't be undone."
+    );
+    if (!isInteractive()) {
+      this.error("Run again with --convert to move the project.");
+    }
+    const answer = await promptLine("Move it now? (y/N) ");
+    return /^y(es)?$/i.test(answer.trim());
+  }
+}
@@ -0,0 +1,48 @@
+import { Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import { loadGlobalConfig } from "../../lib/config.ts";
+import { requireAuth } from "../../lib/auth.ts";
+import { getEncryptionKey } from "../../lib/master-key.ts";
+import { loadProjectKeys } from "../../lib/project-keys.ts";
+import { resolveProject } from "../../lib/projects.ts";
+import { listServiceTokens } from "../../lib/service-tokens.ts";
+import { createStorageBackend } from "../../lib/storage.ts";
+
+export default class TokenList extends Command {
+  static override description = "List the service tokens of a project";
+
+  static override examples = ["<%= config.bin %> token list --project my-app"];
+
+  static override flags = {
+    project: Flags.string({
+      char: "p",
+      description: "Project name",
+      required: true,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(TokenList);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+    const project = await resolveProject(storage, auth.userId, masterKey, flags.project);
+
+    const loaded = project.shared ? await loadProjectKeys(storage, project.root) : null;
+    const tokens = loaded ? listServiceTokens(loaded.keys) : [];
+    if (tokens.length === 0) {
+      this.log(`No service tokens for ${flags.project}.`);
+      return;
+    }
+
+    for (const token of tokens) {
+      this.log(`  ${chalk.cyan(token.id)}  ${token.name} ${chalk.dim(`(${token.role})`)}`);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Args, Command, Flags } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig } from "../../lib/config.ts";
+import { requireAuth } from "../../lib/auth.ts";
+import { loadIdentity } from "../../lib/identity.ts";
+import { getEncryptionKey } from "../../lib/master-key.ts";
+import { resolveProject } from "../../lib/projects.ts";
+import { revokeServiceToken } from "../../lib/service-tokens.ts";
+import { createStorageBackend } from "../../lib/storage.ts";
+
+export default class TokenRevoke extends Command {
+  static override description = "Revoke a service token";
+
+  static override examples = ["<%= config.bin %> token revoke 3f2a9c1b7d4e8f60 --project my-app"];
+
+  static override args = {
+    id: Args.string({
+      description: "Token ID, from 'pss token list'",
+      required: true,
+    }),
+  };
+
+  static override flags = {
+    project: Flags.string({
+      char: "p",
+      description: "Project name",
+      required: true,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(TokenRevoke);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+    const project = await resolveProject(storage, auth.userId, masterKey, flags.project);
+    if (!project.shared) {
+      this.error(`Project "${flags.project}" has no service tokens.`);
+    }
+
+    const spinner = ora(`Revoking ${args.id}...`).start();
+
+    try {
+      const owner = await loadIdentity(storage, auth.userId, masterKey);
+      if (!(await revokeServiceToken(storage, project, args.id, owner))) {
+        spinner.fail(`${flags.project} has no token ${args.id}`);
+        return;
+      }
+
+      spinner.succeed(`Revoked token ${args.id} of ${chalk.cyan(flags.project)}`);
+      this.log(
+        chalk.dim("The project was re-keyed: the token can't read anything pushed from now on.")
+      );
+    } catch (error) {
+      spinner.fail("Revoke failed");
+      this.error((error as Error).message);
+    }
+  }
+}
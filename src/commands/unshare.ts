@@ -0,0 +1,70 @@
+import { Args, Command } from "@oclif/core";
+import chalk from "chalk";
+import ora from "ora";
+import { loadGlobalConfig } from "../lib/config.ts";
+import { requireAuth } from "../lib/auth.ts";
+import { getEncryptionKey } from "../lib/master-key.ts";
+import { loadIdentity } from "../lib/identity.ts";
+import { resolveProject } from "../lib/projects.ts";
+import { removeMember } from "../lib/sharing.ts";
+import { createStorageBackend } from "../lib/storage.ts";
+
+export default class Unshare extends Command {
+  static override description = "Stop sharing a project with a teammate";
+
+  static override examples = ["<%= config.bin %> unshare my-app alice@example.com"];
+
+  static override args = {
+    project: Args.string({
+      description: "Project name",
+      required: true,
+    }),
+    email: Args.string({
+      description: "Email of the member to remove",
+      required: true,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args } = await this.parse(Unshare);
+
+    const globalConfig = await loadGlobalConfig();
+    if (!globalConfig) {
+      this.error("Not configured. Run 'pss config set' first.");
+    }
+
+    const auth = await requireAuth();
+    if (args.email.trim().toLowerCase() === auth.email.toLowerCase()) {
+      this.error("You can't remove yourself from a project.");
+    }
+
+    const storage = createStorageBackend(globalConfig);
+    const masterKey = await getEncryptionKey(auth.userId, storage);
+    const project = await resolveProject(storage, auth.userId, masterKey, args.project);
+    if (!project.shared) {
+      this.error(`Project "${args.project}" isn't shared.`);
+    }
+
+    const spinner = ora(`Removing ${args.email}...`).start();
+
+    try {
+      const owner = await loadIdentity(storage, auth.userId, masterKey);
+      const removed = await removeMember(storage, project, args.email, owner);
+      if (!removed) {
+        spinner.fail(`${args.email} is not a member of ${args.project}`);
+        return;
+      }
+
+      spinner.succeed(`Removed ${args.email} from ${chalk.cyan(args.project)}`);
+      this.log(
+        chalk.dim(
+          "The project was re-keyed: new pushes use a key they never had. " +
+            "Anything they pulled before stays on their machine."
+        )
+      );
+    } catch (error) {
+      spinner.fail("Unshare failed");
+      this.error((error as Error).message);
+    }
+  }
+}
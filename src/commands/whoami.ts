@@ -0,0 +1,108 @@
+import { Command } from "@oclif/core";
+import chalk from "chalk";
+import { createAuthProvider } from "../lib/auth-providers.ts";
+import { loadAuthData, loadGlobalConfig } from "../lib/config.ts";
+import { getAgentStatus } from "../lib/key-agent.ts";
+import { getKeyMode, loadLocalMasterKey, loadUserIndex } from "../lib/master-key.ts";
+import { getServiceToken } from "../lib/service-tokens.ts";
+import { createStorageBackend, getStorageLocation } from "../lib/storage.ts";
+import type { AuthData, GlobalConfig } from "../types/index.ts";
+
+export default class Whoami extends Command {
+  static override description =
+    "Show who you are logged in as, with which provider, and the state of your keys";
+
+  static override examples = ["<%= config.bin %> whoami"];
+
+  public async run(): Promise<void> {
+    await this.parse(Whoami);
+
+    const config = await loadGlobalConfig();
+    const auth = await loadAuthData();
+
+    let token;
+    try {
+      token = await getServiceToken();
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+    if (token) {
+      this.log(
+        `Service token ${chalk.cyan(token.id)} for project ${chalk.cyan(token.projectName)}`
+      );
+      this.log(chalk.dim("  Project commands run as the token, not as a logged-in user."));
+      this.log("");
+    }
+
+    if (!auth) {
+      this.log("Not logged in.");
+      return;
+    }
+
+    this.log(`Logged in as ${chalk.cyan(auth.email)}`);
+    this.log(`  User ID:  ${auth.userId}`);
+    if (auth.recovery) {
+      this.log("  Provider: none (restored from a recovery kit)");
+    } else {
+      this.log(`  Provider: ${getProviderName(config, auth)}`);
+      this.log(`  Token:    ${describeExpiry(auth)}`);
+    }
+
+    if (!config) {
+      this.log("  Storage:  not configured");
+      return;
+    }
+    this.log(`  Storage:  ${getStorageLocation(config)}`);
+    this.log(`  Key:      ${await describeKey(config, auth.userId)}`);
+  }
+}
+
+function getProviderName(config: GlobalConfig | null, auth: AuthData): string {
+  const type = auth.provider ?? "google";
+  try {
+    return createAuthProvider(config, type).name;
+  } catch {
+    return type;
+  }
+}
+
+function describeExpiry(auth: AuthData): string {
+  if (auth.expiresAt === Number.MAX_SAFE_INTEGER) {
+    return "does not expire";
+  }
+  const expiresAt = new Date(auth.expiresAt).toLocaleString();
+  if (auth.expiresAt > Date.now()) {
+    return `expires ${expiresAt}`;
+  }
+  return auth.refreshToken
+    ? `expired ${expiresAt}; refreshed on next use`
+    : `expired ${expiresAt}; run 'pss login'`;
+}
+
+async function describeKey(config: GlobalConfig, userId: string): Promise<string> {
+  let index;
+  try {
+    index = (await loadUserIndex(createStorageBackend(config), userId))?.index ?? null;
+  } catch (error) {
+    return `unknown (${(error as Error).message})`;
+  }
+
+  const mode = getKeyMode(index);
+  const details: string[] = [];
+  if (mode === "legacy") {
+    details.push("derived from your user ID; run 'pss key setup'");
+  }
+  if (index?.migration) {
+    details.push("migration in progress");
+  }
+  if (await loadLocalMasterKey(userId)) {
+    details.push("saved on this machine");
+  }
+
+  const held = (await getAgentStatus().catch(() => null))?.find((entry) => entry.userId === userId);
+  if (held) {
+    details.push(`unlocked in the agent until ${new Date(held.expiresAt).toLocaleTimeString()}`);
+  }
+
+  return details.length > 0 ? `${mode} (${details.join(", ")})` : mode;
+}
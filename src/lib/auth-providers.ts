@@ -0,0 +1,282 @@
+import { createHash } from "node:crypto";
+import type { AuthProviderType, GlobalConfig } from "../types/index.ts";
+
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const GOOGLE_USERINFO_URL = "https://openidconnect.googleapis.com/v1/userinfo";
+const GOOGLE_DEVICE_CODE_URL = "https://oauth2.googleapis.com/device/code";
+const GOOGLE_REVOCATION_URL = "https://oauth2.googleapis.com/revoke";
+
+const GITHUB_AUTH_URL = "https://github.com/login/oauth/authorize";
+const GITHUB_TOKEN_URL = "https://github.com/login/oauth/access_token";
+const GITHUB_DEVICE_CODE_URL = "https://github.com/login/device/code";
+const GITHUB_API_URL = "https://api.github.com";
+
+/**
+ * Where and how to ask a provider for an authorization.
+ */
+export interface AuthorizationServer {
+  authUrl: string;
+  tokenUrl: string;
+  /** Absent when the provider doesn't support the device authorization grant */
+  deviceCodeUrl?: string;
+  /** Token revocation endpoint (RFC 7009), if the provider has one */
+  revocationUrl?: string;
+  scope: string;
+  /** Extra query parameters for the authorization URL */
+  authParams?: Record<string, string>;
+}
+
+/**
+ * The signed-in user. `userId` names the user's storage namespace, so it is
+ * prefixed per provider to keep IDs from different providers apart.
+ */
+export interface ProviderUser {
+  userId: string;
+  email: string;
+}
+
+/**
+ * An OAuth identity provider `pss login` can use.
+ */
+export interface AuthProvider {
+  readonly type: AuthProviderType;
+  /** Display name, e.g. "Google" or the OIDC issuer host */
+  readonly name: string;
+  readonly clientId: string;
+  readonly clientSecret?: string;
+  getAuthorizationServer(): Promise<AuthorizationServer>;
+  getUser(accessToken: string): Promise<ProviderUser>;
+  /** Revoke a token, for providers that do it without an RFC 7009 endpoint */
+  revokeToken?(token: string): Promise<void>;
+}
+
+async function fetchJson<T>(url: string, accessToken?: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/json",
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: HTTP ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Google. User IDs are Google's numeric subject IDs without a prefix, as they
+ * were before other providers existed; older stores and derived keys use them.
+ */
+export class GoogleProvider implements AuthProvider {
+  readonly type = "google";
+  readonly name = "Google";
+
+  constructor(
+    readonly clientId: string,
+    readonly clientSecret: string
+  ) {}
+
+  async getAuthorizationServer(): Promise<AuthorizationServer> {
+    return {
+      authUrl: GOOGLE_AUTH_URL,
+      tokenUrl: GOOGLE_TOKEN_URL,
+      deviceCodeUrl: GOOGLE_DEVICE_CODE_URL,
+      revocationUrl: GOOGLE_REVOCATION_URL,
+      scope: "openid email profile",
+      authParams: { access_type: "offline", prompt: "consent" },
+    };
+  }
+
+  async getUser(accessToken: string): Promise<ProviderUser> {
+    const info = await fetchJson<{ sub: string; email: string }>(GOOGLE_USERINFO_URL, accessToken);
+    return { userId: info.sub, email: info.email };
+  }
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  device_authorization_endpoint?: string;
+  revocation_endpoint?: string;
+  scopes_supported?: string[];
+}
+
+/**
+ * Any OpenID Connect provider (Okta, Auth0, Keycloak, Entra ID...), with
+ * endpoints found through `.well-known/openid-configuration`.
+ */
+export class OidcProvider implements AuthProvider {
+  readonly type = "oidc";
+  readonly issuer: string;
+  private discovery?: Promise<OidcDiscovery>;
+
+  constructor(
+    issuer: string,
+    readonly clientId: string,
+    readonly clientSecret?: string
+  ) {
+    this.issuer = issuer.replace(/\/+$/, "");
+  }
+
+  get name(): string {
+    return new URL(this.issuer).host;
+  }
+
+  async getAuthorizationServer(): Promise<AuthorizationServer> {
+    const discovery = await this.discover();
+    const scopes = ["openid", "email", "profile"];
+    if (discovery.scopes_supported?.includes("offline_access")) {
+      scopes.push("offline_access");
+    }
+
+    return {
+      authUrl: discovery.authorization_endpoint,
+      tokenUrl: discovery.token_endpoint,
+      deviceCodeUrl: discovery.device_authorization_endpoint,
+      revocationUrl: discovery.revocation_endpoint,
+      scope: scopes.join(" "),
+    };
+  }
+
+  async getUser(accessToken: string): Promise<ProviderUser> {
+    const discovery = await this.discover();
+    if (!discovery.userinfo_endpoint) {
+      throw new Error(`${this.name} has no userinfo endpoint`);
+    }
+
+    const info = await fetchJson<{ sub: string; email?: string; email_verified?: boolean }>(
+      discovery.userinfo_endpoint,
+      accessToken
+    );
+    if (!info.email || info.email_verified === false) {
+      throw new Error(`${this.name} didn't return a verified email address`);
+    }
+    return { userId: getOidcUserId(this.issuer, info.sub), email: info.email };
+  }
+
+  private discover(): Promise<OidcDiscovery> {
+    this.discovery ??= fetchJson<OidcDiscovery>(
+      `${this.issuer}/.well-known/openid-configuration`
+    ).then((discovery) => {
+      // The document must describe the issuer we asked about (OpenID Connect Discovery 4.3)
+      if (discovery.issuer.replace(/\/+$/, "") !== this.issuer) {
+        throw new Error(`Discovery document is for ${discovery.issuer}, not ${this.issuer}`);
+      }
+      return discovery;
+    });
+    return this.discovery;
+  }
+}
+
+/**
+ * Subjects are only unique per issuer and may contain characters that don't
+ * belong in storage keys, so the ID is a hash of both.
+ */
+export function getOidcUserId(issuer: string, subject: string): string {
+  const hash = createHash("sha256").update(`${issuer}\n${subject}`).digest("hex");
+  return `oidc-${hash.slice(0, 32)}`;
+}
+
+/**
+ * GitHub, with an OAuth app. User IDs are `github-<numeric account ID>`.
+ */
+export class GitHubProvider implements AuthProvider {
+  readonly type = "github";
+  readonly name = "GitHub";
+
+  constructor(
+    readonly clientId: string,
+    readonly clientSecret?: string
+  ) {}
+
+  async getAuthorizationServer(): Promise<AuthorizationServer> {
+    return {
+      authUrl: GITHUB_AUTH_URL,
+      tokenUrl: GITHUB_TOKEN_URL,
+      deviceCodeUrl: GITHUB_DEVICE_CODE_URL,
+      scope: "read:user user:email",
+    };
+  }
+
+  async getUser(accessToken: string): Promise<ProviderUser> {
+    const user = await fetchJson<{ id: number }>(`${GITHUB_API_URL}/user`, accessToken);
+    // The profile email is optional and unverified, so use the primary verified address
+    const emails = await fetchJson<Array<{ email: string; primary: boolean; verified: boolean }>>(
+      `${GITHUB_API_URL}/user/emails`,
+      accessToken
+    );
+    const primary = emails.find((entry) => entry.primary && entry.verified);
+    if (!primary) {
+      throw new Error("Your GitHub account has no verified primary email address");
+    }
+    return { userId: `github-${user.id}`, email: primary.email };
+  }
+
+  /**
+   * GitHub has no RFC 7009 endpoint; an OAuth app revokes a token through the
+   * REST API instead, authenticated with its client secret. Only this token is
+   * revoked: deleting the grant would log out every other machine too.
+   */
+  async revokeToken(token: string): Promise<void> {
+    if (!this.clientSecret) {
+      throw new Error("Revoking GitHub tokens needs the OAuth app's github.clientSecret");
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
+    const response = await fetch(`${GITHUB_API_URL}/applications/${this.clientId}/token`, {
+      method: "DELETE",
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ access_token: token }),
+    });
+    // 404: the token was already revoked
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to revoke GitHub token: HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * The provider to log in with: the one given, else `auth.provider` from the
+ * config, else Google.
+ */
+export function createAuthProvider(
+  config: GlobalConfig | null,
+  type: AuthProviderType = config?.auth?.provider ?? "google"
+): AuthProvider {
+  switch (type) {
+    case "google":
+      if (!config?.google?.clientId) {
+        throw new Error(
+          "Google OAuth client ID not configured.\nRun: pss config set google.clientId YOUR_CLIENT_ID"
+        );
+      }
+      if (!config.google.clientSecret) {
+        throw new Error(
+          "Google OAuth client secret not configured.\nRun: pss config set google.clientSecret YOUR_CLIENT_SECRET"
+        );
+      }
+      return new GoogleProvider(config.google.clientId, config.google.clientSecret);
+    case "oidc":
+      if (!config?.oidc?.issuer || !config.oidc.clientId) {
+        throw new Error(
+          "OIDC provider not configured.\nRun: pss config set oidc.issuer https://YOUR_ISSUER\n" +
+            "     pss config set oidc.clientId YOUR_CLIENT_ID"
+        );
+      }
+      return new OidcProvider(config.oidc.issuer, config.oidc.clientId, config.oidc.clientSecret);
+    case "github":
+      if (!config?.github?.clientId) {
+        throw new Error(
+          "GitHub OAuth app not configured.\nRun: pss config set github.clientId YOUR_CLIENT_ID"
+        );
+      }
+      return new GitHubProvider(config.github.clientId, config.github.clientSecret);
+  }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { parseRedirectUrl, pollForDeviceToken, requestDeviceCode, revokeToken } from "./auth.ts";
+import type { DeviceAuthorization } from "./auth.ts";
+import { OidcProvider, getOidcUserId } from "./auth-providers.ts";
+
+const noWait = async () => {};
+const client = { clientId: "client", clientSecret: "secret" };
+
+describe("device authorization", () => {
+  let server: Server;
+  let baseUrl: string;
+  let tokenReplies: Array<{ status: number; body: object }>;
+  let requests: URLSearchParams[];
+
+  beforeEach(async () => {
+    tokenReplies = [];
+    requests = [];
+
+    // Stand-in for the provider's device and token endpoints
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        requests.push(new URLSearchParams(body));
+        const reply =
+          req.url === "/device"
+            ? {
+                status: 200,
+                body: {
+                  device_code: "device-123",
+                  user_code: "ABCD-EFGH",
+                  verification_url: "https://example.com/device",
+                  expires_in: 600,
+                },
+              }
+            : (tokenReplies.shift() ?? { status: 400, body: { error: "expired_token" } });
+        res.writeHead(reply.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const device: DeviceAuthorization = {
+    deviceCode: "device-123",
+    userCode: "ABCD-EFGH",
+    verificationUrl: "https://example.com/device",
+    expiresIn: 600,
+    interval: 5,
+  };
+
+  it("should request a user code", async () => {
+    const result = await requestDeviceCode(`${baseUrl}/device`, "client", "openid email");
+
+    expect(result).toEqual(device);
+    expect(requests[0]?.get("client_id")).toBe("client");
+    expect(requests[0]?.get("scope")).toBe("openid email");
+  });
+
+  it("should poll until the user approves, slowing down when asked", async () => {
+    tokenReplies.push(
+      { status: 428, body: { error: "authorization_pending" } },
+      { status: 400, body: { error: "slow_down" } },
+      { status: 200, body: { access_token: "at", refresh_token: "rt", expires_in: 3600 } }
+    );
+    const waits: number[] = [];
+
+    const tokens = await pollForDeviceToken(`${baseUrl}/token`, client, device, async (ms) => {
+      waits.push(ms);
+    });
+
+    expect(tokens.access_token).toBe("at");
+    expect(waits).toEqual([5000, 5000, 10000]);
+    expect(requests.map((request) => request.get("device_code"))).toEqual([
+      "device-123",
+      "device-123",
+      "device-123",
+    ]);
+    expect(requests[0]?.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:device_code");
+  });
+
+  it("should stop when the user denies access or the code expires", async () => {
+    tokenReplies.push({ status: 400, body: { error: "access_denied" } });
+    const tokenUrl = `${baseUrl}/token`;
+
+    await expect(pollForDeviceToken(tokenUrl, client, device, noWait)).rejects.toThrow("denied");
+    await expect(pollForDeviceToken(tokenUrl, client, device, noWait)).rejects.toThrow("expired");
+  });
+
+  it("should read errors sent with HTTP 200, as GitHub does", async () => {
+    tokenReplies.push(
+      { status: 200, body: { error: "authorization_pending" } },
+      { status: 200, body: { access_token: "gho_token", token_type: "bearer" } }
+    );
+
+    const tokens = await pollForDeviceToken(`${baseUrl}/token`, client, device, noWait);
+
+    expect(tokens.access_token).toBe("gho_token");
+    expect(tokens.refresh_token).toBeUndefined();
+  });
+});
+
+describe("revokeToken", () => {
+  let server: Server;
+  let revocationUrl: string;
+  let reply: { status: number; body: object };
+  let requests: URLSearchParams[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        requests.push(new URLSearchParams(body));
+        res.writeHead(reply.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    revocationUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/revoke`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should send the token with a type hint and the client credentials", async () => {
+    reply = { status: 200, body: {} };
+
+    await revokeToken(revocationUrl, client, "rt", "refresh_token");
+
+    expect(Object.fromEntries(requests[0]!)).toEqual({
+      token: "rt",
+      token_type_hint: "refresh_token",
+      client_id: "client",
+      client_secret: "secret",
+    });
+  });
+
+  it("should treat an already revoked token as revoked, and fail on other errors", async () => {
+    reply = { status: 400, body: { error: "invalid_token" } };
+    await expect(revokeToken(revocationUrl, client, "at", "access_token")).resolves.toBeUndefined();
+
+    reply = { status: 400, body: { error: "invalid_client", error_description: "Bad client" } };
+    await expect(revokeToken(revocationUrl, client, "at", "access_token")).rejects.toThrow(
+      "Failed to revoke token: Bad client"
+    );
+  });
+});
+
+describe("parseRedirectUrl", () => {
+  it("should return the code when the state matches", () => {
+    expect(parseRedirectUrl(" http://127.0.0.1:8085/callback?code=abc&state=xyz ", "xyz")).toBe(
+      "abc"
+    );
+  });
+
+  it("should reject a mismatched state, an error or a missing code", () => {
+    expect(() => parseRedirectUrl("http://127.0.0.1/callback?code=abc&state=other", "xyz")).toThrow(
+      "Invalid state"
+    );
+    expect(() => parseRedirectUrl("http://127.0.0.1/callback?error=access_denied", "xyz")).toThrow(
+      "access_denied"
+    );
+    expect(() => parseRedirectUrl("http://127.0.0.1/callback?state=xyz", "xyz")).toThrow(
+      "No authorization code"
+    );
+    expect(() => parseRedirectUrl("not a url", "xyz")).toThrow("doesn't look like a URL");
+  });
+});
+
+describe("OidcProvider", () => {
+  let server: Server;
+  let issuer: string;
+  let discovery: Record<string, unknown>;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      if (req.url === "/.well-known/openid-configuration") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(discovery));
+      } else if (req.url === "/userinfo") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({ sub: "auth0|42", email: "dev@example.com", email_verified: true })
+        );
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    discovery = {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      scopes_supported: ["openid", "email", "profile", "offline_access"],
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should find its endpoints through discovery", async () => {
+    const provider = new OidcProvider(`${issuer}/`, "client");
+
+    const found = await provider.getAuthorizationServer();
+
+    expect(found.tokenUrl).toBe(`${issuer}/token`);
+    expect(found.deviceCodeUrl).toBeUndefined();
+    expect(found.scope).toBe("openid email profile offline_access");
+  });
+
+  it("should reject a discovery document for another issuer", async () => {
+    discovery.issuer = "https://evil.example.com";
+
+    await expect(new OidcProvider(issuer, "client").getAuthorizationServer()).rejects.toThrow(
+      "Discovery document is for https://evil.example.com"
+    );
+  });
+
+  it("should namespace user IDs by issuer", async () => {
+    const user = await new OidcProvider(issuer, "client").getUser("token");
+
+    expect(user).toEqual({ userId: getOidcUserId(issuer, "auth0|42"), email: "dev@example.com" });
+    expect(user.userId).toMatch(/^oidc-[0-9a-f]{32}$/);
+    expect(getOidcUserId("https://other.example.com", "auth0|42")).not.toBe(user.userId);
+  });
+});
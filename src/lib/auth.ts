@@ -1,49 +1,79 @@
+import { createAuthProvider } from "./auth-providers.ts";
+import type { AuthProvider, AuthorizationServer } from "./auth-providers.ts";
 import { loadGlobalConfig, loadAuthData, saveAuthData, clearAuthData } from "./config.ts";
-import type { AuthData } from "../types/index.ts";
+import { promptLine } from "./prompt.ts";
+import type { AuthData, AuthProviderType } from "../types/index.ts";
 import { createServer } from "node:http";
 import type { Socket } from "node:net";
 import { URL } from "node:url";
 import { spawn } from "node:child_process";
 
-const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
-const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
-const GOOGLE_USERINFO_URL = "https://openidconnect.googleapis.com/v1/userinfo";
+const DEVICE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
 
 const REDIRECT_PORT = 8085;
 const REDIRECT_URI = `http://127.0.0.1:${REDIRECT_PORT}/callback`;
 
-interface TokenResponse {
+/**
+ * How `pss login` gets an authorization:
+ * - browser: open a browser and receive the redirect on a local port
+ * - paste: print the URL and read the redirect URL pasted back (no local browser)
+ * - device: show a code to enter on another device (OAuth device authorization grant)
+ */
+export type LoginMode = "browser" | "paste" | "device";
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUrl: string;
+  /** Seconds until the codes expire */
+  expiresIn: number;
+  /** Seconds to wait between token requests */
+  interval: number;
+}
+
+export interface TokenResponse {
   access_token: string;
-  refresh_token: string;
-  expires_in: number;
+  /** Not issued by providers whose tokens don't expire (GitHub OAuth apps) */
+  refresh_token?: string;
+  expires_in?: number;
   token_type: string;
   id_token?: string;
 }
 
-interface UserInfo {
-  sub: string;
-  email: string;
-  name?: string;
+/**
+ * An error response from a token endpoint; `code` is the OAuth error code.
+ */
+export class OAuthError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "OAuthError";
+  }
 }
 
-export async function getGoogleCredentials(): Promise<{ clientId: string; clientSecret: string }> {
-  const config = await loadGlobalConfig();
-  if (!config?.google?.clientId) {
-    throw new Error(
-      "Google OAuth client ID not configured.\nRun: pss config set google.clientId YOUR_CLIENT_ID"
-    );
-  }
-  if (!config.google.clientSecret) {
-    throw new Error(
-      "Google OAuth client secret not configured.\nRun: pss config set google.clientSecret YOUR_CLIENT_SECRET"
-    );
-  }
+type ClientCredentials = Pick<AuthProvider, "clientId" | "clientSecret">;
+
+/**
+ * The provider's authorization server. The token, device and revocation
+ * endpoints can be pointed at a local stand-in with PSS_OAUTH_TOKEN_URL,
+ * PSS_OAUTH_DEVICE_CODE_URL and PSS_OAUTH_REVOCATION_URL.
+ */
+async function getAuthorizationServer(provider: AuthProvider): Promise<AuthorizationServer> {
+  const server = await provider.getAuthorizationServer();
   return {
-    clientId: config.google.clientId,
-    clientSecret: config.google.clientSecret,
+    ...server,
+    tokenUrl: process.env.PSS_OAUTH_TOKEN_URL || server.tokenUrl,
+    deviceCodeUrl: process.env.PSS_OAUTH_DEVICE_CODE_URL || server.deviceCodeUrl,
+    revocationUrl: process.env.PSS_OAUTH_REVOCATION_URL || server.revocationUrl,
   };
 }
 
+async function getProvider(type?: AuthProviderType): Promise<AuthProvider> {
+  return createAuthProvider(await loadGlobalConfig(), type);
+}
+
 function generateRandomString(length: number): string {
   const array = new Uint8Array(length);
   crypto.getRandomValues(array);
@@ -74,20 +104,24 @@ async function generatePkce(): Promise<{ verifier: string; challenge: string }>
   return { verifier, challenge };
 }
 
-function buildAuthUrl(clientId: string, state: string, codeChallenge: string): string {
+function buildAuthUrl(
+  server: AuthorizationServer,
+  clientId: string,
+  state: string,
+  codeChallenge: string
+): string {
   const params = new URLSearchParams({
     client_id: clientId,
     redirect_uri: REDIRECT_URI,
     response_type: "code",
-    scope: "openid email profile",
+    scope: server.scope,
     state,
-    access_type: "offline",
-    prompt: "consent",
+    ...server.authParams,
     code_challenge: codeChallenge,
     code_challenge_method: "S256",
   });
 
-  return `${GOOGLE_AUTH_URL}?${params.toString()}`;
+  return `${server.authUrl}?${params.toString()}`;
 }
 
 function openBrowser(url: string): void {
@@ -210,115 +244,380 @@ async function waitForAuthCode(expectedState: string): Promise<string> {
   });
 }
 
+/**
+ * POST to a token endpoint. Some providers (GitHub) answer errors with
+ * HTTP 200, so the body is checked for an error code too.
+ */
+async function requestToken(
+  tokenUrl: string,
+  credentials: ClientCredentials,
+  params: Record<string, string>,
+  failure: string
+): Promise<TokenResponse> {
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      client_id: credentials.clientId,
+      ...(credentials.clientSecret && { client_secret: credentials.clientSecret }),
+      ...params,
+    }),
+  });
+
+  const text = await response.text();
+  let body: Partial<TokenResponse> & { error?: string; error_description?: string };
+  try {
+    body = JSON.parse(text) as typeof body;
+  } catch {
+    body = {};
+  }
+
+  if (!response.ok || body.error || !body.access_token) {
+    const code = body.error ?? `HTTP ${response.status}`;
+    throw new OAuthError(code, `${failure}: ${body.error_description ?? body.error ?? text}`);
+  }
+  return body as TokenResponse;
+}
+
 async function exchangeCodeForTokens(
-  clientId: string,
-  clientSecret: string,
+  tokenUrl: string,
+  credentials: ClientCredentials,
   code: string,
   codeVerifier: string
 ): Promise<TokenResponse> {
-  const response = await fetch(GOOGLE_TOKEN_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
+  return requestToken(
+    tokenUrl,
+    credentials,
+    {
       code,
       grant_type: "authorization_code",
       redirect_uri: REDIRECT_URI,
       code_verifier: codeVerifier,
+    },
+    "Failed to exchange code for tokens"
+  );
+}
+
+export async function refreshAccessToken(
+  tokenUrl: string,
+  credentials: ClientCredentials,
+  refreshToken: string
+): Promise<TokenResponse> {
+  return requestToken(
+    tokenUrl,
+    credentials,
+    { refresh_token: refreshToken, grant_type: "refresh_token" },
+    "Failed to refresh token"
+  );
+}
+
+/**
+ * Revoke a token at an RFC 7009 endpoint. A token the provider no longer
+ * knows counts as revoked.
+ */
+export async function revokeToken(
+  revocationUrl: string,
+  credentials: ClientCredentials,
+  token: string,
+  tokenTypeHint: "access_token" | "refresh_token"
+): Promise<void> {
+  const response = await fetch(revocationUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      client_id: credentials.clientId,
+      ...(credentials.clientSecret && { client_secret: credentials.clientSecret }),
     }),
   });
+  if (response.ok) {
+    return;
+  }
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to exchange code for tokens: ${error}`);
+  const text = await response.text();
+  let body: { error?: string; error_description?: string };
+  try {
+    body = JSON.parse(text) as typeof body;
+  } catch {
+    body = {};
   }
+  // Google answers 400 invalid_token for tokens that were already revoked
+  if (body.error === "invalid_token") {
+    return;
+  }
+  throw new OAuthError(
+    body.error ?? `HTTP ${response.status}`,
+    `Failed to revoke token: ${body.error_description ?? body.error ?? text}`
+  );
+}
 
-  return (await response.json()) as TokenResponse;
+/**
+ * Read the authorization code from a redirect URL the user pasted back after
+ * approving access in a browser on another machine.
+ */
+export function parseRedirectUrl(pasted: string, expectedState: string): string {
+  let url: URL;
+  try {
+    url = new URL(pasted.trim());
+  } catch {
+    throw new Error("That doesn't look like a URL. Paste the full address from the browser.");
+  }
+
+  const error = url.searchParams.get("error");
+  if (error) {
+    throw new Error(`Authorization failed: ${error}`);
+  }
+  if (url.searchParams.get("state") !== expectedState) {
+    throw new Error("Invalid state parameter");
+  }
+
+  const code = url.searchParams.get("code");
+  if (!code) {
+    throw new Error("No authorization code in the pasted URL");
+  }
+  return code;
 }
 
-export async function refreshAccessToken(
+export async function requestDeviceCode(
+  deviceCodeUrl: string,
   clientId: string,
-  clientSecret: string,
-  refreshToken: string
-): Promise<TokenResponse> {
-  const response = await fetch(GOOGLE_TOKEN_URL, {
+  scope: string
+): Promise<DeviceAuthorization> {
+  const response = await fetch(deviceCodeUrl, {
     method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    }),
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({ client_id: clientId, scope }),
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to refresh token: ${error}`);
+    throw new Error(`Failed to start device authorization: ${error}`);
   }
 
-  return (await response.json()) as TokenResponse;
+  const body = (await response.json()) as {
+    device_code: string;
+    user_code: string;
+    verification_url?: string;
+    verification_uri?: string;
+    expires_in: number;
+    interval?: number;
+  };
+
+  return {
+    deviceCode: body.device_code,
+    userCode: body.user_code,
+    // Google calls it verification_url; RFC 8628 calls it verification_uri
+    verificationUrl: (body.verification_uri ?? body.verification_url)!,
+    expiresIn: body.expires_in,
+    interval: body.interval ?? 5,
+  };
 }
 
-export async function getUserInfo(accessToken: string): Promise<UserInfo> {
-  const response = await fetch(GOOGLE_USERINFO_URL, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+/**
+ * Poll the token endpoint until the user approves the device code, backing
+ * off when the server asks to slow down.
+ */
+export async function pollForDeviceToken(
+  tokenUrl: string,
+  credentials: ClientCredentials,
+  device: DeviceAuthorization,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+): Promise<TokenResponse> {
+  const deadline = Date.now() + device.expiresIn * 1000;
+  let interval = device.interval;
 
-  if (!response.ok) {
-    throw new Error("Failed to get user info");
+  while (Date.now() < deadline) {
+    await sleep(interval * 1000);
+
+    try {
+      return await requestToken(
+        tokenUrl,
+        credentials,
+        { device_code: device.deviceCode, grant_type: DEVICE_GRANT_TYPE },
+        "Device authorization failed"
+      );
+    } catch (error) {
+      if (!(error instanceof OAuthError)) {
+        throw error;
+      }
+      switch (error.code) {
+        case "authorization_pending":
+          continue;
+        case "slow_down":
+          interval += 5;
+          continue;
+        case "access_denied":
+          throw new Error("Authorization was denied");
+        case "expired_token":
+          throw new Error("The code expired before it was entered. Please try again.");
+        default:
+          throw error;
+      }
+    }
   }
 
-  return (await response.json()) as UserInfo;
+  throw new Error("The code expired before it was entered. Please try again.");
 }
 
-export async function login(): Promise<AuthData> {
-  const { clientId, clientSecret } = await getGoogleCredentials();
+async function authorizeInBrowser(
+  provider: AuthProvider,
+  server: AuthorizationServer,
+  openLocally: boolean
+): Promise<TokenResponse> {
   const state = generateRandomString(32);
   const pkce = await generatePkce();
-  const authUrl = buildAuthUrl(clientId, state, pkce.challenge);
+  const authUrl = buildAuthUrl(server, provider.clientId, state, pkce.challenge);
 
-  console.log("\nOpening browser for authentication...");
-  console.log("If the browser doesn't open, visit this URL:\n");
-  console.log(`  ${authUrl}\n`);
+  let code: string;
+  if (openLocally) {
+    console.log(`\nOpening browser for ${provider.name} authentication...`);
+    console.log("If the browser doesn't open, visit this URL:\n");
+    console.log(`  ${authUrl}\n`);
 
-  openBrowser(authUrl);
+    openBrowser(authUrl);
+
+    console.log("Waiting for authorization...\n");
+    code = await waitForAuthCode(state);
+  } else {
+    console.log("\nOpen this URL in a browser on any machine:\n");
+    console.log(`  ${authUrl}\n`);
+    console.log("After approving, the browser is sent to a 127.0.0.1 address that won't load.");
+    console.log("Copy that address from the browser's address bar and paste it here.\n");
+
+    code = parseRedirectUrl(await promptLine("Redirect URL: "), state);
+  }
+
+  return exchangeCodeForTokens(server.tokenUrl, provider, code, pkce.verifier);
+}
 
+async function authorizeWithDevice(
+  provider: AuthProvider,
+  server: AuthorizationServer
+): Promise<TokenResponse> {
+  if (!server.deviceCodeUrl) {
+    throw new Error(`${provider.name} doesn't support device authorization. Use --no-browser.`);
+  }
+  const device = await requestDeviceCode(server.deviceCodeUrl, provider.clientId, server.scope);
+
+  console.log("\nOn any device, open:\n");
+  console.log(`  ${device.verificationUrl}\n`);
+  console.log(`and enter the code:  ${device.userCode}\n`);
   console.log("Waiting for authorization...\n");
 
-  const code = await waitForAuthCode(state);
-  const tokens = await exchangeCodeForTokens(clientId, clientSecret, code, pkce.verifier);
-  const userInfo = await getUserInfo(tokens.access_token);
+  return pollForDeviceToken(server.tokenUrl, provider, device);
+}
+
+/**
+ * Tokens without an expiry (GitHub OAuth apps) are treated as valid until revoked.
+ */
+function getExpiresAt(tokens: TokenResponse): number {
+  return tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : Number.MAX_SAFE_INTEGER;
+}
+
+export async function login(
+  mode: LoginMode = "browser",
+  providerType?: AuthProviderType
+): Promise<AuthData> {
+  const provider = await getProvider(providerType);
+  const server = await getAuthorizationServer(provider);
+  const tokens =
+    mode === "device"
+      ? await authorizeWithDevice(provider, server)
+      : await authorizeInBrowser(provider, server, mode === "browser");
+  const user = await provider.getUser(tokens.access_token);
 
   const authData: AuthData = {
+    provider: provider.type,
     accessToken: tokens.access_token,
-    refreshToken: tokens.refresh_token,
-    expiresAt: Date.now() + tokens.expires_in * 1000,
-    userId: userInfo.sub,
-    email: userInfo.email,
+    refreshToken: tokens.refresh_token ?? "",
+    expiresAt: getExpiresAt(tokens),
+    userId: user.userId,
+    email: user.email,
   };
 
   await saveAuthData(authData);
   return authData;
 }
 
-export async function logout(): Promise<void> {
+export interface LogoutResult {
+  /** Name of the provider that revoked the tokens, if they were revoked */
+  revokedWith?: string;
+  /** Why revoking failed; the login is removed from this machine either way */
+  revokeError?: string;
+}
+
+/**
+ * Revoke the login's tokens, refresh token first since that also ends the
+ * access tokens issued with it at most providers.
+ */
+async function revokeTokens(provider: AuthProvider, auth: AuthData): Promise<void> {
+  const tokens = [
+    { token: auth.refreshToken, hint: "refresh_token" as const },
+    { token: auth.accessToken, hint: "access_token" as const },
+  ].filter((entry) => entry.token);
+
+  if (provider.revokeToken) {
+    for (const { token } of tokens) {
+      await provider.revokeToken(token);
+    }
+    return;
+  }
+
+  const server = await getAuthorizationServer(provider);
+  if (!server.revocationUrl) {
+    throw new Error(`${provider.name} doesn't offer token revocation`);
+  }
+  for (const { token, hint } of tokens) {
+    await revokeToken(server.revocationUrl, provider, token, hint);
+  }
+}
+
+/**
+ * Log out: revoke the tokens with the provider (unless `revoke` is false)
+ * and remove the stored login.
+ */
+export async function logout(options: { revoke?: boolean } = {}): Promise<LogoutResult> {
+  const auth = await loadAuthData();
+  const result: LogoutResult = {};
+
+  if (auth && !auth.recovery && options.revoke !== false) {
+    try {
+      const provider = await getProvider(auth.provider ?? "google");
+      await revokeTokens(provider, auth);
+      result.revokedWith = provider.name;
+    } catch (error) {
+      result.revokeError = (error as Error).message;
+    }
+  }
+
   await clearAuthData();
+  return result;
 }
 
 export async function getAuthData(): Promise<AuthData | null> {
   const auth = await loadAuthData();
   if (!auth) return null;
+  if (auth.recovery) return auth;
 
   // Refresh if expiring within 1 minute
   if (Date.now() >= auth.expiresAt - 60000) {
     try {
-      const { clientId, clientSecret } = await getGoogleCredentials();
-      const tokens = await refreshAccessToken(clientId, clientSecret, auth.refreshToken);
+      const provider = await getProvider(auth.provider ?? "google");
+      const server = await getAuthorizationServer(provider);
+      const tokens = await refreshAccessToken(server.tokenUrl, provider, auth.refreshToken);
 
       auth.accessToken = tokens.access_token;
-      auth.expiresAt = Date.now() + tokens.expires_in * 1000;
+      auth.expiresAt = getExpiresAt(tokens);
       if (tokens.refresh_token) {
         auth.refreshToken = tokens.refresh_token;
       }
@@ -1,8 +1,10 @@
 import { join } from "node:path";
 import { mkdir, readFile, writeFile, rm } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import { hashFile } from "./crypto.ts";
 import { ensureParentDir } from "./fs-utils.ts";
-import type { BaseSnapshot, BaseFileEntry } from "../types/index.ts";
+import { getManifestFingerprint } from "./manifest.ts";
+import type { BaseSnapshot, BaseFileEntry, ProjectManifest } from "../types/index.ts";
 
 const PSS_DIR = ".pss";
 const BASE_DIR = "base";
@@ -128,7 +130,8 @@ export async function deleteBaseFile(projectDir: string, fileName: string): Prom
 export async function updateBaseSnapshot(
   projectDir: string,
   files: BaseFileEntry[],
-  remoteManifestHash: string
+  remoteManifestHash: string,
+  remoteSequence?: number
 ): Promise<void> {
   await ensurePssDir(projectDir);
 
@@ -147,6 +150,7 @@ export async function updateBaseSnapshot(
     })),
     syncedAt: new Date().toISOString(),
     remoteManifestHash,
+    remoteSequence,
   };
 
   await saveBaseSnapshot(projectDir, snapshot);
@@ -174,6 +178,38 @@ export async function loadAllBaseContents(projectDir: string): Promise<Map<strin
   return contents;
 }
 
+/**
+ * Find local files with unpushed edits: files whose content differs from the
+ * base snapshot, or that have no base entry at all.
+ */
+export function findUnpushedChanges(
+  localFiles: Array<{ name: string; content: string }>,
+  baseContents: Map<string, string>
+): string[] {
+  return localFiles
+    .filter((file) => baseContents.get(file.name) !== file.content)
+    .map((file) => file.name);
+}
+
+/**
+ * Whether the remote manifest has changes this checkout hasn't pulled: it no
+ * longer matches the one the base snapshot was taken from. Snapshots written
+ * before manifest fingerprints hold a hash of the whole manifest instead.
+ */
+export async function hasUnpulledChanges(
+  snapshot: BaseSnapshot | null,
+  manifest: ProjectManifest
+): Promise<boolean> {
+  const baseHash = snapshot?.remoteManifestHash;
+  if (!baseHash) {
+    return false;
+  }
+  return (
+    baseHash !== (await hashFile(getManifestFingerprint(manifest))) &&
+    baseHash !== (await hashFile(JSON.stringify(manifest)))
+  );
+}
+
 /**
  * Clear all base snapshot data (useful for resync or cleanup)
  */
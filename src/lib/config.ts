@@ -1,12 +1,30 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { existsSync } from "node:fs";
-import type { GlobalConfig, AuthData, ProjectConfig } from "../types/index.ts";
-import { DEFAULT_B2_CONFIG } from "../types/index.ts";
+import { readFile, writeFile } from "node:fs/promises";
+import { SecretServiceStore, getCredentialStore, writePrivateFile } from "./credential-store.ts";
+import type { CredentialStore } from "./credential-store.ts";
+import type {
+  GlobalConfig,
+  AuthData,
+  AuthProviderType,
+  CredentialStoreType,
+  ProjectConfig,
+  S3Config,
+  S3Provider,
+  StorageType,
+} from "../types/index.ts";
+import { AUTH_PROVIDERS, DEFAULT_B2_CONFIG, S3_PROVIDER_DEFAULTS } from "../types/index.ts";
 
 const CONFIG_DIR_NAME = "pss";
 
+const DEFAULT_S3_CONFIG: S3Config = {
+  endpoint: "",
+  accessKeyId: "",
+  secretAccessKey: "",
+  bucket: "",
+  region: "",
+};
+
 function getConfigDir(): string {
   const xdgConfig = process.env["XDG_CONFIG_HOME"];
   if (xdgConfig) {
@@ -23,31 +41,96 @@ function getDataDir(): string {
   return join(homedir(), ".local", "share", CONFIG_DIR_NAME);
 }
 
-async function ensureDir(dir: string): Promise<void> {
-  if (!existsSync(dir)) {
-    await mkdir(dir, { recursive: true });
-  }
-}
-
 export const configPaths = {
   configDir: getConfigDir(),
   dataDir: getDataDir(),
   globalConfig: join(getConfigDir(), "config.json"),
   authData: join(getConfigDir(), "auth.json"),
+  credentials: join(getConfigDir(), "credentials.enc.json"),
 };
 
-export async function loadGlobalConfig(): Promise<GlobalConfig | null> {
+/** Secret fields of config.json, by section */
+const CONFIG_SECRETS: Array<[keyof GlobalConfig, string]> = [
+  ["b2", "appKey"],
+  ["s3", "secretAccessKey"],
+  ["s3", "sessionToken"],
+  ["google", "clientSecret"],
+  ["oidc", "clientSecret"],
+  ["github", "clientSecret"],
+];
+
+const AUTH_SECRETS: Array<keyof AuthData> = ["accessToken", "refreshToken"];
+
+function openCredentialStore(type: CredentialStoreType): CredentialStore {
+  return getCredentialStore(type, configPaths.credentials);
+}
+
+/**
+ * Remove the secret fields from a config and return them, keyed "section.key".
+ */
+function takeConfigSecrets(config: GlobalConfig): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const [section, key] of CONFIG_SECRETS) {
+    const values = config[section] as Record<string, unknown> | undefined;
+    const value = values?.[key];
+    if (typeof value === "string" && value) {
+      secrets[`${section}.${key}`] = value;
+    }
+    delete values?.[key];
+  }
+  return secrets;
+}
+
+function restoreConfigSecrets(config: GlobalConfig, secrets: Record<string, string>): void {
+  for (const [section, key] of CONFIG_SECRETS) {
+    const values = config[section] as Record<string, unknown> | undefined;
+    const value = secrets[`${section}.${key}`];
+    if (values && value !== undefined) {
+      values[key] = value;
+    }
+  }
+}
+
+function takeAuthSecrets(auth: AuthData): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const key of AUTH_SECRETS) {
+    const value = auth[key];
+    if (typeof value === "string" && value) {
+      secrets[key] = value;
+    }
+    delete auth[key];
+  }
+  return secrets;
+}
+
+async function readJsonFile<T>(path: string): Promise<T | null> {
   try {
-    const content = await readFile(configPaths.globalConfig, "utf-8");
-    return JSON.parse(content) as GlobalConfig;
+    return JSON.parse(await readFile(path, "utf-8")) as T;
   } catch {
     return null;
   }
 }
 
+export async function loadGlobalConfig(): Promise<GlobalConfig | null> {
+  const config = await readJsonFile<GlobalConfig>(configPaths.globalConfig);
+  if (config?.secretStore) {
+    const stored = await openCredentialStore(config.secretStore).get("config");
+    restoreConfigSecrets(config, stored ? (JSON.parse(stored) as Record<string, string>) : {});
+  }
+  return config;
+}
+
+/**
+ * Write config.json (mode 0600). With a secret store configured, the secret
+ * fields go to the store and are left out of the file.
+ */
 export async function saveGlobalConfig(config: GlobalConfig): Promise<void> {
-  await ensureDir(configPaths.configDir);
-  await writeFile(configPaths.globalConfig, JSON.stringify(config, null, 2));
+  const stripped = structuredClone(config);
+  if (stripped.secretStore) {
+    const secrets = takeConfigSecrets(stripped);
+    await openCredentialStore(stripped.secretStore).set("config", JSON.stringify(secrets));
+  }
+  await writePrivateFile(configPaths.globalConfig, JSON.stringify(stripped, null, 2));
 }
 
 export async function getOrCreateGlobalConfig(): Promise<GlobalConfig> {
@@ -61,6 +144,10 @@ export async function getOrCreateGlobalConfig(): Promise<GlobalConfig> {
       appKey: "",
       ...DEFAULT_B2_CONFIG,
     },
+    // New configs keep secrets in the keyring when there is one. The encrypted
+    // file needs a passphrase on every run, which would break unattended
+    // PSS_TOKEN runs on CI, so it is only used after `config migrate-secrets`.
+    secretStore: (await SecretServiceStore.isAvailable()) ? "secret-service" : undefined,
   };
 
   await saveGlobalConfig(defaultConfig);
@@ -77,11 +164,51 @@ export async function setConfigValue(key: string, value: string): Promise<void>
 
   const [section, subKey] = parts;
 
-  if (section === "b2") {
+  if (section === "storage") {
+    if (subKey === "type") {
+      if (!["b2", "s3", "filesystem"].includes(value)) {
+        throw new Error(`Unknown storage type: ${value}. Use "b2", "s3" or "filesystem"`);
+      }
+      config.storage = { ...config.storage, type: value as StorageType };
+    } else if (subKey === "path") {
+      config.storage = { type: config.storage?.type ?? "b2", ...config.storage, path: value };
+    } else {
+      throw new Error(`Unknown storage config key: ${subKey}`);
+    }
+  } else if (section === "b2") {
     if (!["keyId", "appKey", "endpoint", "bucket", "region"].includes(subKey!)) {
       throw new Error(`Unknown b2 config key: ${subKey}`);
     }
     (config.b2 as Record<string, string>)[subKey!] = value;
+  } else if (section === "s3") {
+    config.s3 = { ...DEFAULT_S3_CONFIG, ...config.s3 };
+    if (subKey === "forcePathStyle") {
+      if (!["true", "false"].includes(value)) {
+        throw new Error("s3.forcePathStyle must be true or false");
+      }
+      config.s3.forcePathStyle = value === "true";
+    } else if (subKey === "provider") {
+      if (!(value in S3_PROVIDER_DEFAULTS)) {
+        throw new Error(
+          `Unknown S3 provider: ${value}. Use one of: ${Object.keys(S3_PROVIDER_DEFAULTS).join(", ")}`
+        );
+      }
+      config.s3.provider = value as S3Provider;
+    } else if (
+      [
+        "endpoint",
+        "accessKeyId",
+        "secretAccessKey",
+        "sessionToken",
+        "bucket",
+        "region",
+        "caBundle",
+      ].includes(subKey!)
+    ) {
+      (config.s3 as unknown as Record<string, string>)[subKey!] = value;
+    } else {
+      throw new Error(`Unknown s3 config key: ${subKey}`);
+    }
   } else if (section === "google") {
     if (!["clientId", "clientSecret"].includes(subKey!)) {
       throw new Error(`Unknown google config key: ${subKey}`);
@@ -90,6 +217,27 @@ export async function setConfigValue(key: string, value: string): Promise<void>
       config.google = { clientId: "" };
     }
     (config.google as Record<string, string>)[subKey!] = value;
+  } else if (section === "auth") {
+    if (subKey !== "provider") {
+      throw new Error(`Unknown auth config key: ${subKey}`);
+    }
+    if (!AUTH_PROVIDERS.includes(value as AuthProviderType)) {
+      throw new Error(`Unknown auth provider: ${value}. Use one of: ${AUTH_PROVIDERS.join(", ")}`);
+    }
+    config.auth = { provider: value as AuthProviderType };
+  } else if (section === "oidc") {
+    if (!["issuer", "clientId", "clientSecret"].includes(subKey!)) {
+      throw new Error(`Unknown oidc config key: ${subKey}`);
+    }
+    if (subKey === "issuer" && !/^https?:\/\//.test(value)) {
+      throw new Error("oidc.issuer must be a URL, e.g. https://example.okta.com");
+    }
+    config.oidc = { issuer: "", clientId: "", ...config.oidc, [subKey!]: value };
+  } else if (section === "github") {
+    if (!["clientId", "clientSecret"].includes(subKey!)) {
+      throw new Error(`Unknown github config key: ${subKey}`);
+    }
+    config.github = { clientId: "", ...config.github, [subKey!]: value };
   } else {
     throw new Error(`Unknown config section: ${section}`);
   }
@@ -98,20 +246,34 @@ export async function setConfigValue(key: string, value: string): Promise<void>
 }
 
 export async function loadAuthData(): Promise<AuthData | null> {
-  try {
-    const content = await readFile(configPaths.authData, "utf-8");
-    return JSON.parse(content) as AuthData;
-  } catch {
-    return null;
+  const auth = await readJsonFile<AuthData>(configPaths.authData);
+  if (auth?.secretStore) {
+    const stored = await openCredentialStore(auth.secretStore).get("auth");
+    return stored ? { ...auth, ...(JSON.parse(stored) as Partial<AuthData>) } : null;
   }
+  return auth;
 }
 
+/**
+ * Write auth.json (mode 0600), with the tokens in the secret store if the
+ * config has one.
+ */
 export async function saveAuthData(auth: AuthData): Promise<void> {
-  await ensureDir(configPaths.configDir);
-  await writeFile(configPaths.authData, JSON.stringify(auth, null, 2));
+  const secretStore = (await readJsonFile<GlobalConfig>(configPaths.globalConfig))?.secretStore;
+  const stripped: AuthData = { ...auth, secretStore };
+  if (secretStore) {
+    const secrets = takeAuthSecrets(stripped);
+    await openCredentialStore(secretStore).set("auth", JSON.stringify(secrets));
+  }
+  await writePrivateFile(configPaths.authData, JSON.stringify(stripped, null, 2));
 }
 
 export async function clearAuthData(): Promise<void> {
+  const auth = await readJsonFile<AuthData>(configPaths.authData);
+  if (auth?.secretStore) {
+    await openCredentialStore(auth.secretStore).delete("auth");
+  }
+
   const { unlink } = await import("node:fs/promises");
   try {
     await unlink(configPaths.authData);
@@ -120,6 +282,37 @@ export async function clearAuthData(): Promise<void> {
   }
 }
 
+/**
+ * Move secrets out of config.json and auth.json into a secret store (or
+ * from one store to another). New secrets go to the same store from then on.
+ * Returns how many secrets were moved.
+ */
+export async function migrateSecrets(target: CredentialStoreType): Promise<number> {
+  let moved = 0;
+
+  const config = await loadGlobalConfig();
+  if (config) {
+    const previous = config.secretStore;
+    moved += Object.keys(takeConfigSecrets(structuredClone(config))).length;
+    await saveGlobalConfig({ ...config, secretStore: target });
+    if (previous && previous !== target) {
+      await openCredentialStore(previous).delete("config");
+    }
+  }
+
+  const auth = await loadAuthData();
+  if (auth && !auth.recovery) {
+    const previous = auth.secretStore;
+    moved += Object.keys(takeAuthSecrets({ ...auth })).length;
+    await saveAuthData(auth);
+    if (previous && previous !== target) {
+      await openCredentialStore(previous).delete("auth");
+    }
+  }
+
+  return moved;
+}
+
 export async function loadProjectConfig(projectDir: string): Promise<ProjectConfig | null> {
   try {
     const configPath = join(projectDir, ".pss.json");
@@ -136,6 +329,12 @@ export async function saveProjectConfig(projectDir: string, config: ProjectConfi
 }
 
 export function isConfigured(config: GlobalConfig): boolean {
+  if (config.storage?.type === "filesystem") {
+    return !!config.storage.path;
+  }
+  if (config.storage?.type === "s3") {
+    return !!(config.s3?.accessKeyId && config.s3.secretAccessKey && config.s3.bucket);
+  }
   return !!(config.b2.keyId && config.b2.appKey);
 }
 
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateKdfParams } from "./crypto.ts";
+import {
+  CREDENTIALS_PASSPHRASE_ENV,
+  EncryptedFileStore,
+  SecretServiceStore,
+} from "./credential-store.ts";
+import {
+  configPaths,
+  getOrCreateGlobalConfig,
+  loadAuthData,
+  loadGlobalConfig,
+  migrateSecrets,
+} from "./config.ts";
+import type { KdfParams } from "../types/index.ts";
+
+// Cheapest Argon2id settings so the tests stay fast
+const fastKdf = async (): Promise<KdfParams> => ({
+  ...(await generateKdfParams()),
+  opsLimit: 1,
+  memLimit: 8192,
+});
+
+// The config functions get a fresh fast file store, not the process-wide one
+vi.mock("./credential-store.ts", async (importOriginal) => {
+  const original = await importOriginal<typeof import("./credential-store.ts")>();
+  return {
+    ...original,
+    getCredentialStore: (_type: string, filePath: string) =>
+      new original.EncryptedFileStore(filePath, fastKdf),
+  };
+});
+
+describe("credential store", () => {
+  let dir: string;
+  const originalPaths = { ...configPaths };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "pss-credentials-"));
+    process.env[CREDENTIALS_PASSPHRASE_ENV] = "correct horse";
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    delete process.env[CREDENTIALS_PASSPHRASE_ENV];
+    Object.assign(configPaths, originalPaths);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep secrets in a passphrase-encrypted file only the user can read", async () => {
+    const path = join(dir, "credentials.enc.json");
+    const store = new EncryptedFileStore(path, fastKdf);
+    await store.set("config", "b2-app-key");
+    await store.set("auth", "refresh-token");
+    await store.delete("auth");
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await readFile(path, "utf-8")).not.toContain("b2-app-key");
+
+    const reopened = new EncryptedFileStore(path, fastKdf);
+    expect(await reopened.get("config")).toBe("b2-app-key");
+    expect(await reopened.get("auth")).toBeNull();
+
+    process.env[CREDENTIALS_PASSPHRASE_ENV] = "wrong";
+    await expect(new EncryptedFileStore(path, fastKdf).get("config")).rejects.toThrow(
+      "Incorrect credentials passphrase"
+    );
+  });
+
+  it("should move secrets out of config.json and auth.json", async () => {
+    Object.assign(configPaths, {
+      globalConfig: join(dir, "config.json"),
+      authData: join(dir, "auth.json"),
+      credentials: join(dir, "credentials.enc.json"),
+    });
+    await writeFile(
+      configPaths.globalConfig,
+      JSON.stringify({
+        version: 1,
+        b2: { keyId: "key-id", appKey: "app-key", endpoint: "e", bucket: "b", region: "r" },
+        google: { clientId: "client", clientSecret: "client-secret" },
+      })
+    );
+    await writeFile(
+      configPaths.authData,
+      JSON.stringify({
+        accessToken: "access",
+        refreshToken: "refresh",
+        expiresAt: 0,
+        userId: "u1",
+        email: "u1@example.com",
+      })
+    );
+
+    expect(await migrateSecrets("file")).toBe(4);
+
+    for (const path of [configPaths.globalConfig, configPaths.authData]) {
+      const raw = await readFile(path, "utf-8");
+      expect(raw).not.toMatch(/app-key|client-secret|access|refresh/);
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+    }
+
+    const config = await loadGlobalConfig();
+    expect(config?.secretStore).toBe("file");
+    expect(config?.b2.appKey).toBe("app-key");
+    expect(config?.google?.clientSecret).toBe("client-secret");
+    expect(config?.b2.keyId).toBe("key-id");
+
+    const auth = await loadAuthData();
+    expect(auth).toMatchObject({ accessToken: "access", refreshToken: "refresh", userId: "u1" });
+  });
+
+  it("should not need a passphrase for new configs on machines without a keyring", async () => {
+    Object.assign(configPaths, {
+      globalConfig: join(dir, "config.json"),
+      authData: join(dir, "auth.json"),
+      credentials: join(dir, "credentials.enc.json"),
+    });
+    vi.spyOn(SecretServiceStore, "isAvailable").mockResolvedValue(false);
+    delete process.env[CREDENTIALS_PASSPHRASE_ENV];
+
+    const config = await getOrCreateGlobalConfig();
+    expect(config.secretStore).toBeUndefined();
+    expect(await loadGlobalConfig()).toMatchObject({ version: 1 });
+
+    // Only the secrets that are there count as moved
+    process.env[CREDENTIALS_PASSPHRASE_ENV] = "correct horse";
+    await writeFile(
+      configPaths.authData,
+      JSON.stringify({ accessToken: "access", expiresAt: 0, userId: "u1", email: "u1@example.com" })
+    );
+    expect(await migrateSecrets("file")).toBe(1);
+  });
+});
@@ -0,0 +1,228 @@
+import { spawn } from "node:child_process";
+import { chmod, readFile, writeFile } from "node:fs/promises";
+import { decrypt, deriveKeyFromPassphrase, encrypt, generateKdfParams } from "./crypto.ts";
+import { ensureParentDir } from "./fs-utils.ts";
+import { isInteractive, promptSecret } from "./prompt.ts";
+import type { CredentialStoreType, EncryptedData, KdfParams } from "../types/index.ts";
+
+export const CREDENTIALS_PASSPHRASE_ENV = "PSS_CREDENTIALS_PASSPHRASE";
+
+const SECRET_SERVICE_ATTRIBUTE = "pss";
+const FILE_ASSOCIATED_DATA = JSON.stringify(["pss-credentials"]);
+
+/**
+ * Somewhere to keep secrets (tokens, storage keys, OAuth client secrets)
+ * outside the plaintext JSON config files. Values are keyed by account name.
+ */
+export interface CredentialStore {
+  readonly type: CredentialStoreType;
+  get(account: string): Promise<string | null>;
+  set(account: string, secret: string): Promise<void>;
+  delete(account: string): Promise<void>;
+}
+
+/**
+ * Write a file only the current user can read, whether or not it existed.
+ */
+export async function writePrivateFile(path: string, content: string): Promise<void> {
+  await ensureParentDir(path);
+  await writeFile(path, content, { mode: 0o600 });
+  await chmod(path, 0o600);
+}
+
+interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+function runSecretTool(args: string[], input?: string): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("secret-tool", args, { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString("utf-8")));
+    child.stderr.on("data", (chunk: Buffer) => (stderr += chunk.toString("utf-8")));
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+    child.stdin.end(input ?? "");
+  });
+}
+
+/**
+ * The desktop keyring (GNOME Keyring, KWallet...) through the freedesktop
+ * Secret Service API, via libsecret's `secret-tool`.
+ */
+export class SecretServiceStore implements CredentialStore {
+  readonly type = "secret-service";
+
+  /**
+   * Whether `secret-tool` is installed and can reach a Secret Service. A
+   * lookup that finds nothing exits with 1 and no output; a missing D-Bus
+   * session or keyring daemon prints an error.
+   */
+  static async isAvailable(): Promise<boolean> {
+    if (process.platform !== "linux") {
+      return false;
+    }
+    try {
+      const result = await runSecretTool(["lookup", SECRET_SERVICE_ATTRIBUTE, "probe"]);
+      return (result.code === 0 || result.code === 1) && result.stderr.trim() === "";
+    } catch {
+      return false;
+    }
+  }
+
+  async get(account: string): Promise<string | null> {
+    const result = await runSecretTool(["lookup", SECRET_SERVICE_ATTRIBUTE, account]);
+    if (result.code === 0) {
+      return result.stdout;
+    }
+    if (result.code === 1 && result.stderr.trim() === "") {
+      return null;
+    }
+    throw new Error(`Secret Service lookup failed: ${result.stderr.trim()}`);
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const result = await runSecretTool(
+      ["store", `--label=pss ${account}`, SECRET_SERVICE_ATTRIBUTE, account],
+      secret
+    );
+    if (result.code !== 0) {
+      throw new Error(`Secret Service store failed: ${result.stderr.trim()}`);
+    }
+  }
+
+  async delete(account: string): Promise<void> {
+    await runSecretTool(["clear", SECRET_SERVICE_ATTRIBUTE, account]);
+  }
+}
+
+interface CredentialsFile {
+  version: 1;
+  kdf: KdfParams;
+  /** Account -> secret map, encrypted with a key derived from the passphrase */
+  data: EncryptedData;
+}
+
+/**
+ * Fallback for machines without a Secret Service: one file encrypted with a
+ * key derived from a local passphrase (Argon2id). The passphrase comes from
+ * PSS_CREDENTIALS_PASSPHRASE or a prompt, once per process.
+ */
+export class EncryptedFileStore implements CredentialStore {
+  readonly type = "file";
+  private unlocked: { kdf: KdfParams; key: Uint8Array; entries: Record<string, string> } | null =
+    null;
+
+  constructor(
+    private readonly path: string,
+    private readonly createKdfParams: () => Promise<KdfParams> = generateKdfParams
+  ) {}
+
+  async get(account: string): Promise<string | null> {
+    const { entries } = await this.unlock();
+    return entries[account] ?? null;
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const unlocked = await this.unlock();
+    unlocked.entries[account] = secret;
+    await this.save();
+  }
+
+  async delete(account: string): Promise<void> {
+    const unlocked = await this.unlock();
+    if (account in unlocked.entries) {
+      delete unlocked.entries[account];
+      await this.save();
+    }
+  }
+
+  private async unlock(): Promise<NonNullable<EncryptedFileStore["unlocked"]>> {
+    if (this.unlocked) {
+      return this.unlocked;
+    }
+
+    let file: CredentialsFile | null = null;
+    try {
+      file = JSON.parse(await readFile(this.path, "utf-8")) as CredentialsFile;
+    } catch {
+      // No credentials stored yet
+    }
+
+    if (!file) {
+      const kdf = await this.createKdfParams();
+      const passphrase = await readPassphrase(true);
+      this.unlocked = { kdf, key: await deriveKeyFromPassphrase(passphrase, kdf), entries: {} };
+      return this.unlocked;
+    }
+
+    const key = await deriveKeyFromPassphrase(await readPassphrase(false), file.kdf);
+    let json: string;
+    try {
+      json = await decrypt(file.data, key, FILE_ASSOCIATED_DATA);
+    } catch {
+      throw new Error("Incorrect credentials passphrase");
+    }
+    this.unlocked = { kdf: file.kdf, key, entries: JSON.parse(json) as Record<string, string> };
+    return this.unlocked;
+  }
+
+  private async save(): Promise<void> {
+    const { kdf, key, entries } = this.unlocked!;
+    const file: CredentialsFile = {
+      version: 1,
+      kdf,
+      data: await encrypt(JSON.stringify(entries), key, FILE_ASSOCIATED_DATA),
+    };
+    await writePrivateFile(this.path, JSON.stringify(file, null, 2));
+  }
+}
+
+async function readPassphrase(isNew: boolean): Promise<string> {
+  const fromEnv = process.env[CREDENTIALS_PASSPHRASE_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (!isInteractive()) {
+    throw new Error(
+      `Stored credentials are encrypted. Set ${CREDENTIALS_PASSPHRASE_ENV} to run non-interactively.`
+    );
+  }
+
+  if (!isNew) {
+    return promptSecret("Credentials passphrase: ");
+  }
+  const passphrase = await promptSecret("New passphrase for stored credentials: ");
+  if (!passphrase) {
+    throw new Error("Passphrase cannot be empty");
+  }
+  if ((await promptSecret("Confirm passphrase: ")) !== passphrase) {
+    throw new Error("Passphrases don't match");
+  }
+  return passphrase;
+}
+
+/**
+ * The Secret Service where there is one, else the encrypted file.
+ */
+export async function detectCredentialStore(): Promise<CredentialStoreType> {
+  return (await SecretServiceStore.isAvailable()) ? "secret-service" : "file";
+}
+
+const stores = new Map<CredentialStoreType, CredentialStore>();
+
+/**
+ * The credential store of a type, shared for the process so the file
+ * store's passphrase is only asked for once.
+ */
+export function getCredentialStore(type: CredentialStoreType, filePath: string): CredentialStore {
+  let store = stores.get(type);
+  if (!store) {
+    store = type === "secret-service" ? new SecretServiceStore() : new EncryptedFileStore(filePath);
+    stores.set(type, store);
+  }
+  return store;
+}
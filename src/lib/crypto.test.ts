@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import sodium from "libsodium-wrappers-sumo";
+import { decrypt, encrypt, fileAssociatedData, generateMasterKey } from "./crypto.ts";
+import type { EncryptedData } from "../types/index.ts";
+
+describe("encrypt/decrypt", () => {
+  it("should write version 2 AEAD blobs", async () => {
+    const key = await generateMasterKey();
+    const encrypted = await encrypt("A=1", key, fileAssociatedData("app", ".env", 1));
+
+    expect(encrypted.version).toBe(2);
+    expect(encrypted.algorithm).toBe("xchacha20-poly1305-ietf");
+    expect(await decrypt(encrypted, key, fileAssociatedData("app", ".env", 1))).toBe("A=1");
+  });
+
+  it("should reject content moved to another project, file or key version", async () => {
+    const key = await generateMasterKey();
+    const encrypted = await encrypt("A=1", key, fileAssociatedData("app", ".env.production", 1));
+
+    for (const associatedData of [
+      fileAssociatedData("other", ".env.production", 1),
+      fileAssociatedData("app", ".env.local", 1),
+      fileAssociatedData("app", ".env.production", 2),
+      fileAssociatedData("app", ".env.production"),
+    ]) {
+      await expect(decrypt(encrypted, key, associatedData)).rejects.toThrow("Decryption failed");
+    }
+  });
+
+  it("should still read version 1 secretbox blobs", async () => {
+    await sodium.ready;
+    const key = await generateMasterKey();
+    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+    const legacy: EncryptedData = {
+      version: 1,
+      algorithm: "xchacha20-poly1305",
+      nonce: sodium.to_base64(nonce),
+      ciphertext: sodium.to_base64(sodium.crypto_secretbox_easy("A=1", nonce, key)),
+    };
+
+    expect(await decrypt(legacy, key, fileAssociatedData("app", ".env"))).toBe("A=1");
+    await expect(decrypt(legacy, await generateMasterKey())).rejects.toThrow("Decryption failed");
+  });
+
+  it("should reject unknown versions", async () => {
+    const key = await generateMasterKey();
+    const encrypted = { ...(await encrypt("A=1", key)), version: 3 };
+
+    await expect(decrypt(encrypted, key)).rejects.toThrow("Unsupported encryption version: 3");
+  });
+});
@@ -1,5 +1,5 @@
 import sodium from "libsodium-wrappers-sumo";
-import type { EncryptedData } from "../types/index.ts";
+import type { EncryptedData, KdfParams } from "../types/index.ts";
 
 const APP_SALT = "pss-encryption-salt-v1-2025";
 
@@ -27,33 +27,134 @@ export async function deriveKeyFromUserId(userId: string): Promise<Uint8Array> {
   );
 }
 
-export async function encrypt(plaintext: string, key: Uint8Array): Promise<EncryptedData> {
+export async function generateKdfParams(): Promise<KdfParams> {
   await ensureSodium();
 
-  const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
-  const plaintextBytes = sodium.from_string(plaintext);
+  return {
+    algorithm: "argon2id13",
+    salt: sodium.to_base64(sodium.randombytes_buf(sodium.crypto_pwhash_SALTBYTES)),
+    opsLimit: sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+    memLimit: sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+  };
+}
+
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  params: KdfParams
+): Promise<Uint8Array> {
+  await ensureSodium();
+
+  if (params.algorithm !== "argon2id13") {
+    throw new Error(`Unsupported key derivation algorithm: ${params.algorithm}`);
+  }
+
+  return sodium.crypto_pwhash(
+    sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES,
+    passphrase,
+    sodium.from_base64(params.salt),
+    params.opsLimit,
+    params.memLimit,
+    sodium.crypto_pwhash_ALG_ARGON2ID13
+  );
+}
+
+export async function generateMasterKey(): Promise<Uint8Array> {
+  await ensureSodium();
+  return sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES);
+}
+
+export async function encodeKey(key: Uint8Array): Promise<string> {
+  await ensureSodium();
+  return sodium.to_base64(key);
+}
+
+export async function decodeKey(encoded: string): Promise<Uint8Array> {
+  await ensureSodium();
+
+  let key: Uint8Array;
+  try {
+    key = sodium.from_base64(encoded.trim());
+  } catch {
+    throw new Error("Invalid master key encoding");
+  }
+
+  if (key.length !== sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES) {
+    throw new Error("Invalid master key length");
+  }
+  return key;
+}
+
+/**
+ * Associated data for file content. Binding the ciphertext to its project,
+ * path and key version means a blob copied to another object key won't decrypt.
+ */
+export function fileAssociatedData(
+  projectName: string,
+  fileName: string,
+  keyVersion?: number
+): string {
+  return JSON.stringify(["pss-file", projectName, fileName, keyVersion ?? null]);
+}
+
+export async function encrypt(
+  plaintext: string,
+  key: Uint8Array,
+  associatedData = ""
+): Promise<EncryptedData> {
+  await ensureSodium();
 
-  const ciphertext = sodium.crypto_secretbox_easy(plaintextBytes, nonce, key);
+  const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+
+  const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+    sodium.from_string(plaintext),
+    associatedData,
+    null,
+    nonce,
+    key
+  );
 
   return {
-    version: 1,
-    algorithm: "xchacha20-poly1305",
+    version: 2,
+    algorithm: "xchacha20-poly1305-ietf",
     nonce: sodium.to_base64(nonce),
     ciphertext: sodium.to_base64(ciphertext),
   };
 }
 
-export async function decrypt(encrypted: EncryptedData, key: Uint8Array): Promise<string> {
+/**
+ * Decrypt content. Version 1 blobs (crypto_secretbox, i.e. XSalsa20-Poly1305,
+ * without associated data) are still accepted; `associatedData` only applies
+ * to version 2.
+ */
+export async function decrypt(
+  encrypted: EncryptedData,
+  key: Uint8Array,
+  associatedData = ""
+): Promise<string> {
   await ensureSodium();
 
-  if (encrypted.version !== 1) {
+  if (encrypted.version !== 1 && encrypted.version !== 2) {
     throw new Error(`Unsupported encryption version: ${encrypted.version}`);
   }
 
   const nonce = sodium.from_base64(encrypted.nonce);
   const ciphertext = sodium.from_base64(encrypted.ciphertext);
 
-  const plaintext = sodium.crypto_secretbox_open_easy(ciphertext, nonce, key);
+  let plaintext: Uint8Array | null;
+  try {
+    plaintext =
+      encrypted.version === 1
+        ? sodium.crypto_secretbox_open_easy(ciphertext, nonce, key)
+        : sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+            null,
+            ciphertext,
+            associatedData,
+            nonce,
+            key
+          );
+  } catch {
+    plaintext = null;
+  }
 
   if (!plaintext) {
     throw new Error("Decryption failed - invalid key or corrupted data");
@@ -69,20 +170,160 @@ export async function hashFile(content: string): Promise<string> {
   return `sha256:${sodium.to_hex(hash)}`;
 }
 
-let cachedKey: Uint8Array | null = null;
-let cachedUserId: string | null = null;
+/**
+ * Derive an independent key for another purpose (e.g. MACs) from an encryption key.
+ */
+export async function deriveSubkey(key: Uint8Array, purpose: string): Promise<Uint8Array> {
+  await ensureSodium();
+  return sodium.crypto_generichash(32, purpose, key);
+}
+
+/**
+ * Keyed content hash. Unlike hashFile, it can't be used to confirm a guess of
+ * the content without the key. `keyVersion` records which data key the MAC key
+ * was derived from.
+ */
+export async function macContent(
+  content: string,
+  macKey: Uint8Array,
+  keyVersion?: number
+): Promise<string> {
+  await ensureSodium();
+
+  const mac = sodium.crypto_generichash(32, content, macKey);
+  return keyVersion === undefined
+    ? `mac:${sodium.to_hex(mac)}`
+    : `mac:${keyVersion}:${sodium.to_hex(mac)}`;
+}
+
+const KEY_CHECK_PLAINTEXT = "pss-key-check-v1";
+const KEY_CHECK_AD = JSON.stringify(["pss-key-check"]);
+
+/**
+ * Encrypt a known value so a key can be verified without touching real data.
+ */
+export async function createKeyCheck(key: Uint8Array): Promise<EncryptedData> {
+  return encrypt(KEY_CHECK_PLAINTEXT, key, KEY_CHECK_AD);
+}
+
+export async function verifyKeyCheck(check: EncryptedData, key: Uint8Array): Promise<boolean> {
+  try {
+    return (await decrypt(check, key, KEY_CHECK_AD)) === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * X25519 key pair for receiving keys from other users.
+ */
+export async function generateBoxKeyPair(): Promise<{
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}> {
+  await ensureSodium();
+  const { publicKey, privateKey } = sodium.crypto_box_keypair();
+  return { publicKey, secretKey: privateKey };
+}
+
+/**
+ * X25519 key pair derived from a 32-byte seed, for keys that are recreated
+ * from a secret instead of stored (service tokens).
+ */
+export async function deriveBoxKeyPair(seed: Uint8Array): Promise<{
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}> {
+  await ensureSodium();
+  const { publicKey, privateKey } = sodium.crypto_box_seed_keypair(seed);
+  return { publicKey, secretKey: privateKey };
+}
+
+/**
+ * Anonymously encrypt a message so only the holder of the secret key can read it.
+ */
+export async function sealToPublicKey(message: string, publicKey: Uint8Array): Promise<string> {
+  await ensureSodium();
+  return sodium.to_base64(sodium.crypto_box_seal(message, publicKey));
+}
+
+export async function openSealedBox(
+  sealed: string,
+  publicKey: Uint8Array,
+  secretKey: Uint8Array
+): Promise<string> {
+  await ensureSodium();
+
+  try {
+    return sodium.to_string(
+      sodium.crypto_box_seal_open(sodium.from_base64(sealed), publicKey, secretKey)
+    );
+  } catch {
+    throw new Error("Decryption failed - not sealed to this identity");
+  }
+}
+
+export async function decodePublicKey(encoded: string): Promise<Uint8Array> {
+  await ensureSodium();
 
-export async function getEncryptionKey(userId: string): Promise<Uint8Array> {
-  if (cachedKey && cachedUserId === userId) {
-    return cachedKey;
+  const key = sodium.from_base64(encoded);
+  if (key.length !== sodium.crypto_box_PUBLICKEYBYTES) {
+    throw new Error("Invalid public key");
   }
+  return key;
+}
+
+/**
+ * Ed25519 key pair for signing documents other members must be able to trust.
+ */
+export async function generateSigningKeyPair(): Promise<{
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}> {
+  await ensureSodium();
+  const { publicKey, privateKey } = sodium.crypto_sign_keypair();
+  return { publicKey, secretKey: privateKey };
+}
 
-  cachedKey = await deriveKeyFromUserId(userId);
-  cachedUserId = userId;
-  return cachedKey;
+export async function deriveSigningKeyPair(seed: Uint8Array): Promise<{
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}> {
+  await ensureSodium();
+  const { publicKey, privateKey } = sodium.crypto_sign_seed_keypair(seed);
+  return { publicKey, secretKey: privateKey };
 }
 
-export function clearKeyCache(): void {
-  cachedKey = null;
-  cachedUserId = null;
+export async function signMessage(message: string, secretKey: Uint8Array): Promise<string> {
+  await ensureSodium();
+  return sodium.to_base64(sodium.crypto_sign_detached(message, secretKey));
+}
+
+export async function verifySignature(
+  signature: string,
+  message: string,
+  publicKey: Uint8Array
+): Promise<boolean> {
+  await ensureSodium();
+
+  try {
+    return sodium.crypto_sign_verify_detached(sodium.from_base64(signature), message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+export async function decodeSigningKey(
+  encoded: string,
+  kind: "public" | "secret"
+): Promise<Uint8Array> {
+  await ensureSodium();
+
+  const key = sodium.from_base64(encoded);
+  const expected =
+    kind === "public" ? sodium.crypto_sign_PUBLICKEYBYTES : sodium.crypto_sign_SECRETKEYBYTES;
+  if (key.length !== expected) {
+    throw new Error(`Invalid signing ${kind} key`);
+  }
+  return key;
 }
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { EnvDocument, formatEnvValue } from "./env-document.ts";
+import { parseEnvFile } from "./env-files.ts";
+import { threeWayMergeEnvFile } from "./merge.ts";
+
+const curated = [
+  "# Database",
+  "DB_HOST=localhost",
+  "  DB_PORT = 5432",
+  "",
+  "# API",
+  "export API_KEY='abc'",
+  'GREETING="hello world"',
+  "not a variable",
+  "",
+].join("\n");
+
+describe("EnvDocument", () => {
+  it("should reproduce the file exactly when nothing changes", () => {
+    for (const content of [
+      curated,
+      curated.replace(/\n/g, "\r\n"),
+      "A=1\nB=2",
+      "",
+      "\n\n# only comments\n",
+    ]) {
+      expect(EnvDocument.parse(content).toString()).toBe(content);
+    }
+  });
+
+  it("should read values the way parseEnvFile does, without export prefixes", () => {
+    const document = EnvDocument.parse(curated);
+
+    expect(document.toMap()).toEqual(
+      new Map([
+        ["DB_HOST", "localhost"],
+        ["DB_PORT", "5432"],
+        ["API_KEY", "abc"],
+        ["GREETING", "hello world"],
+      ])
+    );
+    expect(parseEnvFile(curated)).toEqual(document.toMap());
+    expect(document.lines.map((line) => line.type)).toEqual([
+      "comment",
+      "entry",
+      "entry",
+      "blank",
+      "comment",
+      "entry",
+      "entry",
+      "invalid",
+    ]);
+  });
+
+  it("should rewrite only the changed line, keeping its layout and quotes", () => {
+    const document = EnvDocument.parse(curated);
+    document.set("DB_PORT", "6543");
+    document.set("API_KEY", "xyz");
+    document.set("GREETING", "hi");
+    document.set("DB_HOST", "localhost");
+
+    expect(document.toString()).toBe(
+      curated
+        .replace("DB_PORT = 5432", "DB_PORT = 6543")
+        .replace("export API_KEY='abc'", "export API_KEY='xyz'")
+        .replace('GREETING="hello world"', 'GREETING="hi"')
+    );
+  });
+
+  it("should place new keys next to a neighbour, or at the end", () => {
+    const document = EnvDocument.parse("A=1\n\nC=3");
+    document.set("B", "2", { after: "A" });
+    document.set("D", "4");
+    document.set("Z", "0", { before: "A" });
+
+    expect(document.toString()).toBe("Z=0\nA=1\nB=2\n\nC=3\nD=4");
+  });
+
+  it("should delete every occurrence of a key and leave comments alone", () => {
+    const document = EnvDocument.parse("# first\nA=1\nB=2\nA=3\n");
+
+    expect(document.get("A")).toBe("3");
+    expect(document.delete("A")).toBe(true);
+    expect(document.delete("A")).toBe(false);
+    expect(document.toString()).toBe("# first\nB=2\n");
+  });
+
+  it("should apply a merge to the local file without disturbing its layout", () => {
+    const base = "# Shared settings\nexport A=1\nB=2\nC=3\n";
+    const local = "# Shared settings\nexport A=1\n\n# Mine\nB=local\nC=3\n";
+    const remote = "A=1\nB=2\nNEW=remote\nC=30\n";
+
+    const result = threeWayMergeEnvFile(
+      ".env",
+      parseEnvFile(base),
+      parseEnvFile(local),
+      parseEnvFile(remote)
+    );
+    const document = EnvDocument.parse(local);
+    document.update(result.merged, EnvDocument.parse(remote));
+
+    expect(document.toString()).toBe(
+      "# Shared settings\nexport A=1\n\n# Mine\nB=local\nNEW=remote\nC=30\n"
+    );
+  });
+});
+
+describe("EnvDocument diagnostics", () => {
+  const content = [
+    "A=1",
+    "  B = two",
+    'export C= "x" # c',
+    "A=2",
+    "MY-KEY=3",
+    "not a line",
+    'PEM="line1',
+    'line2"',
+    'D="open',
+    "E= # empty",
+    "",
+  ].join("\n");
+
+  it("should report each problem with its line and column", () => {
+    expect(
+      EnvDocument.parse(content)
+        .diagnostics()
+        .map(({ line, column, code, fixable }) => ({ line, column, code, fixable }))
+    ).toEqual([
+      { line: 1, column: 1, code: "duplicate-key", fixable: true },
+      { line: 2, column: 5, code: "spaces-around-equals", fixable: true },
+      { line: 3, column: 9, code: "spaces-around-equals", fixable: true },
+      { line: 5, column: 1, code: "invalid-key", fixable: false },
+      { line: 6, column: 1, code: "malformed-line", fixable: false },
+      { line: 9, column: 3, code: "unbalanced-quote", fixable: false },
+    ]);
+    expect(EnvDocument.parse(curated.replace("  DB_PORT = ", "DB_PORT=")).diagnostics()).toEqual([
+      expect.objectContaining({ line: 8, code: "malformed-line" }),
+    ]);
+  });
+
+  it("should fix duplicates and spacing without changing any value", () => {
+    const document = EnvDocument.parse(content);
+    const before = document.toMap();
+
+    expect(document.fix()).toBe(3);
+    expect(document.toMap()).toEqual(before);
+    expect(document.toString()).toBe(
+      content.replace("A=1\n", "").replace(" = ", "=").replace("C= ", "C=")
+    );
+    expect(document.diagnostics().filter((diagnostic) => diagnostic.fixable)).toEqual([]);
+    expect(document.fix()).toBe(0);
+  });
+});
+
+describe("formatEnvValue", () => {
+  it("should quote only when needed, keeping a single-quote style that still fits", () => {
+    expect(formatEnvValue("plain")).toBe("plain");
+    expect(formatEnvValue("two words")).toBe('"two words"');
+    expect(formatEnvValue("")).toBe('""');
+    expect(formatEnvValue("two words", "'")).toBe("'two words'");
+    expect(formatEnvValue("it's", "'")).toBe('"it\'s"');
+    expect(formatEnvValue("plain", '"')).toBe('"plain"');
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * A variable assignment. `raw` is its text as written, which spans several
+ * lines for a multi-line quoted value, so an unchanged entry is reproduced
+ * byte for byte.
+ */
+export interface EnvEntry {
+  type: "entry";
+  key: string;
+  value: string;
+  /** Written as `export KEY=value` */
+  exported: boolean;
+  /** The quotes around the value, if any */
+  quote?: EnvQuote;
+  /** Where the value as written (with its quotes) starts and ends in `raw` */
+  valueStart: number;
+  valueEnd: number;
+  raw: string;
+  /** Line terminator after the entry: "\n", "\r\n", or "" at the end of the file */
+  newline: string;
+}
+
+/**
+ * Anything that isn't an entry: comments, blank lines, and lines without `=`,
+ * all kept verbatim.
+ */
+export interface EnvTrivia {
+  type: "comment" | "blank" | "invalid";
+  raw: string;
+  newline: string;
+}
+
+export type EnvNode = EnvEntry | EnvTrivia;
+
+/**
+ * Double quotes process escape sequences; single quotes and backticks are
+ * literal. All three may span lines.
+ */
+export type EnvQuote = '"' | "'" | "`";
+
+/**
+ * Something in an env file that is probably a mistake. `fixable` ones can be
+ * repaired by `EnvDocument.fix()` without changing any value.
+ */
+export interface EnvDiagnostic {
+  /** 1-based line and column */
+  line: number;
+  column: number;
+  severity: "error" | "warning";
+  code: EnvDiagnosticCode;
+  message: string;
+  fixable: boolean;
+}
+
+export type EnvDiagnosticCode =
+  | "duplicate-key"
+  | "malformed-line"
+  | "unbalanced-quote"
+  | "spaces-around-equals"
+  | "invalid-key";
+
+const EXPORT_PREFIX = /^export\s+/;
+
+/** A name a shell can export */
+const KEY_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", "\\": "\\", '"': '"' };
+
+function isQuote(char: string | undefined): char is EnvQuote {
+  return char === '"' || char === "'" || char === "`";
+}
+
+/**
+ * The end of the line starting at `start` (before its terminator) and the terminator.
+ */
+function readLine(content: string, start: number): { end: number; newline: string } {
+  const lf = content.indexOf("\n", start);
+  if (lf === -1) {
+    return { end: content.length, newline: "" };
+  }
+  const end = lf > start && content[lf - 1] === "\r" ? lf - 1 : lf;
+  return { end, newline: content.slice(end, lf + 1) };
+}
+
+/**
+ * Where the quote opened at `open` closes, skipping escaped characters in
+ * double quotes, or -1 if it never does.
+ */
+function findClosingQuote(content: string, open: number): number {
+  const quote = content[open];
+  for (let i = open + 1; i < content.length; i++) {
+    if (quote === '"' && content[i] === "\\") {
+      i++;
+    } else if (content[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unquote(inner: string, quote: EnvQuote): string {
+  const text = inner.replace(/\r\n/g, "\n");
+  if (quote !== '"') {
+    return text;
+  }
+  // Unknown escapes are kept as written
+  return text.replace(/\\([\s\S])/g, (escape, char: string) => ESCAPES[char] ?? escape);
+}
+
+/**
+ * Parse the line (or, for a multi-line quoted value, lines) starting at
+ * `start`, following dotenv and docker-compose:
+ * - `export KEY=value` sets KEY
+ * - unquoted values are trimmed and end at a `#` that follows whitespace
+ * - double-quoted values may contain \n, \r, \t, \\ and \" escapes
+ * - single-quoted and backtick-quoted values are taken literally
+ * - quoted values may span lines; text after the closing quote is ignored
+ * An opening quote that is never closed is read as part of an unquoted value.
+ */
+function parseNode(content: string, start: number): { node: EnvNode; next: number } {
+  const { end, newline } = readLine(content, start);
+  const line = content.slice(start, end);
+  const next = end + newline.length;
+
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return { node: { type: "blank", raw: line, newline }, next };
+  }
+  if (trimmed.startsWith("#")) {
+    return { node: { type: "comment", raw: line, newline }, next };
+  }
+
+  const eqIndex = line.indexOf("=");
+  if (eqIndex === -1) {
+    return { node: { type: "invalid", raw: line, newline }, next };
+  }
+
+  let key = line.slice(0, eqIndex).trim();
+  const exported = EXPORT_PREFIX.test(key);
+  if (exported) {
+    key = key.replace(EXPORT_PREFIX, "");
+  }
+
+  let valueStart = eqIndex + 1;
+  while (line[valueStart] === " " || line[valueStart] === "\t") {
+    valueStart++;
+  }
+
+  const quote = line[valueStart];
+  if (isQuote(quote)) {
+    const close = findClosingQuote(content, start + valueStart);
+    if (close !== -1) {
+      const closingLine = readLine(content, close + 1);
+      return {
+        node: {
+          type: "entry",
+          key,
+          value: unquote(content.slice(start + valueStart + 1, close), quote),
+          exported,
+          quote,
+          valueStart,
+          valueEnd: close + 1 - start,
+          raw: content.slice(start, closingLine.end),
+          newline: closingLine.newline,
+        },
+        next: closingLine.end + closingLine.newline.length,
+      };
+    }
+  }
+
+  let valueEnd = line.length;
+  for (let i = valueStart; i < line.length; i++) {
+    if (line[i] === "#" && /\s/.test(line[i - 1]!)) {
+      valueEnd = i;
+      break;
+    }
+  }
+  const value = line.slice(valueStart, valueEnd).trimEnd();
+
+  return {
+    node: {
+      type: "entry",
+      key,
+      value,
+      exported,
+      valueStart,
+      valueEnd: valueStart + value.length,
+      raw: line,
+      newline,
+    },
+    next,
+  };
+}
+
+/**
+ * Where the `=` of an entry is and where its key starts, both in `raw`.
+ */
+function locateKey(entry: EnvEntry): { eq: number; keyStart: number } {
+  const eq = entry.raw.indexOf("=");
+  return { eq, keyStart: entry.raw.slice(0, eq).trimEnd().length - entry.key.length };
+}
+
+/**
+ * The entry with the whitespace around its `=` removed, or null if there is
+ * none to remove. Whitespace after an `=` is kept when the value is empty,
+ * since `KEY= # comment` and `KEY=# comment` mean different things.
+ */
+function withoutSpacing(entry: EnvEntry): EnvEntry | null {
+  const { eq } = locateKey(entry);
+  const keyEnd = entry.raw.slice(0, eq).trimEnd().length;
+  const valueStart = entry.valueEnd > entry.valueStart ? entry.valueStart : eq + 1;
+  const removed = eq - keyEnd + (valueStart - (eq + 1));
+  if (removed === 0) {
+    return null;
+  }
+  return {
+    ...entry,
+    raw: entry.raw.slice(0, keyEnd) + "=" + entry.raw.slice(valueStart),
+    valueStart: entry.valueStart - removed,
+    valueEnd: entry.valueEnd - removed,
+  };
+}
+
+/**
+ * Format a value for env file output, so that parsing it gives the value
+ * back. Quotes values that contain spaces, quotes, or special characters, and
+ * keeps the quote style the value was written with when it still fits.
+ */
+export function formatEnvValue(value: string, quote?: EnvQuote): string {
+  if ((quote === "'" || quote === "`") && !value.includes(quote)) {
+    return `${quote}${value}${quote}`;
+  }
+
+  // Check if value needs quoting
+  const needsQuoting =
+    quote === '"' ||
+    value !== value.trim() ||
+    value.includes('"') ||
+    value.includes("'") ||
+    value.includes("`") ||
+    value.includes("#") ||
+    value.includes("$") ||
+    value.includes("\n") ||
+    value.includes("\r") ||
+    value.includes("\\") ||
+    value.includes(" ") ||
+    value === "";
+
+  if (!needsQuoting) {
+    return value;
+  }
+
+  // Use double quotes and escape backslashes, double quotes and line breaks
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+
+  return `"${escaped}"`;
+}
+
+/**
+ * An env file as a list of entries, comments and blank lines that keeps
+ * everything the file contains:
+ * comments, blank lines, ordering, `export` prefixes and line endings.
+ * `toString()` returns the original text until something is changed, and a
+ * change only rewrites the lines of the keys involved.
+ *
+ * When a key appears more than once, the last occurrence wins, as it does
+ * when the file is sourced.
+ */
+export class EnvDocument {
+  private constructor(
+    private nodes: EnvNode[],
+    /** Line ending for new lines, following the file's first one */
+    private readonly eol: string
+  ) {}
+
+  static parse(content: string): EnvDocument {
+    const nodes: EnvNode[] = [];
+    let eol: string | undefined;
+    for (let start = 0; start < content.length; ) {
+      const { node, next } = parseNode(content, start);
+      nodes.push(node);
+      eol ??= node.newline || undefined;
+      start = next;
+    }
+    return new EnvDocument(nodes, eol ?? "\n");
+  }
+
+  get lines(): readonly EnvNode[] {
+    return this.nodes;
+  }
+
+  get entries(): EnvEntry[] {
+    return this.nodes.filter((node): node is EnvEntry => node.type === "entry");
+  }
+
+  keys(): string[] {
+    return [...this.toMap().keys()];
+  }
+
+  has(key: string): boolean {
+    return this.findEntry(key) !== -1;
+  }
+
+  get(key: string): string | undefined {
+    const index = this.findEntry(key);
+    return index === -1 ? undefined : (this.nodes[index] as EnvEntry).value;
+  }
+
+  toMap(): Map<string, string> {
+    const vars = new Map<string, string>();
+    for (const entry of this.entries) {
+      vars.set(entry.key, entry.value);
+    }
+    return vars;
+  }
+
+  /**
+   * Set a value. An existing entry is rewritten in place, keeping its
+   * indentation, `export` prefix and quote style; a new one goes after the
+   * entry for `after` or before the one for `before`, else at the end.
+   */
+  set(key: string, value: string, position: { after?: string; before?: string } = {}): void {
+    const index = this.findEntry(key);
+    if (index !== -1) {
+      const entry = this.nodes[index] as EnvEntry;
+      if (entry.value === value) {
+        return;
+      }
+      const written = formatEnvValue(value, entry.quote);
+      this.nodes[index] = {
+        ...entry,
+        value,
+        quote: isQuote(written[0]) ? written[0] : undefined,
+        valueEnd: entry.valueStart + written.length,
+        raw: entry.raw.slice(0, entry.valueStart) + written + entry.raw.slice(entry.valueEnd),
+      };
+      return;
+    }
+
+    const written = formatEnvValue(value);
+    const entry: EnvEntry = {
+      type: "entry",
+      key,
+      value,
+      exported: false,
+      quote: isQuote(written[0]) ? written[0] : undefined,
+      valueStart: key.length + 1,
+      valueEnd: key.length + 1 + written.length,
+      raw: `${key}=${written}`,
+      newline: this.eol,
+    };
+
+    const after = position.after !== undefined ? this.findEntry(position.after) : -1;
+    const before = position.before !== undefined ? this.findEntry(position.before) : -1;
+    if (after !== -1) {
+      this.insert(after + 1, entry);
+    } else if (before !== -1) {
+      this.insert(before, entry);
+    } else {
+      this.insert(this.nodes.length, entry);
+    }
+  }
+
+  /**
+   * Remove every entry for a key. Comments around it are left alone.
+   */
+  delete(key: string): boolean {
+    return this.remove((node) => node.type === "entry" && node.key === key) > 0;
+  }
+
+  /**
+   * Make the document hold exactly `values`: changed keys are rewritten,
+   * removed keys deleted, and new keys placed next to the keys that surround
+   * them in `order` (such as the other side of a merge), where possible.
+   */
+  update(values: Map<string, string>, order?: EnvDocument): void {
+    for (const key of this.keys()) {
+      if (!values.has(key)) {
+        this.delete(key);
+      }
+    }
+
+    const orderKeys = order?.keys() ?? [];
+    for (const [key, value] of values) {
+      if (this.has(key)) {
+        this.set(key, value);
+        continue;
+      }
+
+      const at = orderKeys.indexOf(key);
+      const after = orderKeys
+        .slice(0, Math.max(at, 0))
+        .reverse()
+        .find((candidate) => this.has(candidate));
+      const before =
+        at === -1 ? undefined : orderKeys.slice(at + 1).find((candidate) => this.has(candidate));
+      this.set(key, value, { after, before });
+    }
+  }
+
+  /**
+   * Problems in the file as written: keys set more than once, lines that
+   * aren't assignments, quotes that never close, whitespace around `=`, and
+   * keys that aren't valid variable names.
+   */
+  diagnostics(): EnvDiagnostic[] {
+    const diagnostics: EnvDiagnostic[] = [];
+    const lastLines = new Map<string, number>();
+    const located: { node: EnvNode; line: number }[] = [];
+
+    let line = 1;
+    for (const node of this.nodes) {
+      located.push({ node, line });
+      if (node.type === "entry") {
+        lastLines.set(node.key, line);
+      }
+      line += node.raw.split("\n").length - 1 + (node.newline ? 1 : 0);
+    }
+
+    for (const { node, line } of located) {
+      if (node.type === "invalid") {
+        diagnostics.push({
+          line,
+          column: node.raw.length - node.raw.trimStart().length + 1,
+          severity: "error",
+          code: "malformed-line",
+          message: "Expected KEY=value; the line is ignored",
+          fixable: false,
+        });
+      }
+      if (node.type !== "entry") {
+        continue;
+      }
+
+      const { eq, keyStart } = locateKey(node);
+      if (!KEY_NAME.test(node.key)) {
+        diagnostics.push({
+          line,
+          column: keyStart + 1,
+          severity: "error",
+          code: "invalid-key",
+          message: `Invalid key "${node.key}": use letters, digits and underscores, not starting with a digit`,
+          fixable: false,
+        });
+      }
+
+      const lastLine = lastLines.get(node.key)!;
+      if (lastLine !== line) {
+        diagnostics.push({
+          line,
+          column: keyStart + 1,
+          severity: "warning",
+          code: "duplicate-key",
+          message: `Duplicate key ${node.key}: overridden on line ${lastLine}`,
+          fixable: true,
+        });
+      }
+
+      if (withoutSpacing(node)) {
+        diagnostics.push({
+          line,
+          column: eq + 1,
+          severity: "warning",
+          code: "spaces-around-equals",
+          message: "Whitespace around =",
+          fixable: true,
+        });
+      }
+
+      const opening = node.raw[node.valueStart];
+      if (!node.quote && isQuote(opening)) {
+        diagnostics.push({
+          line,
+          column: node.valueStart + 1,
+          severity: "error",
+          code: "unbalanced-quote",
+          message: `Unclosed ${opening} quote; the value is read as written, up to the end of the line`,
+          fixable: false,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Repair the fixable diagnostics: drop the overridden occurrences of
+   * duplicate keys and the whitespace around `=`. Values are unchanged.
+   * Returns the number of fixes made.
+   */
+  fix(): number {
+    let fixed = 0;
+    this.nodes = this.nodes.map((node) => {
+      const spaced = node.type === "entry" ? withoutSpacing(node) : null;
+      if (spaced) {
+        fixed++;
+      }
+      return spaced ?? node;
+    });
+
+    const kept = new Set(this.entries.map((entry) => this.findEntry(entry.key)));
+    fixed += this.remove((node, index) => node.type === "entry" && !kept.has(index));
+    return fixed;
+  }
+
+  toString(): string {
+    return this.nodes.map((node) => node.raw + node.newline).join("");
+  }
+
+  private findEntry(key: string): number {
+    return this.nodes.findLastIndex((node) => node.type === "entry" && node.key === key);
+  }
+
+  /**
+   * Remove the matching nodes, keeping the file's (missing) final newline.
+   */
+  private remove(predicate: (node: EnvNode, index: number) => boolean): number {
+    const last = this.nodes[this.nodes.length - 1];
+    const remaining = this.nodes.filter((node, index) => !predicate(node, index));
+    const removed = this.nodes.length - remaining.length;
+    if (removed === 0) {
+      return 0;
+    }
+
+    const newLast = remaining[remaining.length - 1];
+    if (last && newLast && newLast !== last) {
+      remaining[remaining.length - 1] = { ...newLast, newline: last.newline };
+    }
+    this.nodes = remaining;
+    return removed;
+  }
+
+  private insert(index: number, entry: EnvEntry): void {
+    const previous = this.nodes[index - 1];
+    if (index === this.nodes.length && previous) {
+      // The new line becomes the last one, so it takes over the final newline (or lack of one)
+      this.nodes[index - 1] = { ...previous, newline: previous.newline || this.eol };
+      entry = { ...entry, newline: previous.newline };
+    }
+    this.nodes.splice(index, 0, entry);
+  }
+}
@@ -1,6 +1,7 @@
 import { glob } from "glob";
 import { readFile, stat } from "node:fs/promises";
 import { join, posix } from "node:path";
+import { EnvDocument } from "./env-document.ts";
 import type { FileKind } from "../types/index.ts";
 
 export interface ProjectFile {
@@ -82,29 +83,7 @@ export async function discoverProjectFiles(
 }
 
 export function parseEnvFile(content: string): Map<string, string> {
-  const vars = new Map<string, string>();
-
-  for (const line of content.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("#")) continue;
-
-    const eqIndex = trimmed.indexOf("=");
-    if (eqIndex === -1) continue;
-
-    const key = trimmed.slice(0, eqIndex).trim();
-    let value = trimmed.slice(eqIndex + 1).trim();
-
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      value = value.slice(1, -1);
-    }
-
-    vars.set(key, value);
-  }
-
-  return vars;
+  return EnvDocument.parse(content).toMap();
 }
 
 export function diffEnvFiles(
@@ -131,48 +110,3 @@ export function diffEnvFiles(
 
   return { added, removed, changed };
 }
-
-/**
- * Serialize a Map of env variables back to env file format.
- * Values containing spaces or special characters are quoted.
- */
-export function serializeEnvFile(vars: Map<string, string>): string {
-  const lines: string[] = [];
-
-  // Sort keys for consistent output
-  const sortedKeys = Array.from(vars.keys()).sort();
-
-  for (const key of sortedKeys) {
-    const value = vars.get(key)!;
-    const formattedValue = formatEnvValue(value);
-    lines.push(`${key}=${formattedValue}`);
-  }
-
-  return lines.join("\n") + "\n";
-}
-
-/**
- * Format a value for env file output.
- * Quotes values that contain spaces, quotes, or special characters.
- */
-function formatEnvValue(value: string): string {
-  // Check if value needs quoting
-  const needsQuoting =
-    value.includes(" ") ||
-    value.includes('"') ||
-    value.includes("'") ||
-    value.includes("#") ||
-    value.includes("$") ||
-    value.includes("\n") ||
-    value.includes("\\") ||
-    value === "";
-
-  if (!needsQuoting) {
-    return value;
-  }
-
-  // Use double quotes and escape internal double quotes and backslashes
-  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
-
-  return `"${escaped}"`;
-}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+
+describe("FilesystemBackend", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-fs-backend-"));
+    storage = new FilesystemBackend(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should round-trip uploaded objects", async () => {
+    await storage.upload("users/u1/projects/app/files/.env.enc", "secret");
+
+    const data = await storage.download("users/u1/projects/app/files/.env.enc");
+    expect(data.toString("utf-8")).toBe("secret");
+  });
+
+  it("should round-trip JSON objects", async () => {
+    await storage.uploadJson("users/u1/projects/app/manifest.json", { version: 1, files: [] });
+
+    const manifest = await storage.downloadJson<{ version: number }>(
+      "users/u1/projects/app/manifest.json"
+    );
+    expect(manifest.version).toBe(1);
+  });
+
+  it("should reject downloads of missing objects", async () => {
+    await expect(storage.download("users/u1/missing.json")).rejects.toThrow("Object not found");
+  });
+
+  it("should report existence", async () => {
+    await storage.upload("users/u1/index.json", "{}");
+
+    expect(await storage.exists("users/u1/index.json")).toBe(true);
+    expect(await storage.exists("users/u1/other.json")).toBe(false);
+    expect(await storage.exists("users/u1")).toBe(false);
+  });
+
+  it("should list keys by prefix", async () => {
+    await storage.upload("users/u1/projects/app/manifest.json", "{}");
+    await storage.upload("users/u1/projects/app/files/.env.enc", "a");
+    await storage.upload("users/u1/projects/application/manifest.json", "{}");
+    await storage.upload("users/u2/projects/app/manifest.json", "{}");
+
+    expect(await storage.list("users/u1/projects/app/")).toEqual([
+      "users/u1/projects/app/files/.env.enc",
+      "users/u1/projects/app/manifest.json",
+    ]);
+    expect(await storage.list("users/u1/projects/app")).toHaveLength(3);
+    expect(await storage.list("users/u3/")).toEqual([]);
+  });
+
+  it("should delete objects and ignore missing ones", async () => {
+    await storage.upload("users/u1/index.json", "{}");
+
+    await storage.delete("users/u1/index.json");
+    await storage.delete("users/u1/index.json");
+
+    expect(await storage.exists("users/u1/index.json")).toBe(false);
+  });
+
+  it("should honour conditional writes", async () => {
+    await storage.upload("users/u1/index.json", "v1", undefined, { ifNoneMatch: "*" });
+    await expect(
+      storage.upload("users/u1/index.json", "v1b", undefined, { ifNoneMatch: "*" })
+    ).rejects.toThrow(PreconditionFailedError);
+
+    const current = await storage.downloadVersioned("users/u1/index.json");
+    expect(current?.data.toString("utf-8")).toBe("v1");
+
+    await storage.upload("users/u1/index.json", "v2", undefined, { ifMatch: current!.etag });
+    await expect(
+      storage.upload("users/u1/index.json", "v3", undefined, { ifMatch: current!.etag })
+    ).rejects.toThrow(PreconditionFailedError);
+
+    expect(await storage.downloadVersioned("users/u1/missing.json")).toBeNull();
+  });
+
+  it("should reject keys escaping the root", async () => {
+    await expect(storage.upload("../outside.json", "{}")).rejects.toThrow("Invalid storage key");
+  });
+
+  it("should test the connection against the root directory", async () => {
+    expect(await storage.testConnection()).toBe(true);
+    expect(await new FilesystemBackend(join(root, "missing")).testConnection()).toBe(false);
+  });
+});
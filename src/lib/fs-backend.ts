@@ -0,0 +1,212 @@
+import { access, open, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import { constants } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+import { createHash, randomBytes } from "node:crypto";
+import { ensureParentDir } from "./fs-utils.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+import type { StorageBackend, UploadOptions, VersionedObject } from "./storage.ts";
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * Stores objects as plain files under a root directory, mirroring the
+ * object-key layout used by the remote backends. Works on local disks as
+ * well as NFS/SMB mounts shared between machines.
+ */
+export class FilesystemBackend implements StorageBackend {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async upload(
+    key: string,
+    data: string | Buffer,
+    _contentType?: string,
+    options: UploadOptions = {}
+  ): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await ensureParentDir(filePath);
+
+    if (options.ifMatch === undefined && options.ifNoneMatch === undefined) {
+      await this.writeAtomic(filePath, data);
+      return;
+    }
+
+    // Conditional writes hold an exclusive lock so the check and the write are atomic
+    await this.withLock(filePath, async () => {
+      const current = await this.readIfExists(filePath);
+
+      if (options.ifNoneMatch === "*" && current !== null) {
+        throw new PreconditionFailedError(key);
+      }
+      if (
+        options.ifMatch !== undefined &&
+        (current === null || etagOf(current) !== options.ifMatch)
+      ) {
+        throw new PreconditionFailedError(key);
+      }
+
+      await this.writeAtomic(filePath, data);
+    });
+  }
+
+  async download(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`Object not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async downloadVersioned(key: string): Promise<VersionedObject | null> {
+    const data = await this.readIfExists(this.resolveKey(key));
+    return data === null ? null : { data, etag: etagOf(data) };
+  }
+
+  async downloadJson<T>(key: string): Promise<T> {
+    const data = await this.download(key);
+    return JSON.parse(data.toString("utf-8")) as T;
+  }
+
+  async uploadJson<T>(key: string, data: T, options?: UploadOptions): Promise<void> {
+    await this.upload(key, JSON.stringify(data, null, 2), "application/json", options);
+  }
+
+  async delete(key: string): Promise<void> {
+    // Like S3, deleting a missing object is not an error
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stats = await stat(this.resolveKey(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Only walk the deepest directory fully covered by the prefix
+    const slashIndex = prefix.lastIndexOf("/");
+    const dirKey = slashIndex >= 0 ? prefix.slice(0, slashIndex) : "";
+    const startDir = dirKey ? this.resolveKey(dirKey) : this.root;
+
+    let entries: string[];
+    try {
+      entries = await readdir(startDir, { recursive: true });
+    } catch {
+      return [];
+    }
+
+    const keys: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.endsWith(".tmp") || entry.endsWith(".lock")) continue;
+
+      const fullPath = join(startDir, entry);
+      const key = relative(this.root, fullPath).split(sep).join("/");
+      if (!key.startsWith(prefix)) continue;
+
+      try {
+        if ((await stat(fullPath)).isFile()) {
+          keys.push(key);
+        }
+      } catch {
+        // Removed while listing
+      }
+    }
+
+    return keys.sort();
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await access(this.root, constants.R_OK | constants.W_OK);
+      return (await stat(this.root)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private async writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    // Write to a temporary file first so readers never observe a partial object
+    const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+    try {
+      await writeFile(tempPath, data);
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async readIfExists(filePath: string): Promise<Buffer | null> {
+    try {
+      return await readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async withLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        // O_EXCL creation is atomic on local filesystems and NFSv3+
+        const handle = await open(lockPath, "wx");
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+
+        try {
+          const lockStats = await stat(lockPath);
+          if (Date.now() - lockStats.mtimeMs > STALE_LOCK_MS) {
+            await rm(lockPath, { force: true });
+            continue;
+          }
+        } catch {
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for lock on ${filePath}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.root, ...key.split("/"));
+    if (filePath !== this.root && !filePath.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+function etagOf(data: Buffer): string {
+  return `"${createHash("sha256").update(data).digest("hex")}"`;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { generateMasterKey } from "./crypto.ts";
+import { openProjectKeyRing } from "./project-keys.ts";
+import type { MemberIdentity, ProjectKeyRing } from "./project-keys.ts";
+import { generateIdentityKeys, getIdentity } from "./identity.ts";
+import {
+  appendHistory,
+  createRevisionId,
+  findPreviousUpload,
+  findRevision,
+  getFileHistory,
+  getRevisionsAt,
+  loadHistory,
+  verifyHistoryEntry,
+} from "./history.ts";
+import type { HistoryEntry, ProjectRef } from "../types/index.ts";
+
+async function testIdentity(): Promise<MemberIdentity> {
+  return (await getIdentity("u1", { projects: {}, identity: await generateIdentityKeys() }))!;
+}
+
+function upload(file: string, revision: string): HistoryEntry {
+  return { file, action: "upload", revision, createdAt: "2025-01-01T00:00:00.000Z" };
+}
+
+describe("createRevisionId", () => {
+  it("should sort chronologically", () => {
+    const earlier = createRevisionId(new Date("2025-01-01T10:00:00.000Z"));
+    const later = createRevisionId(new Date("2025-01-01T10:00:00.001Z"));
+
+    expect(earlier.startsWith("20250101T100000000Z-")).toBe(true);
+    expect(earlier < later).toBe(true);
+  });
+});
+
+describe("project history", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let masterKey: Uint8Array;
+  let keyRing: ProjectKeyRing;
+  const project: ProjectRef = { name: "app", id: "app", root: "users/u1/projects/app" };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-history-"));
+    storage = new FilesystemBackend(root);
+    masterKey = await generateMasterKey();
+    keyRing = await openProjectKeyRing(storage, project, masterKey, {
+      create: true,
+      identity: await testIdentity(),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should append entries and list them newest first", async () => {
+    await appendHistory(storage, project, keyRing, [upload(".env", "r1")]);
+    await appendHistory(storage, project, keyRing, [
+      upload(".env.local", "r2"),
+      upload(".env", "r3"),
+    ]);
+
+    const history = await loadHistory(storage, project, keyRing);
+
+    expect(getFileHistory(history).map((e) => e.revision)).toEqual(["r3", "r2", "r1"]);
+    expect(getFileHistory(history, ".env").map((e) => e.revision)).toEqual(["r3", "r1"]);
+  });
+
+  it("should only trust entries signed by someone allowed to write", async () => {
+    await appendHistory(storage, project, keyRing, [upload(".env", "r1")]);
+    const forger = await openProjectKeyRing(storage, project, masterKey, {
+      identity: await testIdentity(),
+    });
+    await appendHistory(storage, project, forger, [upload(".env", "r2")]);
+
+    const [signed, forged] = (await loadHistory(storage, project, keyRing)).entries;
+    await expect(verifyHistoryEntry(keyRing, signed!)).resolves.toBeUndefined();
+    await expect(verifyHistoryEntry(keyRing, forged!)).rejects.toThrow("may have been forged");
+    await expect(verifyHistoryEntry(keyRing, { ...signed!, objectId: "swapped" })).rejects.toThrow(
+      "not signed by a project writer"
+    );
+    await expect(verifyHistoryEntry(keyRing, upload(".env", "r3"))).rejects.toThrow(
+      "not signed by a project writer"
+    );
+  });
+
+  it("should find the previous upload of the same file", async () => {
+    await appendHistory(storage, project, keyRing, [
+      upload(".env", "r1"),
+      upload(".env.local", "r2"),
+      upload(".env", "r3"),
+      { file: ".env", action: "delete", createdAt: "2025-01-02T00:00:00.000Z" },
+      upload(".env", "r4"),
+    ]);
+
+    const history = await loadHistory(storage, project, keyRing);
+    const [r1, , r3, , r4] = history.entries;
+
+    expect(findPreviousUpload(history, r3!)?.revision).toBe("r1");
+    expect(findPreviousUpload(history, r1!)).toBeNull();
+    expect(findPreviousUpload(history, r4!)).toBeNull();
+  });
+
+  it("should reconstruct the revisions current at a point in time", async () => {
+    await appendHistory(storage, project, keyRing, [
+      { ...upload(".env", "r1"), createdAt: "2025-01-01T00:00:00.000Z" },
+      { ...upload(".env.local", "r2"), createdAt: "2025-01-02T00:00:00.000Z" },
+      { ...upload(".env", "r3"), createdAt: "2025-01-03T00:00:00.000Z" },
+      { file: ".env.local", action: "delete", createdAt: "2025-01-04T00:00:00.000Z" },
+    ]);
+
+    const history = await loadHistory(storage, project, keyRing);
+    const revisionsAt = (at: string) =>
+      Object.fromEntries(
+        [...getRevisionsAt(history, new Date(at))].map(([file, e]) => [file, e.revision])
+      );
+
+    expect(revisionsAt("2024-12-31T00:00:00.000Z")).toEqual({});
+    expect(revisionsAt("2025-01-02T12:00:00.000Z")).toEqual({ ".env": "r1", ".env.local": "r2" });
+    expect(revisionsAt("2025-01-05T00:00:00.000Z")).toEqual({ ".env": "r3" });
+
+    expect(findRevision(history, ".env", "r1")?.createdAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(findRevision(history, ".env", "r2")).toBeNull();
+  });
+});
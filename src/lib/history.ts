@@ -0,0 +1,183 @@
+import { randomBytes } from "node:crypto";
+import type { EncryptedData, HistoryEntry, ProjectHistory, ProjectRef } from "../types/index.ts";
+import { isSealed } from "./project-keys.ts";
+import type { ProjectKeyRing } from "./project-keys.ts";
+import type { StorageBackend } from "./storage.ts";
+import { getHistoryPath, getObjectPath, getWriteConditions } from "./storage.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+
+const MAX_APPEND_ATTEMPTS = 5;
+const HISTORY_LABEL = "history";
+const HISTORY_ENTRY_LABEL = "history-entry";
+
+/**
+ * Create a revision ID that sorts chronologically, e.g. 20250112T101530123Z-1a2b3c
+ */
+export function createRevisionId(date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[-:.]/g, "");
+  return `${timestamp}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Upload encrypted content as a new immutable revision. The object is stored
+ * under a random ID so its key doesn't reveal which file it belongs to.
+ */
+export async function uploadRevision(
+  storage: StorageBackend,
+  root: string,
+  encrypted: EncryptedData
+): Promise<{ revision: string; objectId: string }> {
+  const revision = createRevisionId();
+  const objectId = randomBytes(16).toString("hex");
+  await storage.uploadJson(getObjectPath(root, objectId), encrypted);
+  return { revision, objectId };
+}
+
+async function parseHistory(data: Buffer, keyRing: ProjectKeyRing): Promise<ProjectHistory> {
+  const stored = JSON.parse(data.toString("utf-8")) as unknown;
+  return isSealed(stored)
+    ? keyRing.open<ProjectHistory>(HISTORY_LABEL, stored)
+    : (stored as ProjectHistory);
+}
+
+export async function loadHistory(
+  storage: StorageBackend,
+  project: ProjectRef,
+  keyRing: ProjectKeyRing
+): Promise<ProjectHistory> {
+  const object = await storage.downloadVersioned(getHistoryPath(project.root));
+  if (!object) {
+    return { version: 1, projectName: project.name, entries: [] };
+  }
+  return parseHistory(object.data, keyRing);
+}
+
+/**
+ * Append entries to the project history log, retrying if another machine
+ * appended at the same time. Each entry is signed by the user recording it:
+ * the log is sealed with the data key, which readers hold too.
+ */
+export async function appendHistory(
+  storage: StorageBackend,
+  project: ProjectRef,
+  keyRing: ProjectKeyRing,
+  entries: HistoryEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const historyPath = getHistoryPath(project.root);
+  const signed: HistoryEntry[] = [];
+  for (const entry of entries) {
+    signed.push({ ...entry, ...(await keyRing.sign(HISTORY_ENTRY_LABEL, entry)) });
+  }
+
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const object = await storage.downloadVersioned(historyPath);
+    const history: ProjectHistory = object
+      ? await parseHistory(object.data, keyRing)
+      : { version: 1, projectName: project.name, entries: [] };
+
+    history.entries.push(...signed);
+
+    try {
+      await storage.uploadJson(
+        historyPath,
+        await keyRing.seal(HISTORY_LABEL, history),
+        getWriteConditions(historyPath, object)
+      );
+      return;
+    } catch (error) {
+      if (!(error instanceof PreconditionFailedError)) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("History log kept changing. Please try again.");
+}
+
+/**
+ * Check that a history entry was recorded by someone allowed to write, before
+ * trusting its revision, object and hash (e.g. to restore it).
+ */
+export async function verifyHistoryEntry(
+  keyRing: ProjectKeyRing,
+  entry: HistoryEntry
+): Promise<void> {
+  const { signedBy, signature, ...fields } = entry;
+  const valid =
+    signedBy !== undefined &&
+    signature !== undefined &&
+    (await keyRing.isSignedByWriter(HISTORY_ENTRY_LABEL, fields, signedBy, signature));
+  if (!valid) {
+    throw new Error(
+      `History entry for ${entry.file} (${entry.revision ?? entry.action}) is not signed by a ` +
+        "project writer. It may have been forged."
+    );
+  }
+}
+
+/**
+ * Return history entries for one file (or all files), newest first.
+ * Entries are appended in commit order, so the log order is authoritative.
+ */
+export function getFileHistory(history: ProjectHistory, fileName?: string): HistoryEntry[] {
+  return history.entries.filter((entry) => !fileName || entry.file === fileName).reverse();
+}
+
+/**
+ * Find the upload that preceded an entry for the same file, or null if the
+ * file didn't exist before (first upload or re-created after a delete).
+ */
+export function findPreviousUpload(
+  history: ProjectHistory,
+  entry: HistoryEntry
+): HistoryEntry | null {
+  const index = history.entries.indexOf(entry);
+
+  for (let i = index - 1; i >= 0; i--) {
+    const candidate = history.entries[i]!;
+    if (candidate.file !== entry.file) continue;
+    return candidate.action === "upload" ? candidate : null;
+  }
+
+  return null;
+}
+
+/**
+ * Find the upload entry for a specific revision of a file.
+ */
+export function findRevision(
+  history: ProjectHistory,
+  fileName: string,
+  revision: string
+): HistoryEntry | null {
+  return (
+    history.entries.find(
+      (entry) => entry.file === fileName && entry.action === "upload" && entry.revision === revision
+    ) ?? null
+  );
+}
+
+/**
+ * Reconstruct which revision of each file was current at a point in time.
+ * Files that didn't exist (or had been deleted) at that time are omitted.
+ */
+export function getRevisionsAt(history: ProjectHistory, at: Date): Map<string, HistoryEntry> {
+  const state = new Map<string, HistoryEntry>();
+  const cutoff = at.getTime();
+
+  for (const entry of history.entries) {
+    if (new Date(entry.createdAt).getTime() > cutoff) continue;
+
+    if (entry.action === "upload" && entry.revision) {
+      state.set(entry.file, entry);
+    } else {
+      state.delete(entry.file);
+    }
+  }
+
+  return state;
+}
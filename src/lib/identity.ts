@@ -0,0 +1,297 @@
+import { createHash } from "node:crypto";
+import {
+  decodeKey,
+  decodePublicKey,
+  decodeSigningKey,
+  encodeKey,
+  generateBoxKeyPair,
+  generateSigningKeyPair,
+  openSealedBox,
+  sealToPublicKey,
+  signMessage,
+  verifySignature,
+} from "./crypto.ts";
+import { updateUserIndexPayload } from "./master-key.ts";
+import { getDirectoryPath, getInboxPath, getWriteConditions } from "./storage.ts";
+import type { MemberIdentity } from "./project-keys.ts";
+import type { StorageBackend } from "./storage.ts";
+import type { DirectoryEntry, ShareNotice, UserIndexPayload } from "../types/index.ts";
+
+export function hashEmail(email: string): string {
+  return createHash("sha256").update(email.trim().toLowerCase()).digest("hex");
+}
+
+/**
+ * What a directory entry's signature covers: the email it is filed under, so
+ * it can't be copied to another address, and the keys it publishes.
+ */
+function directoryMessage(emailHash: string, entry: DirectoryEntry): string {
+  return JSON.stringify([
+    "pss-directory",
+    emailHash,
+    entry.userId,
+    entry.publicKey,
+    entry.signPublicKey,
+  ]);
+}
+
+async function isSignedEntry(emailHash: string, entry: DirectoryEntry): Promise<boolean> {
+  if (!entry.signPublicKey || !entry.signature) {
+    return false;
+  }
+  return verifySignature(
+    entry.signature,
+    directoryMessage(emailHash, entry),
+    await decodeSigningKey(entry.signPublicKey, "public")
+  );
+}
+
+/**
+ * Decode the identity key pairs kept in the user index, if they were created.
+ * Identities from before signing keys existed count as missing.
+ */
+export async function getIdentity(
+  userId: string,
+  payload: UserIndexPayload
+): Promise<MemberIdentity | null> {
+  const stored = payload.identity;
+  if (!stored?.signPublicKey || !stored.signSecretKey) {
+    return null;
+  }
+  return {
+    userId,
+    publicKey: await decodePublicKey(stored.publicKey),
+    secretKey: await decodeKey(stored.secretKey),
+    signPublicKey: await decodeSigningKey(stored.signPublicKey, "public"),
+    signSecretKey: await decodeSigningKey(stored.signSecretKey, "secret"),
+  };
+}
+
+/**
+ * New identity key pairs, encoded for the user index.
+ */
+export async function generateIdentityKeys(): Promise<NonNullable<UserIndexPayload["identity"]>> {
+  const box = await generateBoxKeyPair();
+  const signing = await generateSigningKeyPair();
+  return {
+    publicKey: await encodeKey(box.publicKey),
+    secretKey: await encodeKey(box.secretKey),
+    signPublicKey: await encodeKey(signing.publicKey),
+    signSecretKey: await encodeKey(signing.secretKey),
+  };
+}
+
+/**
+ * The user's identity key pairs, created on first use. They are kept in the
+ * encrypted user index, so every machine with the master key has them.
+ */
+export async function loadIdentity(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array
+): Promise<MemberIdentity> {
+  const generated = await generateIdentityKeys();
+  const payload = await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    if (current.identity?.signSecretKey) {
+      return null;
+    }
+    // Keep an existing encryption key pair; keys already sealed to it stay readable
+    return { ...current, identity: { ...generated, ...current.identity } };
+  });
+  return (await getIdentity(userId, payload))!;
+}
+
+/**
+ * Make sure the user has an identity and that its public keys are published
+ * in the directory, so others can share projects with them. Entries are
+ * signed and never replaced once signed: one already published for the email
+ * under other keys is reported instead. Unsigned entries from older versions
+ * are replaced.
+ */
+export async function ensureIdentity(
+  storage: StorageBackend,
+  userId: string,
+  email: string,
+  masterKey: Uint8Array
+): Promise<MemberIdentity> {
+  const identity = await loadIdentity(storage, userId, masterKey);
+  const emailHash = hashEmail(email);
+  const path = getDirectoryPath(emailHash);
+  const unsigned: DirectoryEntry = {
+    version: 1,
+    userId,
+    publicKey: await encodeKey(identity.publicKey),
+    signPublicKey: await encodeKey(identity.signPublicKey),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const object = await storage.downloadVersioned(path);
+  const published = object ? (JSON.parse(object.data.toString("utf-8")) as DirectoryEntry) : null;
+  if (published && (await isSignedEntry(emailHash, published))) {
+    if (
+      published.userId !== userId ||
+      published.publicKey !== unsigned.publicKey ||
+      published.signPublicKey !== unsigned.signPublicKey
+    ) {
+      throw new Error(
+        `Other keys are already published for ${email}. If they aren't yours, someone with ` +
+          `access to the bucket claimed the address; if they are, remove ${path} and log in again.`
+      );
+    }
+    return identity;
+  }
+
+  const entry: DirectoryEntry = {
+    ...unsigned,
+    signature: await signMessage(directoryMessage(emailHash, unsigned), identity.signSecretKey),
+  };
+  await storage.uploadJson(path, entry, getWriteConditions(path, object));
+  return identity;
+}
+
+/**
+ * The keys published for an email, or null if there are none. Entries that
+ * aren't signed by the keys they publish are refused.
+ */
+export async function lookupMember(
+  storage: StorageBackend,
+  email: string
+): Promise<DirectoryEntry | null> {
+  const emailHash = hashEmail(email);
+  const object = await storage.downloadVersioned(getDirectoryPath(emailHash));
+  if (!object) {
+    return null;
+  }
+  const entry = JSON.parse(object.data.toString("utf-8")) as DirectoryEntry;
+  if (!(await isSignedEntry(emailHash, entry))) {
+    throw new Error(`${email} needs to run 'pss login' again before projects can be shared`);
+  }
+  return entry;
+}
+
+/**
+ * Remember the keys of someone projects are shared with the first time, in
+ * the user index, and refuse keys that differ from them later: a directory
+ * entry replaced in the bucket would otherwise get the next share.
+ */
+export async function pinMember(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  email: string,
+  entry: DirectoryEntry
+): Promise<void> {
+  const emailHash = hashEmail(email);
+  const keys = { userId: entry.userId, signPublicKey: entry.signPublicKey! };
+  await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    const pinned = current.contacts?.[emailHash];
+    if (pinned) {
+      if (pinned.userId !== keys.userId || pinned.signPublicKey !== keys.signPublicKey) {
+        throw new Error(
+          `The keys published for ${email} changed since you first shared with them. ` +
+            "Check with them before sharing again."
+        );
+      }
+      return null;
+    }
+    return { ...current, contacts: { ...current.contacts, [emailHash]: keys } };
+  });
+}
+
+function shareNoticeMessage(recipientId: string, notice: ShareNotice): string {
+  return JSON.stringify([
+    "pss-share-notice",
+    recipientId,
+    notice.projectId,
+    notice.projectName,
+    notice.sharedBy,
+    notice.signedBy,
+  ]);
+}
+
+/**
+ * Tell a member about a project shared with them. The notice is encrypted to
+ * their public key, so the project name isn't visible in the bucket, and
+ * signed by the sharer, since anyone can seal a notice to a public key.
+ */
+export async function sendShareNotice(
+  storage: StorageBackend,
+  recipient: DirectoryEntry,
+  notice: Pick<ShareNotice, "projectId" | "projectName" | "sharedBy">,
+  sharer: MemberIdentity
+): Promise<void> {
+  const unsigned: ShareNotice = { ...notice, signedBy: sharer.userId };
+  const signed: ShareNotice = {
+    ...unsigned,
+    signature: await signMessage(
+      shareNoticeMessage(recipient.userId, unsigned),
+      sharer.signSecretKey
+    ),
+  };
+  const sealed = await sealToPublicKey(
+    JSON.stringify(signed),
+    await decodePublicKey(recipient.publicKey)
+  );
+  await storage.uploadJson(getInboxPath(recipient.userId, notice.projectId), { sealed });
+}
+
+/**
+ * Check that a notice was signed by the person it names, with the keys they
+ * published in the directory, and pin those keys like `pinMember` does.
+ * Returns the sharer's directory entry.
+ */
+export async function verifyShareNotice(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  notice: ShareNotice
+): Promise<DirectoryEntry> {
+  const sharer = notice.signedBy ? await lookupMember(storage, notice.sharedBy) : null;
+  const valid =
+    sharer !== null &&
+    sharer.userId === notice.signedBy &&
+    (await verifySignature(
+      notice.signature ?? "",
+      shareNoticeMessage(userId, notice),
+      await decodeSigningKey(sharer.signPublicKey!, "public")
+    ));
+  if (!valid) {
+    throw new Error(
+      `The invitation to "${notice.projectName}" isn't signed by ${notice.sharedBy}. ` +
+        "It may have been planted in the bucket; ask them to share it again."
+    );
+  }
+  await pinMember(storage, userId, masterKey, notice.sharedBy, sharer);
+  return sharer;
+}
+
+export async function removeShareNotice(
+  storage: StorageBackend,
+  userId: string,
+  projectId: string
+): Promise<void> {
+  await storage.delete(getInboxPath(userId, projectId));
+}
+
+/**
+ * Read the projects others have shared with this user. Notices that can't be
+ * opened (e.g. sealed to an old identity) are ignored.
+ */
+export async function readShareNotices(
+  storage: StorageBackend,
+  identity: MemberIdentity
+): Promise<ShareNotice[]> {
+  const notices: ShareNotice[] = [];
+
+  for (const key of await storage.list(getInboxPath(identity.userId))) {
+    try {
+      const { sealed } = await storage.downloadJson<{ sealed: string }>(key);
+      const json = await openSealedBox(sealed, identity.publicKey, identity.secretKey);
+      notices.push(JSON.parse(json) as ShareNotice);
+    } catch {
+      // Not readable with this identity
+    }
+  }
+
+  return notices;
+}
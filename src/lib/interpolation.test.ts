@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { expandEnvFiles, findReferenceProblems, getEnvironmentSources } from "./interpolation.ts";
+
+function expand(content: string, environment: Record<string, string> = {}) {
+  const { values, problems } = expandEnvFiles([{ name: ".env", content }], environment);
+  return { values: Object.fromEntries(values), problems };
+}
+
+describe("expandEnvFiles", () => {
+  it("should expand references in any order, leaving single-quoted values and escapes alone", () => {
+    const { values, problems } = expand(
+      [
+        "URL=http://${HOST}:$PORT/db",
+        "HOST=localhost",
+        "PORT=5432",
+        "LITERAL='${HOST}'",
+        'PRICE="$$5 and \\$6"',
+        "PARTIAL=$-${}",
+      ].join("\n")
+    );
+
+    expect(problems).toEqual([]);
+    expect(values).toEqual({
+      URL: "http://localhost:5432/db",
+      HOST: "localhost",
+      PORT: "5432",
+      LITERAL: "${HOST}",
+      PRICE: "$5 and $6",
+      PARTIAL: "$-${}",
+    });
+  });
+
+  it("should support default, alternative and required forms", () => {
+    const { values, problems } = expand(
+      [
+        "EMPTY=",
+        "SET=x",
+        "A=${MISSING:-fallback ${SET}}",
+        "B=${EMPTY:-empty}",
+        "C=${EMPTY-kept}",
+        "D=${SET:+alt}",
+        "E=${MISSING:+alt}",
+        "F=${MISSING:?must be set}",
+        "G=${EMPTY?}",
+        "H=${MISSING?}",
+      ].join("\n")
+    );
+
+    expect(values).toMatchObject({
+      A: "fallback x",
+      B: "empty",
+      C: "",
+      D: "alt",
+      E: "",
+      F: "",
+      G: "",
+      H: "",
+    });
+    expect(problems).toEqual([
+      { kind: "required", file: ".env", key: "F", message: "F in .env needs MISSING: must be set" },
+      { kind: "required", file: ".env", key: "H", message: "H in .env needs MISSING" },
+    ]);
+  });
+
+  it("should report undefined references unless the environment provides them", () => {
+    expect(expand("A=$HOME/x\nB=${NOPE}").problems.map((problem) => problem.message)).toEqual([
+      "A in .env refers to undefined variable HOME",
+      "B in .env refers to undefined variable NOPE",
+    ]);
+    expect(expand("A=$HOME/x", { HOME: "/home/me" })).toEqual({
+      values: { A: "/home/me/x" },
+      problems: [],
+    });
+  });
+
+  it("should report cycles once, with their path, and keep going", () => {
+    const { values, problems } = expand("A=${B}\nB=x${C}\nC=$A\nSELF=$SELF\nOK=fine");
+
+    expect(problems).toEqual([
+      {
+        kind: "cycle",
+        file: ".env",
+        key: "A",
+        message: "Circular reference in .env: A -> B -> C -> A",
+      },
+      {
+        kind: "cycle",
+        file: ".env",
+        key: "SELF",
+        message: "Circular reference in .env: SELF -> SELF",
+      },
+    ]);
+    expect(values.OK).toBe("fine");
+  });
+
+  it("should resolve across files, preferring the same file and then later files", () => {
+    const { values, problems } = expandEnvFiles([
+      { name: ".env", content: "HOST=base\nURL=http://$HOST\nNAME=app\n" },
+      { name: ".env.local", content: "HOST=local\nLABEL=$NAME@$HOST\n" },
+      { name: "api/.env", content: "API=$URL/api\nHOST=api\n" },
+    ]);
+
+    expect(problems).toEqual([]);
+    expect(values.get("URL")).toBe("http://base");
+    expect(values.get("LABEL")).toBe("app@local");
+    expect(values.get("API")).toBe("http://base/api");
+    expect(values.get("HOST")).toBe("api");
+  });
+
+  it("should only resolve references within each environment's layers", () => {
+    const sources = [
+      { name: ".env", content: "HOST=base\n" },
+      { name: ".env.development", content: "URL=http://$HOST/$API_KEY\n" },
+      { name: ".env.production", content: "API_KEY=prod-key\n" },
+      { name: ".env.production.local", content: "URL=http://$HOST/$API_KEY\n" },
+      { name: "api/.env", content: "NAME=$HOST\n" },
+    ];
+
+    expect(getEnvironmentSources(sources, ".env.production.local").map((s) => s.name)).toEqual([
+      ".env",
+      ".env.production",
+      ".env.production.local",
+    ]);
+    expect(findReferenceProblems(sources).map((problem) => problem.message)).toEqual([
+      "URL in .env.development refers to undefined variable API_KEY",
+      "NAME in api/.env refers to undefined variable HOST",
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+import { EnvDocument } from "./env-document.ts";
+import { getBaseLayers } from "./schema.ts";
+import type { EnvEntry } from "./env-document.ts";
+
+/**
+ * Something wrong with a reference, found while expanding:
+ * - undefined: `${NAME}` where no file (or environment) defines NAME
+ * - required: `${NAME:?message}` or `${NAME?message}` with NAME unset
+ * - cycle: variables that refer to each other
+ */
+export interface InterpolationProblem {
+  kind: "undefined" | "required" | "cycle";
+  file: string;
+  key: string;
+  message: string;
+}
+
+export interface InterpolationResult {
+  /** Every variable, expanded; a key defined in several files takes the last file's value */
+  values: Map<string, string>;
+  problems: InterpolationProblem[];
+}
+
+export interface EnvSource {
+  name: string;
+  content: string;
+}
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+const OPERATORS = [":-", ":?", ":+", "-", "?", "+"] as const;
+
+interface Definition {
+  file: number;
+  entry: EnvEntry;
+}
+
+/**
+ * Expand `${NAME}` references the way docker-compose does, across the env
+ * files of one environment, lowest layer first (see getEnvironmentSources):
+ * - `$NAME` and `${NAME}`; `$$` and `\$` give a literal `$`
+ * - `${NAME:-default}` / `${NAME-default}` when NAME is unset (or empty, with `:`)
+ * - `${NAME:?message}` / `${NAME?message}` report a problem when NAME is unset
+ * - `${NAME:+other}` / `${NAME+other}` when NAME is set
+ * - single-quoted values are left alone
+ * A reference resolves to the variable in the same file, else to the last
+ * other file that defines it, else to `environment`.
+ */
+export function expandEnvFiles(
+  sources: EnvSource[],
+  environment: Record<string, string | undefined> = {}
+): InterpolationResult {
+  const files = sources.map((source) => {
+    const entries = new Map<string, EnvEntry>();
+    for (const entry of EnvDocument.parse(source.content).entries) {
+      entries.set(entry.key, entry);
+    }
+    return { name: source.name, entries };
+  });
+
+  const expanded = new Map<Definition["entry"], string>();
+  const stack: Definition[] = [];
+  const problems: InterpolationProblem[] = [];
+  const reported = new Set<string>();
+
+  const report = (problem: InterpolationProblem): void => {
+    if (!reported.has(problem.message)) {
+      reported.add(problem.message);
+      problems.push(problem);
+    }
+  };
+
+  const lookup = (from: number, name: string): Definition | null => {
+    const own = files[from]!.entries.get(name);
+    if (own) {
+      return { file: from, entry: own };
+    }
+    for (let file = files.length - 1; file >= 0; file--) {
+      const entry = files[file]!.entries.get(name);
+      if (entry) {
+        return { file, entry };
+      }
+    }
+    return null;
+  };
+
+  const resolve = (definition: Definition): string => {
+    const { file, entry } = definition;
+    const done = expanded.get(entry);
+    if (done !== undefined) {
+      return done;
+    }
+
+    const loopStart = stack.findIndex((item) => item.entry === entry);
+    if (loopStart !== -1) {
+      const path = [...stack.slice(loopStart), definition].map((item) => item.entry.key);
+      report({
+        kind: "cycle",
+        file: files[file]!.name,
+        key: entry.key,
+        message: `Circular reference in ${files[file]!.name}: ${path.join(" -> ")}`,
+      });
+      return "";
+    }
+
+    stack.push(definition);
+    const value =
+      entry.quote === "'"
+        ? entry.value
+        : substitute(
+            entry.value,
+            (name) => {
+              const target = lookup(file, name);
+              return target ? resolve(target) : environment[name];
+            },
+            (name, message) =>
+              report({
+                kind: message === undefined ? "undefined" : "required",
+                file: files[file]!.name,
+                key: entry.key,
+                message:
+                  message === undefined
+                    ? `${entry.key} in ${files[file]!.name} refers to undefined variable ${name}`
+                    : `${entry.key} in ${files[file]!.name} needs ${name}${message ? `: ${message}` : ""}`,
+              })
+          );
+    stack.pop();
+
+    expanded.set(entry, value);
+    return value;
+  };
+
+  const values = new Map<string, string>();
+  files.forEach((source, file) => {
+    for (const entry of source.entries.values()) {
+      values.set(entry.key, resolve({ file, entry }));
+    }
+  });
+
+  return { values, problems };
+}
+
+/**
+ * The files `fileName` is loaded with, the dotenv-flow way: the layers it
+ * overrides (see getBaseLayers) that are among `sources`, then the file itself.
+ */
+export function getEnvironmentSources(sources: EnvSource[], fileName: string): EnvSource[] {
+  const chain = [...getBaseLayers(fileName), fileName];
+  return chain.flatMap((name) => sources.find((source) => source.name === name) ?? []);
+}
+
+/**
+ * Check the references of every file against the files it is loaded with, so
+ * `.env.development` never resolves to a value only `.env.production` sets.
+ */
+export function findReferenceProblems(sources: EnvSource[]): InterpolationProblem[] {
+  const problems = new Map<string, InterpolationProblem>();
+  for (const source of sources) {
+    for (const problem of expandEnvFiles(getEnvironmentSources(sources, source.name)).problems) {
+      if (!problems.has(problem.message)) {
+        problems.set(problem.message, problem);
+      }
+    }
+  }
+  return [...problems.values()];
+}
+
+/**
+ * Replace the references in one value. `onProblem` gets the name and, for
+ * `?` references, the message (possibly empty); plain undefined references
+ * have no message.
+ */
+function substitute(
+  value: string,
+  get: (name: string) => string | undefined,
+  onProblem: (name: string, message?: string) => void
+): string {
+  let result = "";
+  let i = 0;
+
+  while (i < value.length) {
+    const char = value[i]!;
+    if ((char === "$" || char === "\\") && value[i + 1] === "$") {
+      result += "$";
+      i += 2;
+      continue;
+    }
+    if (char !== "$") {
+      result += char;
+      i++;
+      continue;
+    }
+
+    if (value[i + 1] === "{") {
+      const close = findClosingBrace(value, i + 2);
+      const name = NAME.exec(value.slice(i + 2))?.[0];
+      if (close === -1 || !name) {
+        result += char;
+        i++;
+        continue;
+      }
+
+      const rest = value.slice(i + 2 + name.length, close);
+      const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+      if (rest && !operator) {
+        // Not a reference we understand; keep it as written
+        result += value.slice(i, close + 1);
+        i = close + 1;
+        continue;
+      }
+
+      const word = operator ? rest.slice(operator.length) : "";
+      result += applyOperator(name, operator, word, get, onProblem);
+      i = close + 1;
+      continue;
+    }
+
+    const name = NAME.exec(value.slice(i + 1))?.[0];
+    if (!name) {
+      result += char;
+      i++;
+      continue;
+    }
+    const found = get(name);
+    if (found === undefined) {
+      onProblem(name);
+    }
+    result += found ?? "";
+    i += 1 + name.length;
+  }
+
+  return result;
+}
+
+function applyOperator(
+  name: string,
+  operator: (typeof OPERATORS)[number] | undefined,
+  word: string,
+  get: (name: string) => string | undefined,
+  onProblem: (name: string, message?: string) => void
+): string {
+  const found = get(name);
+  const unset = found === undefined || (operator?.startsWith(":") === true && found === "");
+  const expandWord = (): string => substitute(word, get, onProblem);
+
+  switch (operator) {
+    case ":-":
+    case "-":
+      return unset ? expandWord() : found!;
+    case ":+":
+    case "+":
+      return unset ? "" : expandWord();
+    case ":?":
+    case "?":
+      if (unset) {
+        onProblem(name, expandWord());
+        return "";
+      }
+      return found!;
+    default:
+      if (found === undefined) {
+        onProblem(name);
+      }
+      return found ?? "";
+  }
+}
+
+/**
+ * The `}` closing a `${` whose name starts at `start`, allowing nested references.
+ */
+function findClosingBrace(value: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === "$" && value[i + 1] === "{") {
+      depth++;
+      i++;
+    } else if (value[i] === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
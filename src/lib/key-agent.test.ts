@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Server } from "node:net";
+import {
+  deriveKeyFromPassphrase,
+  encodeKey,
+  generateKdfParams,
+  generateMasterKey,
+} from "./crypto.ts";
+import { FilesystemBackend } from "./fs-backend.ts";
+import {
+  AGENT_SOCKET_ENV,
+  MAX_AGENT_TTL_MINUTES,
+  addAgentKey,
+  getAgentKey,
+  getAgentStatus,
+  lockAgent,
+  startKeyAgent,
+  stopAgent,
+} from "./key-agent.ts";
+import {
+  MASTER_KEY_ENV,
+  PASSPHRASE_ENV,
+  clearKeyCache,
+  createUserIndex,
+  getEncryptionKey,
+  saveUserIndex,
+} from "./master-key.ts";
+
+describe("key agent", () => {
+  let dir: string;
+  let socketPath: string;
+  let server: Server | null = null;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "pss-agent-"));
+    socketPath = join(dir, "agent.sock");
+    vi.stubEnv(AGENT_SOCKET_ENV, socketPath);
+  });
+
+  afterEach(async () => {
+    server?.close();
+    server = null;
+    vi.unstubAllEnvs();
+    clearKeyCache();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should report no agent when nothing is listening", async () => {
+    expect(await getAgentKey("alice")).toBeNull();
+    expect(await getAgentStatus()).toBeNull();
+    expect(await lockAgent()).toBeNull();
+    await expect(addAgentKey("alice", await generateMasterKey())).resolves.toBeUndefined();
+  });
+
+  it("should hand keys to later processes until locked", async () => {
+    server = await startKeyAgent(socketPath, 60_000);
+    expect((await stat(socketPath)).mode & 0o777).toBe(0o600);
+
+    const key = await generateMasterKey();
+    await addAgentKey("alice", key);
+    expect(await getAgentKey("alice")).toEqual(key);
+    expect(await getAgentKey("bob")).toBeNull();
+    expect((await getAgentStatus())?.map((entry) => entry.userId)).toEqual(["alice"]);
+
+    expect(await lockAgent()).toBe(1);
+    expect(await getAgentKey("alice")).toBeNull();
+  });
+
+  it("should forget keys once their time is up", async () => {
+    server = await startKeyAgent(socketPath, 50);
+    await addAgentKey("alice", await generateMasterKey());
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await getAgentKey("alice")).toBeNull();
+  });
+
+  it("should cap lifetimes setTimeout can't wait for instead of expiring keys at once", async () => {
+    server = await startKeyAgent(socketPath, 365 * 24 * 60 * 60_000);
+    await addAgentKey("alice", await generateMasterKey());
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await getAgentKey("alice")).not.toBeNull();
+    const [held] = (await getAgentStatus())!;
+    expect(Date.parse(held!.expiresAt) - Date.now()).toBeLessThanOrEqual(
+      MAX_AGENT_TTL_MINUTES * 60_000
+    );
+  });
+
+  it("should refuse to start twice and remove its socket when stopped", async () => {
+    server = await startKeyAgent(socketPath, 60_000);
+    await expect(startKeyAgent(socketPath, 60_000)).rejects.toThrow("already running");
+
+    const closed = new Promise((resolve) => server!.once("close", resolve));
+    expect(await stopAgent()).toBe(true);
+    await closed;
+    server = null;
+    expect(await stopAgent()).toBe(false);
+  });
+
+  it("should spare later processes the passphrase until the key changes", async () => {
+    server = await startKeyAgent(socketPath, 60_000);
+    const storage = new FilesystemBackend(join(dir, "storage"));
+    const kdf = { ...(await generateKdfParams()), opsLimit: 1, memLimit: 8192 };
+    const key = await deriveKeyFromPassphrase("correct horse", kdf);
+    const saved = await saveUserIndex(
+      storage,
+      "u1",
+      await createUserIndex("passphrase", key, kdf),
+      null
+    );
+
+    vi.stubEnv(PASSPHRASE_ENV, "correct horse");
+    expect(await getEncryptionKey("u1", storage)).toEqual(key);
+
+    // A new process, with no passphrase to hand
+    clearKeyCache();
+    vi.stubEnv(PASSPHRASE_ENV, undefined);
+    expect(await getEncryptionKey("u1", storage)).toEqual(key);
+
+    // Rotated elsewhere: the held key no longer passes the key check
+    clearKeyCache();
+    const rotated = await deriveKeyFromPassphrase("battery staple", kdf);
+    await saveUserIndex(storage, "u1", await createUserIndex("passphrase", rotated, kdf), saved);
+    await expect(getEncryptionKey("u1", storage)).rejects.toThrow("Passphrase required");
+  });
+
+  it("should not use the agent for an index without a key check", async () => {
+    server = await startKeyAgent(socketPath, 60_000);
+    const storage = new FilesystemBackend(join(dir, "storage"));
+    const key = await generateMasterKey();
+    const { keyCheck: _, ...index } = await createUserIndex("random", key);
+    await saveUserIndex(storage, "u1", index, null);
+
+    // Whatever the agent holds can't be checked, so it is ignored and kept
+    const unverified = await generateMasterKey();
+    await addAgentKey("u1", unverified);
+    vi.stubEnv(MASTER_KEY_ENV, await encodeKey(key));
+    expect(await getEncryptionKey("u1", storage)).toEqual(key);
+    expect(await getAgentKey("u1")).toEqual(unverified);
+  });
+});
@@ -0,0 +1,251 @@
+import { createConnection, createServer } from "node:net";
+import type { Server, Socket } from "node:net";
+import { chmod, mkdir, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { decodeKey, encodeKey } from "./crypto.ts";
+import { configPaths } from "./config.ts";
+
+export const AGENT_SOCKET_ENV = "PSS_AGENT_SOCK";
+export const DEFAULT_AGENT_TTL_MINUTES = 15;
+/** The longest delay setTimeout accepts, about 24.8 days */
+export const MAX_AGENT_TTL_MINUTES = Math.floor((2 ** 31 - 1) / 60_000);
+
+const REQUEST_TIMEOUT_MS = 2000;
+
+type AgentRequest =
+  | { op: "get"; userId: string }
+  | { op: "add"; userId: string; key: string }
+  | { op: "status" }
+  | { op: "lock" }
+  | { op: "stop" };
+
+interface AgentResponse {
+  ok: boolean;
+  error?: string;
+  key?: string;
+  keys?: AgentKeyInfo[];
+  removed?: number;
+}
+
+export interface AgentKeyInfo {
+  userId: string;
+  expiresAt: string;
+}
+
+interface HeldKey {
+  key: Uint8Array;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Where the agent listens: PSS_AGENT_SOCK, else the per-user runtime
+ * directory, else the config directory.
+ */
+export function getAgentSocketPath(): string {
+  const fromEnv = process.env[AGENT_SOCKET_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  const runtimeDir = process.env["XDG_RUNTIME_DIR"];
+  return runtimeDir
+    ? join(runtimeDir, "pss", "agent.sock")
+    : join(configPaths.configDir, "agent.sock");
+}
+
+/**
+ * Start serving unlocked master keys on a Unix socket, like ssh-agent. Keys
+ * are wiped from memory `ttlMs` after they were added (at most
+ * MAX_AGENT_TTL_MINUTES), or on lock or stop. Only the owner can connect: the
+ * socket and its directory are user-only.
+ */
+export async function startKeyAgent(socketPath: string, ttlMs: number): Promise<Server> {
+  if (await sendRequest(socketPath, { op: "status" })) {
+    throw new Error(`A key agent is already running on ${socketPath}`);
+  }
+  await mkdir(dirname(socketPath), { recursive: true, mode: 0o700 });
+  // Left behind by an agent that didn't shut down cleanly
+  await rm(socketPath, { force: true });
+
+  ttlMs = Math.min(ttlMs, MAX_AGENT_TTL_MINUTES * 60_000);
+  const keys = new Map<string, HeldKey>();
+
+  const forget = (userId: string): void => {
+    const held = keys.get(userId);
+    if (held) {
+      clearTimeout(held.timer);
+      held.key.fill(0);
+      keys.delete(userId);
+    }
+  };
+
+  const lock = (): number => {
+    const count = keys.size;
+    for (const userId of [...keys.keys()]) {
+      forget(userId);
+    }
+    return count;
+  };
+
+  const handle = async (request: AgentRequest): Promise<AgentResponse> => {
+    switch (request.op) {
+      case "get": {
+        const held = keys.get(request.userId);
+        return held ? { ok: true, key: await encodeKey(held.key) } : { ok: true };
+      }
+      case "add": {
+        forget(request.userId);
+        keys.set(request.userId, {
+          key: await decodeKey(request.key),
+          expiresAt: Date.now() + ttlMs,
+          timer: setTimeout(() => forget(request.userId), ttlMs),
+        });
+        return { ok: true };
+      }
+      case "status":
+        return {
+          ok: true,
+          keys: [...keys].map(([userId, held]) => ({
+            userId,
+            expiresAt: new Date(held.expiresAt).toISOString(),
+          })),
+        };
+      case "lock":
+        return { ok: true, removed: lock() };
+      case "stop": {
+        const removed = lock();
+        server.close();
+        return { ok: true, removed };
+      }
+      default:
+        return { ok: false, error: "Unknown request" };
+    }
+  };
+
+  const server = createServer((socket: Socket) => {
+    let buffer = "";
+    socket.setEncoding("utf-8");
+    socket.on("error", () => socket.destroy());
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      const newline = buffer.indexOf("\n");
+      if (newline === -1) {
+        return;
+      }
+      const line = buffer.slice(0, newline);
+      buffer = "";
+
+      let request: AgentRequest;
+      try {
+        request = JSON.parse(line) as AgentRequest;
+      } catch {
+        socket.end(JSON.stringify({ ok: false, error: "Malformed request" }) + "\n");
+        return;
+      }
+      void handle(request).then(
+        (response) => socket.end(JSON.stringify(response) + "\n"),
+        (error: Error) => socket.end(JSON.stringify({ ok: false, error: error.message }) + "\n")
+      );
+    });
+  });
+
+  server.on("close", () => {
+    lock();
+    void rm(socketPath, { force: true });
+  });
+
+  // Create the socket user-only, so nobody can connect before the chmod
+  const umask = process.umask(0o077);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  } finally {
+    process.umask(umask);
+  }
+  await chmod(socketPath, 0o600);
+
+  return server;
+}
+
+/**
+ * Send one request to the agent. Returns null when no agent is listening.
+ */
+async function sendRequest(
+  socketPath: string,
+  request: AgentRequest
+): Promise<AgentResponse | null> {
+  return new Promise((resolve) => {
+    const socket = createConnection(socketPath);
+    let buffer = "";
+    const finish = (response: AgentResponse | null): void => {
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(response);
+    };
+    const timer = setTimeout(() => finish(null), REQUEST_TIMEOUT_MS);
+
+    socket.setEncoding("utf-8");
+    socket.on("connect", () => socket.write(JSON.stringify(request) + "\n"));
+    socket.on("data", (chunk: string) => (buffer += chunk));
+    socket.on("end", () => {
+      try {
+        finish(JSON.parse(buffer) as AgentResponse);
+      } catch {
+        finish(null);
+      }
+    });
+    socket.on("error", () => finish(null));
+  });
+}
+
+async function requestAgent(request: AgentRequest): Promise<AgentResponse | null> {
+  const response = await sendRequest(getAgentSocketPath(), request);
+  if (response && !response.ok) {
+    throw new Error(`Key agent: ${response.error ?? "request failed"}`);
+  }
+  return response;
+}
+
+/**
+ * The master key the agent holds for a user, if an agent is running and has it.
+ */
+export async function getAgentKey(userId: string): Promise<Uint8Array | null> {
+  const response = await requestAgent({ op: "get", userId });
+  return response?.key ? decodeKey(response.key) : null;
+}
+
+/**
+ * Hand an unlocked master key to the agent. Does nothing without an agent.
+ */
+export async function addAgentKey(userId: string, key: Uint8Array): Promise<void> {
+  await requestAgent({ op: "add", userId, key: await encodeKey(key) });
+}
+
+/**
+ * The keys the agent holds, or null when no agent is running.
+ */
+export async function getAgentStatus(): Promise<AgentKeyInfo[] | null> {
+  const response = await requestAgent({ op: "status" });
+  return response ? (response.keys ?? []) : null;
+}
+
+/**
+ * Wipe every key the agent holds. Returns how many there were, or null when
+ * no agent is running.
+ */
+export async function lockAgent(): Promise<number | null> {
+  const response = await requestAgent({ op: "lock" });
+  return response ? (response.removed ?? 0) : null;
+}
+
+/**
+ * Wipe the keys and shut the agent down. Returns false when none was running.
+ */
+export async function stopAgent(): Promise<boolean> {
+  return (await requestAgent({ op: "stop" })) !== null;
+}
@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { ConditionalWriteUnsupportedError } from "./storage-errors.ts";
+import { generateMasterKey } from "./crypto.ts";
+import { openProjectKeyRing } from "./project-keys.ts";
+import type { MemberIdentity, ProjectKeyRing } from "./project-keys.ts";
+import { generateIdentityKeys, getIdentity } from "./identity.ts";
+import {
+  assertTrustedManifest,
+  commitManifest,
+  createEmptyManifest,
+  loadManifest,
+  rebaseManifest,
+  verifyFileContent,
+  ManifestConflictError,
+  UntrustedManifestError,
+} from "./manifest.ts";
+import type { FileEntry, ProjectManifest } from "../types/index.ts";
+
+const MANIFEST_PATH = "users/u1/projects/app/manifest.json";
+
+function entry(name: string, hash: string): FileEntry {
+  return { name, hash, size: 1, updatedAt: "2025-01-01T00:00:00.000Z" };
+}
+
+function manifestWith(...files: FileEntry[]): ProjectManifest {
+  return { ...createEmptyManifest("app"), files };
+}
+
+const app = { id: "app", root: "users/u1/projects/app" };
+
+async function testIdentity(): Promise<MemberIdentity> {
+  return (await getIdentity("u1", { projects: {}, identity: await generateIdentityKeys() }))!;
+}
+
+describe("rebaseManifest", () => {
+  it("should keep changes to different files from both sides", () => {
+    const base = manifestWith(entry(".env", "a"), entry(".env.local", "b"));
+    const ours = manifestWith(entry(".env", "a2"), entry(".env.local", "b"));
+    const theirs = manifestWith(entry(".env", "a"), entry(".env.local", "b2"), entry("x", "c"));
+
+    const result = rebaseManifest(base, ours, theirs);
+
+    expect(result.files.map((f) => [f.name, f.hash])).toEqual([
+      [".env", "a2"],
+      [".env.local", "b2"],
+      ["x", "c"],
+    ]);
+  });
+
+  it("should apply deletions from our side", () => {
+    const base = manifestWith(entry(".env", "a"), entry(".env.local", "b"));
+    const ours = manifestWith(entry(".env", "a"));
+    const theirs = manifestWith(entry(".env", "a3"), entry(".env.local", "b"));
+
+    const result = rebaseManifest(base, ours, theirs);
+
+    expect(result.files.map((f) => [f.name, f.hash])).toEqual([[".env", "a3"]]);
+  });
+
+  it("should report files changed on both sides", () => {
+    const base = manifestWith(entry(".env", "a"));
+    const ours = manifestWith(entry(".env", "ours"));
+    const theirs = manifestWith(entry(".env", "theirs"));
+
+    expect(() => rebaseManifest(base, ours, theirs)).toThrow(ManifestConflictError);
+  });
+});
+
+describe("commitManifest", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let keyRing: ProjectKeyRing;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-manifest-"));
+    storage = new FilesystemBackend(root);
+    keyRing = await openProjectKeyRing(storage, app, await generateMasterKey(), {
+      create: true,
+      identity: await testIdentity(),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should create the manifest and bump the generation", async () => {
+    const { manifest } = await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      null,
+      manifestWith(entry(".env", "a")),
+      keyRing
+    );
+
+    expect(manifest.generation).toBe(1);
+    const loaded = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    expect(loaded?.manifest.generation).toBe(1);
+  });
+
+  it("should not lose concurrent updates to different files", async () => {
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(entry(".env", "a")), keyRing);
+
+    const machineA = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    const machineB = await loadManifest(storage, MANIFEST_PATH, keyRing);
+
+    await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      machineA,
+      manifestWith(entry(".env", "a"), entry(".env.a", "from-a")),
+      keyRing
+    );
+    const result = await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      machineB,
+      manifestWith(entry(".env", "a"), entry(".env.b", "from-b")),
+      keyRing
+    );
+
+    expect(result.rebased).toBe(true);
+
+    const final = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    expect(final?.manifest.generation).toBe(3);
+    expect(final?.manifest.files.map((f) => f.name).sort()).toEqual([".env", ".env.a", ".env.b"]);
+  });
+
+  it("should refuse to overwrite a concurrent change to the same file", async () => {
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(entry(".env", "a")), keyRing);
+
+    const machineA = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    const machineB = await loadManifest(storage, MANIFEST_PATH, keyRing);
+
+    await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      machineA,
+      manifestWith(entry(".env", "from-a")),
+      keyRing
+    );
+
+    await expect(
+      commitManifest(
+        storage,
+        MANIFEST_PATH,
+        machineB,
+        manifestWith(entry(".env", "from-b")),
+        keyRing
+      )
+    ).rejects.toThrow(ManifestConflictError);
+  });
+
+  it("should refuse to replace a manifest when storage returns no ETag", async () => {
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(entry(".env", "a")), keyRing);
+
+    const loaded = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+    await expect(
+      commitManifest(
+        storage,
+        MANIFEST_PATH,
+        { ...loaded, etag: "" },
+        manifestWith(entry(".env", "b")),
+        keyRing
+      )
+    ).rejects.toThrow(ConditionalWriteUnsupportedError);
+
+    const final = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    expect(final?.manifest.files).toEqual([entry(".env", "a")]);
+  });
+
+  it("should leave the manifest passed in untouched", async () => {
+    const next = manifestWith(entry(".env", "a"));
+    const result = await commitManifest(storage, MANIFEST_PATH, null, next, keyRing);
+
+    expect(result.manifest.generation).toBe(1);
+    expect(next.generation).toBeUndefined();
+  });
+
+  it("should not create a manifest that another machine created first", async () => {
+    await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      null,
+      manifestWith(entry(".env", "first")),
+      keyRing
+    );
+
+    const result = await commitManifest(
+      storage,
+      MANIFEST_PATH,
+      null,
+      manifestWith(entry(".env.local", "second")),
+      keyRing
+    );
+
+    expect(result.rebased).toBe(true);
+    expect(result.manifest.files.map((f) => f.name)).toEqual([".env", ".env.local"]);
+  });
+});
+
+describe("manifest encryption", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-manifest-"));
+    storage = new FilesystemBackend(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should not store file names in the clear", async () => {
+    const keyRing = await openProjectKeyRing(storage, app, await generateMasterKey(), {
+      create: true,
+      identity: await testIdentity(),
+    });
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(entry(".env", "a")), keyRing);
+
+    const raw = (await storage.download(MANIFEST_PATH)).toString("utf-8");
+    expect(raw).not.toContain(".env");
+    expect((await loadManifest(storage, MANIFEST_PATH, keyRing))?.manifest.files).toHaveLength(1);
+
+    const otherRing = await openProjectKeyRing(storage, app, await generateMasterKey());
+    await expect(loadManifest(storage, MANIFEST_PATH, otherRing)).rejects.toThrow();
+  });
+
+  it("should read manifests written before encryption", async () => {
+    await storage.uploadJson(MANIFEST_PATH, manifestWith(entry(".env", "a")));
+    const keyRing = await openProjectKeyRing(storage, app, await generateMasterKey());
+
+    const loaded = await loadManifest(storage, MANIFEST_PATH, keyRing);
+    expect(loaded?.manifest.files.map((f) => f.name)).toEqual([".env"]);
+  });
+});
+
+describe("manifest signatures", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let masterKey: Uint8Array;
+  let identity: MemberIdentity;
+  let keyRing: ProjectKeyRing;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-manifest-signatures-"));
+    storage = new FilesystemBackend(root);
+    masterKey = await generateMasterKey();
+    identity = await testIdentity();
+    keyRing = await openProjectKeyRing(storage, app, masterKey, { create: true, identity });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should sign manifests and reject ones signed by someone else", async () => {
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(entry(".env", "a")), keyRing);
+    const loaded = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+    expect(loaded.signedBy).toBe("u1");
+    expect(() => assertTrustedManifest(loaded)).not.toThrow();
+
+    const forger = await openProjectKeyRing(storage, app, masterKey, {
+      identity: await testIdentity(),
+    });
+    await commitManifest(storage, MANIFEST_PATH, loaded, manifestWith(), forger);
+    await expect(loadManifest(storage, MANIFEST_PATH, keyRing)).rejects.toThrow(
+      "invalid signature"
+    );
+  });
+
+  it("should reject unsigned and rolled back manifests", async () => {
+    const first = await commitManifest(storage, MANIFEST_PATH, null, manifestWith(), keyRing);
+    const old = await storage.download(MANIFEST_PATH);
+    const latest = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+    await commitManifest(storage, MANIFEST_PATH, latest, manifestWith(entry(".env", "a")), keyRing);
+
+    await storage.upload(MANIFEST_PATH, old);
+    const rolledBack = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+    expect(() => assertTrustedManifest(rolledBack, first.manifest.generation! + 1)).toThrow(
+      UntrustedManifestError
+    );
+
+    await storage.uploadJson(MANIFEST_PATH, manifestWith());
+    const unsigned = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+    expect(() => assertTrustedManifest(unsigned)).toThrow("not signed");
+  });
+
+  it("should not rebase onto a manifest it wouldn't pull", async () => {
+    await commitManifest(storage, MANIFEST_PATH, null, manifestWith(), keyRing);
+    const base = (await loadManifest(storage, MANIFEST_PATH, keyRing))!;
+
+    // Planted in the meantime, so the write below has to reload and rebase
+    await storage.uploadJson(MANIFEST_PATH, manifestWith(entry(".env", "planted")));
+    await expect(
+      commitManifest(storage, MANIFEST_PATH, base, manifestWith(entry(".env.local", "a")), keyRing)
+    ).rejects.toThrow("not signed");
+  });
+
+  it("should reject content that doesn't match the manifest", async () => {
+    const file = { ...entry(".env", await keyRing.hashContent("A=1")) };
+
+    await expect(verifyFileContent(keyRing, file, "A=1")).resolves.toBeUndefined();
+    await expect(verifyFileContent(keyRing, file, "A=0")).rejects.toThrow("doesn't match");
+  });
+});
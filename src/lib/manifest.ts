@@ -1,4 +1,44 @@
-import type { ProjectManifest } from "../types/index.ts";
+import type { FileEntry, ProjectManifest } from "../types/index.ts";
+import { isSealed } from "./project-keys.ts";
+import type { ProjectKeyRing } from "./project-keys.ts";
+import { getWriteConditions } from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+
+const MAX_COMMIT_ATTEMPTS = 5;
+const MANIFEST_LABEL = "manifest";
+
+export interface LoadedManifest {
+  manifest: ProjectManifest;
+  etag: string;
+  /** Who signed the manifest, or null if it was written before signing */
+  signedBy: string | null;
+}
+
+/**
+ * Thrown when another machine changed the same files while we were writing the manifest.
+ */
+export class ManifestConflictError extends Error {
+  readonly files: string[];
+
+  constructor(files: string[]) {
+    super(
+      `Remote changed while writing the manifest (${files.join(", ")}). Run 'pss sync' to merge.`
+    );
+    this.name = "ManifestConflictError";
+    this.files = files;
+  }
+}
+
+/**
+ * Thrown when a remote manifest can't be trusted: unsigned or rolled back.
+ */
+export class UntrustedManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UntrustedManifestError";
+  }
+}
 
 export function getManifestFingerprint(manifest: ProjectManifest): string {
   const files = [...manifest.files]
@@ -11,3 +51,180 @@ export function getManifestFingerprint(manifest: ProjectManifest): string {
     files,
   });
 }
+
+export function createEmptyManifest(projectName: string): ProjectManifest {
+  return {
+    version: 1,
+    projectName,
+    files: [],
+  };
+}
+
+/**
+ * Load the remote manifest along with its ETag, or null if the project has no manifest yet.
+ * Manifests written before encryption was added are read as plain JSON.
+ */
+export async function loadManifest(
+  storage: StorageBackend,
+  manifestPath: string,
+  keyRing: ProjectKeyRing
+): Promise<LoadedManifest | null> {
+  const object = await storage.downloadVersioned(manifestPath);
+  if (!object) {
+    return null;
+  }
+
+  const stored = JSON.parse(object.data.toString("utf-8")) as unknown;
+  if (!isSealed(stored)) {
+    return { manifest: stored as ProjectManifest, etag: object.etag, signedBy: null };
+  }
+
+  const { value, signedBy } = await keyRing.openSigned<ProjectManifest>(MANIFEST_LABEL, stored);
+  return { manifest: value, etag: object.etag, signedBy };
+}
+
+/**
+ * Check a manifest before applying it locally. It must be signed, and its
+ * sequence number must not be lower than the last one this checkout saw:
+ * someone with write access to the bucket could otherwise put back an old
+ * manifest to undo a change (e.g. a rotated secret).
+ */
+export function assertTrustedManifest(loaded: LoadedManifest, lastSequence?: number): void {
+  if (!loaded.signedBy) {
+    throw new UntrustedManifestError(
+      "The remote manifest is not signed. If it was pushed by an older version, check it with " +
+        "'pss diff' and sign it with 'pss push --sign-unsigned' (or ask someone with write access to)."
+    );
+  }
+
+  const sequence = loaded.manifest.generation ?? 0;
+  if (lastSequence !== undefined && sequence < lastSequence) {
+    throw new UntrustedManifestError(
+      `The remote manifest went back from sequence ${lastSequence} to ${sequence}. ` +
+        "It may have been rolled back by someone with access to the bucket."
+    );
+  }
+}
+
+/**
+ * Check downloaded content against its hash in the signed manifest, so an
+ * object swapped for another (e.g. an old revision) is caught.
+ */
+export async function verifyFileContent(
+  keyRing: ProjectKeyRing,
+  file: Pick<FileEntry, "name" | "hash">,
+  content: string
+): Promise<void> {
+  if (!(await keyRing.matchesHash(file.hash, content))) {
+    throw new UntrustedManifestError(
+      `${file.name} doesn't match the remote manifest. It may have been tampered with.`
+    );
+  }
+}
+
+/**
+ * Write a new manifest, but only if the remote is still the one it was derived from.
+ *
+ * If another machine wrote the manifest in the meantime, the file-level changes
+ * between `base` and `next` are replayed on top of the latest remote manifest and
+ * the write is retried. Files changed on both sides raise ManifestConflictError.
+ * The latest manifest must be trusted like a pulled one, since the result is
+ * signed on top of it. Storage that returned no ETag to make the write
+ * conditional on raises ConditionalWriteUnsupportedError. `next` is not modified.
+ */
+export async function commitManifest(
+  storage: StorageBackend,
+  manifestPath: string,
+  base: LoadedManifest | null,
+  next: ProjectManifest,
+  keyRing: ProjectKeyRing
+): Promise<{ manifest: ProjectManifest; rebased: boolean }> {
+  let expected = base;
+  let manifest = structuredClone(next);
+  let rebased = false;
+
+  for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+    manifest.generation = (expected?.manifest.generation ?? 0) + 1;
+
+    try {
+      const conditions = getWriteConditions(manifestPath, expected);
+      const sealed = await keyRing.sealSigned(MANIFEST_LABEL, manifest);
+      await storage.uploadJson(manifestPath, sealed, conditions);
+      return { manifest, rebased };
+    } catch (error) {
+      if (!(error instanceof PreconditionFailedError)) {
+        throw error;
+      }
+    }
+
+    expected = await loadManifest(storage, manifestPath, keyRing);
+    if (expected) {
+      assertTrustedManifest(expected, base?.manifest.generation);
+    }
+    manifest = rebaseManifest(base?.manifest ?? null, next, expected?.manifest ?? null);
+    rebased = true;
+  }
+
+  throw new Error("Remote manifest kept changing. Please try again.");
+}
+
+/**
+ * Three-way merge of manifests at file granularity: apply the changes between
+ * `base` and `ours` on top of `theirs`.
+ */
+export function rebaseManifest(
+  base: ProjectManifest | null,
+  ours: ProjectManifest,
+  theirs: ProjectManifest | null
+): ProjectManifest {
+  const baseFiles = indexFiles(base);
+  const ourFiles = indexFiles(ours);
+  const theirFiles = indexFiles(theirs);
+
+  const names = new Set([...theirFiles.keys(), ...ourFiles.keys(), ...baseFiles.keys()]);
+  const files: FileEntry[] = [];
+  const conflicts: string[] = [];
+
+  for (const name of names) {
+    const baseEntry = baseFiles.get(name);
+    const ourEntry = ourFiles.get(name);
+    const theirEntry = theirFiles.get(name);
+
+    let chosen: FileEntry | undefined;
+
+    if (isSameEntry(ourEntry, baseEntry)) {
+      chosen = theirEntry;
+    } else if (isSameEntry(theirEntry, baseEntry) || isSameEntry(ourEntry, theirEntry)) {
+      chosen = ourEntry;
+    } else {
+      conflicts.push(name);
+      continue;
+    }
+
+    if (chosen) {
+      files.push(chosen);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new ManifestConflictError(conflicts);
+  }
+
+  return {
+    ...theirs,
+    ...ours,
+    generation: theirs?.generation,
+    files,
+  };
+}
+
+function indexFiles(manifest: ProjectManifest | null): Map<string, FileEntry> {
+  return new Map((manifest?.files ?? []).map((file) => [file.name, file]));
+}
+
+function isSameEntry(a: FileEntry | undefined, b: FileEntry | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.hash === b.hash;
+}
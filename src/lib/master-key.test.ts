@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import {
+  decrypt,
+  deriveKeyFromPassphrase,
+  encodeKey,
+  encrypt,
+  fileAssociatedData,
+  generateKdfParams,
+  generateMasterKey,
+} from "./crypto.ts";
+import {
+  MASTER_KEY_ENV,
+  PASSPHRASE_ENV,
+  beginKeyMigration,
+  completeKeyMigration,
+  createUserIndex,
+  loadUserIndex,
+  needsKeySetup,
+  reencryptUserObjects,
+  saveUserIndex,
+  unlockMasterKey,
+} from "./master-key.ts";
+import { openProjectKeyRing } from "./project-keys.ts";
+import { resolveProject } from "./projects.ts";
+import type { EncryptedData, KdfParams } from "../types/index.ts";
+
+// Cheapest Argon2id settings so the tests stay fast
+async function testKdfParams(): Promise<KdfParams> {
+  return { ...(await generateKdfParams()), opsLimit: 1, memLimit: 8192 };
+}
+
+const app = { id: "app", root: "users/u1/projects/app" };
+
+describe("unlockMasterKey", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should derive and verify a passphrase key", async () => {
+    const kdf = await testKdfParams();
+    const key = await deriveKeyFromPassphrase("correct horse", kdf);
+    const index = await createUserIndex("passphrase", key, kdf);
+
+    vi.stubEnv(PASSPHRASE_ENV, "correct horse");
+    expect(await unlockMasterKey("u1", index)).toEqual(key);
+
+    vi.stubEnv(PASSPHRASE_ENV, "wrong horse");
+    await expect(unlockMasterKey("u1", index)).rejects.toThrow("Incorrect passphrase");
+  });
+
+  it("should accept a random key from the environment", async () => {
+    const key = await generateMasterKey();
+    const index = await createUserIndex("random", key);
+
+    vi.stubEnv(MASTER_KEY_ENV, await encodeKey(key));
+    expect(await unlockMasterKey("u1", index)).toEqual(key);
+
+    vi.stubEnv(MASTER_KEY_ENV, await encodeKey(await generateMasterKey()));
+    await expect(unlockMasterKey("u1", index)).rejects.toThrow("Incorrect master key");
+  });
+});
+
+describe("user index and migration", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-master-key-"));
+    storage = new FilesystemBackend(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should reject index writes based on a stale copy", async () => {
+    const index = await createUserIndex("random", await generateMasterKey());
+
+    const first = await saveUserIndex(storage, "u1", index, null);
+    await saveUserIndex(storage, "u1", index, first);
+
+    await expect(saveUserIndex(storage, "u1", index, first)).rejects.toThrow(
+      "changed from another machine"
+    );
+    expect((await loadUserIndex(storage, "u1"))?.index.keyMode).toBe("random");
+  });
+
+  it("should re-encrypt objects and skip ones already migrated", async () => {
+    const oldKey = await generateMasterKey();
+    const newKey = await generateMasterKey();
+
+    await storage.uploadJson(
+      "users/u1/projects/app/files/.env.enc",
+      await encrypt("A=1", oldKey, fileAssociatedData("app", ".env"))
+    );
+    await storage.uploadJson(
+      "users/u1/projects/app/revisions/.env/r1.enc",
+      await encrypt("A=2", newKey, fileAssociatedData("app", ".env"))
+    );
+    await storage.uploadJson("users/u1/projects/app/manifest.json", { files: [] });
+
+    const result = await reencryptUserObjects(storage, "u1", oldKey, newKey);
+    expect(result).toEqual({ reencrypted: 1, rewrapped: 0, skipped: 1 });
+
+    const migrated = await storage.downloadJson<EncryptedData>(
+      "users/u1/projects/app/files/.env.enc"
+    );
+    expect(await decrypt(migrated, newKey, fileAssociatedData("app", ".env"))).toBe("A=1");
+
+    expect(await reencryptUserObjects(storage, "u1", oldKey, newKey)).toEqual({
+      reencrypted: 0,
+      rewrapped: 0,
+      skipped: 2,
+    });
+  });
+
+  it("should re-wrap project keys instead of re-encrypting data-key content", async () => {
+    const oldKey = await generateMasterKey();
+    const newKey = await generateMasterKey();
+
+    const ring = await openProjectKeyRing(storage, app, oldKey, { create: true });
+    const { encrypted, keyVersion } = await ring.encrypt(".env", "A=1");
+    await storage.uploadJson("users/u1/projects/app/revisions/.env/r1.enc", encrypted);
+
+    const result = await reencryptUserObjects(storage, "u1", oldKey, newKey);
+    expect(result).toEqual({ reencrypted: 0, rewrapped: 1, skipped: 1 });
+
+    const reopened = await openProjectKeyRing(storage, app, newKey);
+    expect(await reopened.decrypt(".env", encrypted, keyVersion)).toBe("A=1");
+  });
+
+  it("should fail on objects neither key can decrypt", async () => {
+    await storage.uploadJson(
+      "users/u1/projects/app/files/.env.enc",
+      await encrypt("A=1", await generateMasterKey())
+    );
+
+    await expect(
+      reencryptUserObjects(storage, "u1", await generateMasterKey(), await generateMasterKey())
+    ).rejects.toThrow("Cannot decrypt");
+  });
+
+  it("should only create a legacy index for data stored before indexes existed", async () => {
+    const key = await generateMasterKey();
+    await expect(resolveProject(storage, "u1", key, "app", { create: true })).rejects.toThrow(
+      "pss key setup"
+    );
+    expect(await needsKeySetup(storage, "u1")).toBe(true);
+
+    await storage.uploadJson("users/u1/projects/legacy/manifest.json", { files: [] });
+    expect(await needsKeySetup(storage, "u1")).toBe(false);
+    await resolveProject(storage, "u1", key, "app", { create: true });
+    expect((await loadUserIndex(storage, "u1"))?.index.keyMode).toBe("legacy");
+  });
+
+  it("should carry the project index over to the new key", async () => {
+    const oldKey = await generateMasterKey();
+    const newKey = await generateMasterKey();
+    await saveUserIndex(storage, "u1", await createUserIndex("random", oldKey), null);
+    const project = await resolveProject(storage, "u1", oldKey, "app", { create: true });
+
+    const loaded = await loadUserIndex(storage, "u1");
+    const migrating = await beginKeyMigration(
+      storage,
+      "u1",
+      loaded,
+      await createUserIndex("random", newKey)
+    );
+    await completeKeyMigration(storage, "u1", migrating, oldKey, newKey);
+
+    expect(await resolveProject(storage, "u1", newKey, "app")).toEqual(project);
+    await expect(resolveProject(storage, "u1", oldKey, "app")).rejects.toThrow();
+  });
+});
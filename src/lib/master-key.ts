@@ -0,0 +1,621 @@
+import { chmod, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  createKeyCheck,
+  decodeKey,
+  decrypt,
+  encrypt,
+  deriveKeyFromPassphrase,
+  deriveKeyFromUserId,
+  encodeKey,
+  fileAssociatedData,
+  verifyKeyCheck,
+} from "./crypto.ts";
+import { configPaths } from "./config.ts";
+import { addAgentKey, getAgentKey } from "./key-agent.ts";
+import { isInteractive, promptSecret } from "./prompt.ts";
+import { ProjectKeyRing, isSealed, rewrapProjectKeys } from "./project-keys.ts";
+import {
+  getProjectsPrefix,
+  getUserIndexPath,
+  getWriteConditions,
+  parseFileObjectPath,
+} from "./storage.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+import type { StorageBackend } from "./storage.ts";
+import type {
+  EncryptedData,
+  KdfParams,
+  KeyMigration,
+  KeyMode,
+  ProjectKeys,
+  UserIndex,
+  UserIndexPayload,
+} from "../types/index.ts";
+
+export const PASSPHRASE_ENV = "PSS_PASSPHRASE";
+export const MASTER_KEY_ENV = "PSS_MASTER_KEY";
+export const NEW_PASSPHRASE_ENV = "PSS_NEW_PASSPHRASE";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface LoadedUserIndex {
+  index: UserIndex;
+  etag: string;
+}
+
+export async function loadUserIndex(
+  storage: StorageBackend,
+  userId: string
+): Promise<LoadedUserIndex | null> {
+  const object = await storage.downloadVersioned(getUserIndexPath(userId));
+  if (!object) {
+    return null;
+  }
+  return { index: JSON.parse(object.data.toString("utf-8")) as UserIndex, etag: object.etag };
+}
+
+/**
+ * Write the user index if it is still the copy in `base`. Raises
+ * PreconditionFailedError otherwise, so callers can reload and retry.
+ */
+export async function writeUserIndex(
+  storage: StorageBackend,
+  userId: string,
+  index: UserIndex,
+  base: LoadedUserIndex | null
+): Promise<LoadedUserIndex> {
+  const next = { ...index, updatedAt: new Date().toISOString() };
+
+  const path = getUserIndexPath(userId);
+  await storage.uploadJson(path, next, getWriteConditions(path, base));
+
+  const saved = await loadUserIndex(storage, userId);
+  return saved ?? { index: next, etag: "" };
+}
+
+/**
+ * Write the user index, failing if another machine changed it since it was read.
+ */
+export async function saveUserIndex(
+  storage: StorageBackend,
+  userId: string,
+  index: UserIndex,
+  base: LoadedUserIndex | null
+): Promise<LoadedUserIndex> {
+  try {
+    return await writeUserIndex(storage, userId, index, base);
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      throw new Error("Key settings were changed from another machine. Please try again.");
+    }
+    throw error;
+  }
+}
+
+function payloadAssociatedData(userId: string): string {
+  return JSON.stringify(["pss-user-index", userId]);
+}
+
+/**
+ * Decrypt the private part of the user index (empty if nothing was stored yet).
+ */
+export async function openUserIndexPayload(
+  userId: string,
+  index: UserIndex | null,
+  key: Uint8Array
+): Promise<UserIndexPayload> {
+  if (!index?.sealed) {
+    return { projects: {} };
+  }
+  const json = await decrypt(index.sealed, key, payloadAssociatedData(userId));
+  return JSON.parse(json) as UserIndexPayload;
+}
+
+export async function sealUserIndexPayload(
+  userId: string,
+  payload: UserIndexPayload,
+  key: Uint8Array
+): Promise<EncryptedData> {
+  return encrypt(JSON.stringify(payload), key, payloadAssociatedData(userId));
+}
+
+const MAX_PAYLOAD_ATTEMPTS = 5;
+
+/**
+ * Change the private part of the user index, retrying if another machine
+ * updated the index at the same time. `update` returns null when there is
+ * nothing to change.
+ */
+export async function updateUserIndexPayload(
+  storage: StorageBackend,
+  userId: string,
+  key: Uint8Array,
+  update: (payload: UserIndexPayload) => UserIndexPayload | null
+): Promise<UserIndexPayload> {
+  for (let attempt = 1; attempt <= MAX_PAYLOAD_ATTEMPTS; attempt++) {
+    const loaded = await loadUserIndex(storage, userId);
+    if (loaded?.index.migration) {
+      throw new Error("A master key migration is in progress. Run 'pss key setup' to finish it.");
+    }
+
+    const payload = await openUserIndexPayload(userId, loaded?.index ?? null, key);
+    const next = update(structuredClone(payload));
+    if (!next) {
+      return payload;
+    }
+    // Only installs from before user indexes existed may get a legacy-mode one
+    if (!loaded && !(await hasLegacyData(storage, userId))) {
+      throw new Error(NO_MASTER_KEY);
+    }
+
+    try {
+      await writeUserIndex(
+        storage,
+        userId,
+        {
+          ...(loaded?.index ?? { version: 1, keyMode: "legacy", updatedAt: "" }),
+          sealed: await sealUserIndexPayload(userId, next, key),
+        },
+        loaded
+      );
+      return next;
+    } catch (error) {
+      if (!(error instanceof PreconditionFailedError)) {
+        throw error;
+      }
+      // Another machine updated the index; reload and apply the change again
+    }
+  }
+
+  throw new Error("User index kept changing. Please try again.");
+}
+
+const NO_MASTER_KEY =
+  "No master key set up yet. Run 'pss key setup' to choose a passphrase (or --random for a generated key).";
+
+/**
+ * Whether a user without an index has projects from before user indexes
+ * existed, which are encrypted with the legacy key derived from their user ID.
+ */
+export async function hasLegacyData(storage: StorageBackend, userId: string): Promise<boolean> {
+  return (await storage.list(getProjectsPrefix(userId))).length > 0;
+}
+
+/**
+ * Whether a user still has to choose a master key before anything can be
+ * encrypted for them.
+ */
+export async function needsKeySetup(storage: StorageBackend, userId: string): Promise<boolean> {
+  return !(await loadUserIndex(storage, userId)) && !(await hasLegacyData(storage, userId));
+}
+
+export function getKeyMode(index: UserIndex | null): KeyMode {
+  return index?.keyMode ?? "legacy";
+}
+
+export async function createUserIndex(
+  keyMode: Exclude<KeyMode, "legacy">,
+  key: Uint8Array,
+  kdf?: KdfParams
+): Promise<UserIndex> {
+  return {
+    version: 1,
+    keyMode,
+    kdf,
+    keyCheck: await createKeyCheck(key),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function getLocalKeyPath(userId: string, previous = false): string {
+  return join(configPaths.configDir, "keys", `${userId}${previous ? ".previous" : ""}.key`);
+}
+
+export async function loadLocalMasterKey(
+  userId: string,
+  previous = false
+): Promise<Uint8Array | null> {
+  try {
+    return await decodeKey(await readFile(getLocalKeyPath(userId, previous), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function saveLocalMasterKey(
+  userId: string,
+  key: Uint8Array,
+  previous = false
+): Promise<void> {
+  const keyPath = getLocalKeyPath(userId, previous);
+  await mkdir(dirname(keyPath), { recursive: true, mode: 0o700 });
+  await writeFile(keyPath, `${await encodeKey(key)}\n`, { mode: 0o600 });
+  await chmod(keyPath, 0o600);
+}
+
+interface KeyParams {
+  keyMode: KeyMode;
+  kdf?: KdfParams;
+  keyCheck?: EncryptedData;
+}
+
+async function unlockPassphraseKey(params: KeyParams, previous: boolean): Promise<Uint8Array> {
+  if (!params.kdf) {
+    throw new Error("User index is missing key derivation parameters");
+  }
+
+  // The environment variable always holds the current passphrase
+  let passphrase = previous ? undefined : process.env[PASSPHRASE_ENV];
+  if (passphrase === undefined) {
+    if (!isInteractive()) {
+      throw new Error(
+        previous
+          ? "The previous passphrase is needed to resume; run interactively."
+          : `Passphrase required. Set ${PASSPHRASE_ENV} to run non-interactively.`
+      );
+    }
+    passphrase = await promptSecret(previous ? "Previous passphrase: " : "Passphrase: ");
+  }
+
+  return deriveKeyFromPassphrase(passphrase, params.kdf);
+}
+
+async function unlockRandomKey(userId: string, previous: boolean): Promise<Uint8Array> {
+  const fromEnv = previous ? undefined : process.env[MASTER_KEY_ENV];
+  if (fromEnv) {
+    return decodeKey(fromEnv);
+  }
+
+  const local = await loadLocalMasterKey(userId, previous);
+  if (local) {
+    return local;
+  }
+
+  if (!isInteractive()) {
+    throw new Error(
+      `Master key not found on this machine. Set ${MASTER_KEY_ENV} or run interactively to enter it.`
+    );
+  }
+
+  return decodeKey(await promptSecret(previous ? "Previous master key: " : "Master key: "));
+}
+
+async function unlockKey(
+  userId: string,
+  params: KeyParams,
+  previous: boolean
+): Promise<Uint8Array> {
+  if (params.keyMode === "legacy") {
+    return deriveKeyFromUserId(userId);
+  }
+
+  // A passphrase key restored from a recovery kit is kept on disk like a random key
+  if (params.keyMode === "passphrase" && (previous || process.env[PASSPHRASE_ENV] === undefined)) {
+    const local = await loadLocalMasterKey(userId, previous);
+    if (local && params.keyCheck && (await verifyKeyCheck(params.keyCheck, local))) {
+      return local;
+    }
+  }
+
+  const key =
+    params.keyMode === "passphrase"
+      ? await unlockPassphraseKey(params, previous)
+      : await unlockRandomKey(userId, previous);
+
+  if (params.keyCheck && !(await verifyKeyCheck(params.keyCheck, key))) {
+    if (params.keyMode === "passphrase") {
+      throw new Error(previous ? "Incorrect previous passphrase" : "Incorrect passphrase");
+    }
+    throw new Error(
+      `Incorrect master key. If it was rotated on another machine, remove ${getLocalKeyPath(userId, previous)} and try again.`
+    );
+  }
+
+  if (
+    params.keyMode === "random" &&
+    (previous || !process.env[MASTER_KEY_ENV]) &&
+    !(await loadLocalMasterKey(userId, previous))
+  ) {
+    await saveLocalMasterKey(userId, key, previous);
+  }
+
+  return key;
+}
+
+/**
+ * Obtain the master key described by a user index and verify it against the
+ * stored key check. Random keys entered by hand are saved locally once verified.
+ */
+export async function unlockMasterKey(
+  userId: string,
+  index: UserIndex | null
+): Promise<Uint8Array> {
+  return unlockKey(userId, index ?? { keyMode: "legacy" }, false);
+}
+
+/**
+ * Check a master key against the user index without prompting for anything.
+ */
+export async function isMasterKey(
+  userId: string,
+  index: UserIndex | null,
+  key: Uint8Array
+): Promise<boolean> {
+  if (getKeyMode(index) === "legacy") {
+    return Buffer.from(key).equals(Buffer.from(await deriveKeyFromUserId(userId)));
+  }
+  return index?.keyCheck ? verifyKeyCheck(index.keyCheck, key) : false;
+}
+
+/**
+ * Obtain the key being replaced by an in-progress migration.
+ */
+export async function unlockPreviousMasterKey(
+  userId: string,
+  migration: KeyMigration
+): Promise<Uint8Array> {
+  return unlockKey(
+    userId,
+    { keyMode: migration.from, kdf: migration.previousKdf, keyCheck: migration.previousKeyCheck },
+    true
+  );
+}
+
+/**
+ * Ask for a new passphrase (twice) or read it from an environment variable.
+ */
+export async function readNewPassphrase(envVar: string): Promise<string> {
+  let passphrase = process.env[envVar];
+
+  if (passphrase === undefined) {
+    if (!isInteractive()) {
+      throw new Error(`No terminal available. Set ${envVar} to run non-interactively.`);
+    }
+
+    passphrase = await promptSecret("New passphrase: ");
+    if (passphrase.length >= MIN_PASSPHRASE_LENGTH) {
+      const confirmation = await promptSecret("Confirm passphrase: ");
+      if (confirmation !== passphrase) {
+        throw new Error("Passphrases do not match.");
+      }
+    }
+  }
+
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  return passphrase;
+}
+
+export interface ReencryptResult {
+  reencrypted: number;
+  rewrapped: number;
+  skipped: number;
+}
+
+/**
+ * Move everything a user has stored from one master key to another: project
+ * key rings are re-wrapped, and content encrypted directly with the master key
+ * is re-encrypted. Work that is already done is skipped, so an interrupted run
+ * can simply be started again.
+ */
+export async function reencryptUserObjects(
+  storage: StorageBackend,
+  userId: string,
+  oldKey: Uint8Array,
+  newKey: Uint8Array,
+  onProgress?: (key: string, done: number, total: number) => void
+): Promise<ReencryptResult> {
+  const allKeys = await storage.list(`users/${userId}/projects/`);
+  const keyRingPaths = allKeys.filter((key) => key.endsWith("/keys.json"));
+  const documentPaths = allKeys.filter(
+    (key) => key.endsWith("/manifest.json") || key.endsWith("/history.json")
+  );
+  const objectPaths = allKeys.filter((key) => key.endsWith(".enc"));
+  const total = keyRingPaths.length + documentPaths.length + objectPaths.length;
+  const result: ReencryptResult = { reencrypted: 0, rewrapped: 0, skipped: 0 };
+
+  // Key rings per project (unlocked with the new key), used to recognise
+  // content that is already readable and doesn't need migrating
+  const keyRings = new Map<string, ProjectKeyRing>();
+  let done = 0;
+
+  for (const path of keyRingPaths) {
+    onProgress?.(path, done++, total);
+
+    const object = await storage.downloadVersioned(path);
+    if (!object) continue;
+
+    const rewrapped = await rewrapProjectKeys(
+      JSON.parse(object.data.toString("utf-8")) as ProjectKeys,
+      oldKey,
+      newKey
+    );
+
+    if (rewrapped.rewrapped > 0) {
+      await storage.uploadJson(path, rewrapped.keys, getWriteConditions(path, object));
+      result.rewrapped += rewrapped.rewrapped;
+    }
+
+    const projectId = rewrapped.keys.projectId;
+    keyRings.set(projectId, new ProjectKeyRing(projectId, newKey, rewrapped.keys));
+  }
+
+  // Manifests and history of projects without data keys are sealed with the
+  // master key itself
+  for (const path of documentPaths) {
+    onProgress?.(path, done++, total);
+
+    const document = await storage.downloadVersioned(path);
+    if (!document) continue;
+
+    const sealed = JSON.parse(document.data.toString("utf-8")) as unknown;
+    if (!isSealed(sealed) || sealed.keyVersion !== undefined) continue;
+
+    const projectId = path.split("/")[3]!;
+    const label = path.slice(path.lastIndexOf("/") + 1, -".json".length);
+    const newRing = new ProjectKeyRing(projectId, newKey, null);
+
+    let value: unknown;
+    try {
+      value = await new ProjectKeyRing(projectId, oldKey, null).open(label, sealed);
+    } catch {
+      try {
+        await newRing.open(label, sealed);
+      } catch {
+        throw new Error(`Cannot decrypt ${path} with either the old or the new master key`);
+      }
+      result.skipped++;
+      continue;
+    }
+
+    // Signatures cover the plaintext, so they stay valid after re-sealing
+    const resealed = await newRing.seal(label, value);
+    await storage.uploadJson(
+      path,
+      { ...resealed, signedBy: sealed.signedBy, signature: sealed.signature },
+      getWriteConditions(path, document)
+    );
+    result.reencrypted++;
+  }
+
+  for (const path of objectPaths) {
+    onProgress?.(path, done++, total);
+
+    const object = parseFileObjectPath(path);
+    if (!object) continue;
+
+    const encrypted = await storage.downloadJson<EncryptedData>(path);
+    const associatedData = fileAssociatedData(object.projectId, object.fileName);
+
+    let content: string;
+    try {
+      content = await decrypt(encrypted, oldKey, associatedData);
+    } catch {
+      const keyRing =
+        keyRings.get(object.projectId) ?? new ProjectKeyRing(object.projectId, newKey, null);
+
+      if (await keyRing.canDecrypt(object.fileName, encrypted)) {
+        result.skipped++;
+        continue;
+      }
+      throw new Error(`Cannot decrypt ${path} with either the old or the new master key`);
+    }
+
+    await storage.uploadJson(path, await encrypt(content, newKey, associatedData));
+    result.reencrypted++;
+  }
+
+  return result;
+}
+
+/**
+ * Record in the user index that a switch to a new master key has started,
+ * keeping what's needed to unlock the old key if the run is interrupted.
+ */
+export async function beginKeyMigration(
+  storage: StorageBackend,
+  userId: string,
+  base: LoadedUserIndex | null,
+  next: UserIndex
+): Promise<LoadedUserIndex> {
+  const previous = base?.index;
+  return saveUserIndex(
+    storage,
+    userId,
+    {
+      ...next,
+      // Still encrypted with the old key until the migration completes
+      sealed: previous?.sealed,
+      migration: {
+        from: getKeyMode(previous ?? null),
+        startedAt: new Date().toISOString(),
+        previousKdf: previous?.kdf,
+        previousKeyCheck: previous?.keyCheck,
+      },
+    },
+    base
+  );
+}
+
+/**
+ * Re-encrypt everything with the new key and clear the migration marker.
+ */
+export async function completeKeyMigration(
+  storage: StorageBackend,
+  userId: string,
+  loaded: LoadedUserIndex,
+  oldKey: Uint8Array,
+  newKey: Uint8Array,
+  onProgress?: (key: string, done: number, total: number) => void
+): Promise<ReencryptResult> {
+  const result = await reencryptUserObjects(storage, userId, oldKey, newKey, onProgress);
+
+  const index = { ...loaded.index };
+  delete index.migration;
+  if (index.sealed) {
+    const payload = await openUserIndexPayload(userId, index, oldKey).catch(() =>
+      openUserIndexPayload(userId, index, newKey)
+    );
+    index.sealed = await sealUserIndexPayload(userId, payload, newKey);
+  }
+  await saveUserIndex(storage, userId, index, loaded);
+
+  await rm(getLocalKeyPath(userId, true), { force: true });
+  if (index.keyMode === "passphrase") {
+    // A key restored from a recovery kit no longer matches
+    await rm(getLocalKeyPath(userId), { force: true });
+  }
+  clearKeyCache();
+
+  return result;
+}
+
+let cachedKey: Uint8Array | null = null;
+let cachedUserId: string | null = null;
+
+/**
+ * The user's master key, from this process, a running key agent, or by
+ * unlocking it (which may prompt). Keys unlocked here are handed to the agent.
+ */
+export async function getEncryptionKey(
+  userId: string,
+  storage: StorageBackend
+): Promise<Uint8Array> {
+  if (cachedKey && cachedUserId === userId) {
+    return cachedKey;
+  }
+
+  const loaded = await loadUserIndex(storage, userId);
+
+  if (loaded?.index.migration) {
+    throw new Error("A master key migration is in progress. Run 'pss key setup' to finish it.");
+  }
+
+  if (!loaded && !(await hasLegacyData(storage, userId))) {
+    throw new Error(NO_MASTER_KEY);
+  }
+
+  const index = loaded?.index ?? null;
+  // Without a key check a key from the agent can't be verified, so it is
+  // neither taken from nor handed to the agent. A key rotated on another
+  // machine since it was added fails the check.
+  const keyCheck = index?.keyCheck;
+  const fromAgent = keyCheck ? await getAgentKey(userId).catch(() => null) : null;
+  if (keyCheck && fromAgent && (await verifyKeyCheck(keyCheck, fromAgent))) {
+    cachedKey = fromAgent;
+  } else {
+    cachedKey = await unlockMasterKey(userId, index);
+    if (keyCheck) {
+      await addAgentKey(userId, cachedKey).catch(() => undefined);
+    }
+  }
+  cachedUserId = userId;
+  return cachedKey;
+}
+
+export function clearKeyCache(): void {
+  cachedKey = null;
+  cachedUserId = null;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import {
+  deriveSubkey,
+  encrypt,
+  fileAssociatedData,
+  generateMasterKey,
+  hashFile,
+  macContent,
+} from "./crypto.ts";
+import {
+  ProjectKeyRing,
+  loadProjectKeys,
+  openProjectKeyRing,
+  rewrapProjectKeys,
+  rotateProjectKey,
+} from "./project-keys.ts";
+
+const app = { id: "app", root: "users/u1/projects/app" };
+const otherApp = { id: "other", root: "users/u1/projects/other" };
+
+describe("project key rings", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let masterKey: Uint8Array;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-project-keys-"));
+    storage = new FilesystemBackend(root);
+    masterKey = await generateMasterKey();
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should only create a key ring when asked to", async () => {
+    const readOnly = await openProjectKeyRing(storage, app, masterKey);
+    expect(readOnly.currentVersion).toBeUndefined();
+    expect(await loadProjectKeys(storage, app.root)).toBeNull();
+
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    expect(ring.currentVersion).toBe(1);
+    expect((await loadProjectKeys(storage, app.root))?.keys.keys).toHaveLength(1);
+  });
+
+  it("should decrypt content without a key version using the master key", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+
+    const encrypted = await encrypt("A=1", masterKey, fileAssociatedData("app", ".env"));
+    expect(await ring.decrypt(".env", encrypted)).toBe("A=1");
+  });
+
+  it("should keep old versions readable after rotation", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    const v1 = await ring.encrypt(".env", "A=1");
+
+    expect(await rotateProjectKey(storage, app, masterKey)).toBe(2);
+
+    const rotated = await openProjectKeyRing(storage, app, masterKey);
+    const v2 = await rotated.encrypt(".env", "A=2");
+
+    expect(v1.keyVersion).toBe(1);
+    expect(v2.keyVersion).toBe(2);
+    expect(await rotated.decrypt(".env", v1.encrypted, v1.keyVersion)).toBe("A=1");
+    expect(await rotated.decrypt(".env", v2.encrypted, v2.keyVersion)).toBe("A=2");
+    await expect(rotated.decrypt(".env.local", v2.encrypted, v2.keyVersion)).rejects.toThrow();
+    await expect(rotated.decrypt(".env", v2.encrypted, v1.keyVersion)).rejects.toThrow();
+  });
+
+  it("should refuse to rotate with the wrong master key", async () => {
+    await openProjectKeyRing(storage, app, masterKey, { create: true });
+
+    await expect(rotateProjectKey(storage, app, await generateMasterKey())).rejects.toThrow(
+      "incorrect master key"
+    );
+  });
+
+  it("should re-wrap data keys for a new master key", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    const { encrypted, keyVersion } = await ring.encrypt(".env", "A=1");
+    const newMasterKey = await generateMasterKey();
+
+    const loaded = await loadProjectKeys(storage, app.root);
+    const first = await rewrapProjectKeys(loaded!.keys, masterKey, newMasterKey);
+    const second = await rewrapProjectKeys(first.keys, masterKey, newMasterKey);
+
+    expect(first.rewrapped).toBe(1);
+    expect(second.rewrapped).toBe(0);
+
+    const rewrapped = new ProjectKeyRing("app", newMasterKey, second.keys);
+    expect(await rewrapped.decrypt(".env", encrypted, keyVersion)).toBe("A=1");
+  });
+
+  it("should hash content with a key that rotates with the data key", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    const hash = await ring.hashContent("A=1");
+
+    expect(hash.startsWith("mac:1:")).toBe(true);
+    expect(hash).not.toBe(await hashFile("A=1"));
+
+    await rotateProjectKey(storage, app, masterKey);
+    const rotated = await openProjectKeyRing(storage, app, masterKey);
+    const rotatedHash = await rotated.hashContent("A=1");
+    expect(rotatedHash.startsWith("mac:2:")).toBe(true);
+    expect(rotatedHash.slice(6)).not.toBe(hash.slice(6));
+    expect(await rotated.matchesHash(hash, "A=1")).toBe(true);
+    expect(await rotated.matchesHash(hash, "A=2")).toBe(false);
+    expect(await rotated.matchesHash(rotatedHash, "A=1")).toBe(true);
+
+    const other = await openProjectKeyRing(storage, otherApp, masterKey, { create: true });
+    expect(await other.hashContent("A=1")).not.toBe(hash);
+  });
+
+  it("should still match hashes written before keyed hashing", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    expect(await ring.matchesHash(await hashFile("A=1"), "A=1")).toBe(true);
+  });
+
+  it("should still match hashes written before per-version MAC keys", async () => {
+    const ring = await openProjectKeyRing(storage, app, masterKey, { create: true });
+    const legacy = await macContent(
+      "A=1",
+      await deriveSubkey(await ring.keyFor(1), "pss-content-mac")
+    );
+
+    await rotateProjectKey(storage, app, masterKey);
+    const rotated = await openProjectKeyRing(storage, app, masterKey);
+    expect(await rotated.matchesHash(legacy, "A=1")).toBe(true);
+    expect(await rotated.matchesHash(legacy, "A=2")).toBe(false);
+  });
+});
@@ -0,0 +1,833 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  decodeKey,
+  decodePublicKey,
+  decodeSigningKey,
+  decrypt,
+  deriveSubkey,
+  encodeKey,
+  encrypt,
+  fileAssociatedData,
+  generateMasterKey,
+  hashFile,
+  macContent,
+  openSealedBox,
+  sealToPublicKey,
+  signMessage,
+  verifySignature,
+} from "./crypto.ts";
+import { getProjectKeysPath, getWriteConditions } from "./storage.ts";
+import { PreconditionFailedError } from "./storage-errors.ts";
+import type { StorageBackend } from "./storage.ts";
+import type {
+  EncryptedData,
+  MemberRole,
+  MembershipSignature,
+  ProjectKeys,
+  ProjectMember,
+  ProjectRef,
+  SealedObject,
+  WrappedKey,
+} from "../types/index.ts";
+
+export interface LoadedProjectKeys {
+  keys: ProjectKeys;
+  etag: string;
+}
+
+/**
+ * A user's X25519 key pair, used to open data keys of shared projects, and
+ * Ed25519 key pair, used to sign what other members must trust.
+ */
+export interface MemberIdentity {
+  userId: string;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+  signPublicKey: Uint8Array;
+  signSecretKey: Uint8Array;
+}
+
+export async function loadProjectKeys(
+  storage: StorageBackend,
+  root: string
+): Promise<LoadedProjectKeys | null> {
+  const object = await storage.downloadVersioned(getProjectKeysPath(root));
+  if (!object) {
+    return null;
+  }
+  return { keys: JSON.parse(object.data.toString("utf-8")) as ProjectKeys, etag: object.etag };
+}
+
+/**
+ * Write a key ring if it is still the copy in `base`.
+ */
+export async function saveProjectKeys(
+  storage: StorageBackend,
+  root: string,
+  keys: ProjectKeys,
+  base: LoadedProjectKeys | null
+): Promise<void> {
+  const path = getProjectKeysPath(root);
+  try {
+    await storage.uploadJson(path, keys, getWriteConditions(path, base));
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      throw new Error("Project keys were changed from another machine. Please try again.");
+    }
+    throw error;
+  }
+}
+
+function keyAssociatedData(projectId: string, version: number): string {
+  return JSON.stringify(["pss-project-key", projectId, version]);
+}
+
+function objectAssociatedData(projectId: string, label: string, keyVersion?: number): string {
+  return JSON.stringify(["pss-object", projectId, label, keyVersion ?? null]);
+}
+
+function signedAssociatedData(projectId: string, label: string, json: string): string {
+  return JSON.stringify(["pss-signed", projectId, label, json]);
+}
+
+export function isSealed(value: unknown): value is SealedObject {
+  return typeof value === "object" && value !== null && (value as SealedObject).sealed === 1;
+}
+
+async function wrapKey(
+  projectId: string,
+  version: number,
+  dataKey: Uint8Array,
+  masterKey: Uint8Array
+): Promise<EncryptedData> {
+  return encrypt(await encodeKey(dataKey), masterKey, keyAssociatedData(projectId, version));
+}
+
+async function unwrapKey(
+  projectId: string,
+  version: number,
+  wrapped: EncryptedData,
+  masterKey: Uint8Array
+): Promise<Uint8Array> {
+  let encoded: string;
+  try {
+    encoded = await decrypt(wrapped, masterKey, keyAssociatedData(projectId, version));
+  } catch {
+    throw new Error("Cannot unwrap project data key - incorrect master key");
+  }
+  return decodeKey(encoded);
+}
+
+async function createWrappedKey(
+  projectId: string,
+  version: number,
+  masterKey: Uint8Array
+): Promise<WrappedKey> {
+  return {
+    version,
+    wrappedKey: await wrapKey(projectId, version, await generateMasterKey(), masterKey),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A hash committing to a shared project's data key version, signed with the
+ * member list so a key sealed to members by someone else is refused.
+ */
+function keyHash(projectId: string, version: number, encodedKey: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify(["pss-project-key-hash", projectId, version, encodedKey]))
+    .digest("hex");
+}
+
+async function sealKeyForMembers(
+  dataKey: Uint8Array,
+  members: Record<string, ProjectMember>
+): Promise<Record<string, string>> {
+  const encoded = await encodeKey(dataKey);
+  const sealed: Record<string, string> = {};
+  for (const [userId, member] of Object.entries(members)) {
+    sealed[userId] = await sealToPublicKey(encoded, await decodePublicKey(member.publicKey));
+  }
+  return sealed;
+}
+
+async function createMemberKey(
+  projectId: string,
+  version: number,
+  members: Record<string, ProjectMember>
+): Promise<WrappedKey> {
+  const dataKey = await generateMasterKey();
+  return {
+    version,
+    members: await sealKeyForMembers(dataKey, members),
+    keyHash: keyHash(projectId, version, await encodeKey(dataKey)),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * What an owner signs: the members and their roles, and which data key
+ * versions exist and which one is current.
+ */
+function membershipMessage(keys: ProjectKeys, members: Record<string, ProjectMember>): string {
+  const entries = Object.entries(members)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([userId, member]) => [
+      userId,
+      member.role,
+      member.email,
+      member.publicKey,
+      member.signPublicKey,
+    ]);
+  const versions = keys.keys.map((key) => [key.version, key.keyHash ?? null]);
+  return JSON.stringify(["pss-members", keys.projectId, entries, keys.currentVersion, versions]);
+}
+
+function endorsementMessage(projectId: string, userId: string, signPublicKey: string): string {
+  return JSON.stringify(["pss-owner", projectId, userId, signPublicKey]);
+}
+
+function sharedProjectId(signPublicKey: string, nonce: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify(["pss-shared-project", signPublicKey, nonce]))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Owners whose signing keys can be traced back to the project's creator: the
+ * creator, whose key the project ID commits to, and every owner endorsed by
+ * an owner already in the set. Returns their signing keys by user ID.
+ */
+async function getTrustedOwners(keys: ProjectKeys): Promise<Map<string, string>> {
+  const creator = keys.creator;
+  if (!creator || sharedProjectId(creator.signPublicKey, creator.nonce) !== keys.projectId) {
+    throw new Error(
+      "Project creator doesn't match the project ID. It may have been tampered with."
+    );
+  }
+
+  const trusted = new Map([[creator.userId, creator.signPublicKey]]);
+  const owners = Object.entries(keys.members ?? {}).filter(
+    ([userId, member]) => member.role === "owner" && userId !== creator.userId
+  );
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [userId, member] of owners) {
+      const endorserKey = member.endorsement && trusted.get(member.endorsement.signedBy);
+      if (
+        trusted.has(userId) ||
+        !endorserKey ||
+        !(await verifySignature(
+          member.endorsement!.signature,
+          endorsementMessage(keys.projectId, userId, member.signPublicKey),
+          await decodeSigningKey(endorserKey, "public")
+        ))
+      ) {
+        continue;
+      }
+      trusted.set(userId, member.signPublicKey);
+      added = true;
+    }
+  }
+  return trusted;
+}
+
+/**
+ * Sign a shared project's member list. Only owners may change who has access.
+ * Owners who were endorsed by someone no longer an owner are endorsed again by
+ * the signer, so they stay traceable to the creator.
+ */
+export async function signMembers(keys: ProjectKeys, signer: MemberIdentity): Promise<ProjectKeys> {
+  const members = { ...keys.members };
+  if (members[signer.userId]?.role !== "owner") {
+    throw new Error("Only project owners can change who has access");
+  }
+
+  for (const [userId, member] of Object.entries(members)) {
+    const { endorsement, ...rest } = member;
+    if (member.role !== "owner" || userId === keys.creator?.userId) {
+      members[userId] = rest;
+    } else if (members[endorsement?.signedBy ?? ""]?.role !== "owner") {
+      members[userId] = { ...rest, endorsement: await endorseOwner(keys, userId, member, signer) };
+    }
+  }
+
+  const signature = await signMessage(membershipMessage(keys, members), signer.signSecretKey);
+  return { ...keys, members, membersSignature: { signedBy: signer.userId, signature } };
+}
+
+async function endorseOwner(
+  keys: ProjectKeys,
+  userId: string,
+  member: ProjectMember,
+  signer: MemberIdentity
+): Promise<MembershipSignature> {
+  const signature = await signMessage(
+    endorsementMessage(keys.projectId, userId, member.signPublicKey),
+    signer.signSecretKey
+  );
+  return { signedBy: signer.userId, signature };
+}
+
+/**
+ * Check that a shared project's member list was signed by one of its owners,
+ * and that every owner traces back to the creator, so roles can't be changed
+ * by rewriting keys.json in the bucket, even by a member with a signing key.
+ * The signature also covers every data key version and which one is current,
+ * so nobody else can slip in a key of their own.
+ */
+export async function verifyMembers(keys: ProjectKeys): Promise<Record<string, ProjectMember>> {
+  const members = keys.members ?? {};
+  const trusted = await getTrustedOwners(keys);
+  const { signedBy, signature } = keys.membersSignature ?? {};
+  const signerKey = signedBy ? trusted.get(signedBy) : undefined;
+
+  const valid =
+    Object.entries(members).every(
+      ([userId, member]) => member.role !== "owner" || trusted.has(userId)
+    ) &&
+    keys.keys.every((key) => key.keyHash) &&
+    signerKey !== undefined &&
+    members[signedBy!]?.role === "owner" &&
+    (await verifySignature(
+      signature!,
+      membershipMessage(keys, members),
+      await decodeSigningKey(signerKey, "public")
+    ));
+  if (!valid) {
+    throw new Error(
+      "Project membership is not signed by an owner. It may have been tampered with."
+    );
+  }
+  return members;
+}
+
+/**
+ * The role a user has in a project. Personal projects have a single owner; a
+ * shared project without a signed member list grants nothing.
+ */
+async function getMemberRole(
+  keys: ProjectKeys | null,
+  identity: MemberIdentity | undefined,
+  shared: boolean
+): Promise<MemberRole | null> {
+  if (!keys?.members) {
+    if (!shared) {
+      return "owner";
+    }
+    if (keys) {
+      throw new Error(
+        "Project membership is not signed by an owner. It may have been tampered with."
+      );
+    }
+    return null;
+  }
+  const members = await verifyMembers(keys);
+  return identity ? (members[identity.userId]?.role ?? null) : null;
+}
+
+/**
+ * Key ring for a new shared project, with a first data key sealed to the
+ * owner. The project ID is derived from the owner's signing key.
+ */
+export async function createSharedProjectKeys(
+  owner: MemberIdentity,
+  email: string
+): Promise<ProjectKeys> {
+  const signPublicKey = await encodeKey(owner.signPublicKey);
+  const nonce = randomBytes(16).toString("hex");
+  const projectId = sharedProjectId(signPublicKey, nonce);
+  const members: Record<string, ProjectMember> = {
+    [owner.userId]: {
+      email,
+      role: "owner",
+      publicKey: await encodeKey(owner.publicKey),
+      signPublicKey,
+    },
+  };
+  return signMembers(
+    {
+      version: 1,
+      projectId,
+      currentVersion: 1,
+      keys: [await createMemberKey(projectId, 1, members)],
+      creator: { userId: owner.userId, signPublicKey, nonce },
+      members,
+    },
+    owner
+  );
+}
+
+/**
+ * Unwraps project data keys on demand and encrypts file content bound to its
+ * project and path. Content without a key version was encrypted directly with
+ * the master key before data keys existed.
+ */
+export class ProjectKeyRing {
+  private projectId: string;
+  private masterKey: Uint8Array;
+  private keys: ProjectKeys | null;
+  private identity: MemberIdentity | undefined;
+  private unwrapped = new Map<number, Uint8Array>();
+  private macKeys = new Map<number, Uint8Array>();
+  private members: Promise<Record<string, ProjectMember>> | undefined;
+  /** This user's role, or null if they aren't a member */
+  readonly role: MemberRole | null;
+
+  constructor(
+    projectId: string,
+    masterKey: Uint8Array,
+    keys: ProjectKeys | null,
+    identity?: MemberIdentity,
+    role: MemberRole | null = "owner"
+  ) {
+    this.projectId = projectId;
+    this.masterKey = masterKey;
+    this.keys = keys;
+    this.identity = identity;
+    this.role = role;
+  }
+
+  get currentVersion(): number | undefined {
+    return this.keys?.currentVersion;
+  }
+
+  /** Whether this user may push, sync or delete files */
+  get canWrite(): boolean {
+    return this.role === "owner" || this.role === "writer";
+  }
+
+  async keyFor(version?: number): Promise<Uint8Array> {
+    if (version === undefined) {
+      return this.masterKey;
+    }
+
+    const cached = this.unwrapped.get(version);
+    if (cached) {
+      return cached;
+    }
+
+    const wrapped = this.keys?.keys.find((key) => key.version === version);
+    if (!wrapped) {
+      throw new Error(`Project key version ${version} not found`);
+    }
+
+    const key = wrapped.members
+      ? await this.openMemberKey(wrapped)
+      : await unwrapKey(this.projectId, version, wrapped.wrappedKey!, this.masterKey);
+    this.unwrapped.set(version, key);
+    return key;
+  }
+
+  /**
+   * Open this user's copy of a shared data key. The key must match the hash
+   * an owner signed, so a key sealed to members by anyone else is refused.
+   */
+  private async openMemberKey(wrapped: WrappedKey): Promise<Uint8Array> {
+    const sealed = this.identity ? wrapped.members?.[this.identity.userId] : undefined;
+    if (!this.identity || !sealed) {
+      throw new Error("This project has not been shared with you");
+    }
+    const encoded = await openSealedBox(sealed, this.identity.publicKey, this.identity.secretKey);
+    if (!wrapped.keyHash || keyHash(this.projectId, wrapped.version, encoded) !== wrapped.keyHash) {
+      throw new Error(
+        `Project key version ${wrapped.version} is not signed by an owner. It may have been tampered with.`
+      );
+    }
+    return decodeKey(encoded);
+  }
+
+  async encrypt(
+    fileName: string,
+    plaintext: string
+  ): Promise<{ encrypted: EncryptedData; keyVersion?: number }> {
+    const keyVersion = this.currentVersion;
+    const encrypted = await encrypt(
+      plaintext,
+      await this.keyFor(keyVersion),
+      fileAssociatedData(this.projectId, fileName, keyVersion)
+    );
+    return { encrypted, keyVersion };
+  }
+
+  async decrypt(fileName: string, encrypted: EncryptedData, keyVersion?: number): Promise<string> {
+    return decrypt(
+      encrypted,
+      await this.keyFor(keyVersion),
+      fileAssociatedData(this.projectId, fileName, keyVersion)
+    );
+  }
+
+  /**
+   * Encrypt a JSON document (manifest, history) with the current key.
+   */
+  async seal<T>(label: string, value: T): Promise<SealedObject> {
+    const keyVersion = this.currentVersion;
+    const data = await encrypt(
+      JSON.stringify(value),
+      await this.keyFor(keyVersion),
+      objectAssociatedData(this.projectId, label, keyVersion)
+    );
+    return { sealed: 1, keyVersion, data };
+  }
+
+  async open<T>(label: string, sealed: SealedObject): Promise<T> {
+    return JSON.parse(await this.openJson(label, sealed)) as T;
+  }
+
+  /**
+   * Seal a document and sign it with this user's identity key, so members can
+   * tell it was written by someone allowed to. The signature covers the
+   * plaintext, so it survives re-encryption with another key.
+   */
+  async sealSigned<T>(label: string, value: T): Promise<SealedObject> {
+    const sealed = await this.seal(label, value);
+    return { ...sealed, ...(await this.sign(label, value)) };
+  }
+
+  /**
+   * Sign a value with this user's identity key, bound to the project and
+   * `label`, for documents that carry signatures of their own.
+   */
+  async sign<T>(label: string, value: T): Promise<{ signedBy: string; signature: string }> {
+    if (!this.identity) {
+      throw new Error("No identity key to sign with. Run 'pss login' again.");
+    }
+    const signature = await signMessage(
+      signedAssociatedData(this.projectId, label, JSON.stringify(value)),
+      this.identity.signSecretKey
+    );
+    return { signedBy: this.identity.userId, signature };
+  }
+
+  /**
+   * Whether `signature` over `value` was made by someone allowed to write.
+   */
+  async isSignedByWriter<T>(
+    label: string,
+    value: T,
+    signedBy: string,
+    signature: string
+  ): Promise<boolean> {
+    return this.verifyWriterSignature(label, JSON.stringify(value), signedBy, signature);
+  }
+
+  /**
+   * Open a document and check its signature. Returns who signed it, or null
+   * for documents written before signing existed; forged signatures and
+   * signers without write access are rejected.
+   */
+  async openSigned<T>(
+    label: string,
+    sealed: SealedObject
+  ): Promise<{ value: T; signedBy: string | null }> {
+    const json = await this.openJson(label, sealed);
+    const { signedBy, signature } = sealed;
+
+    if (!signedBy || !signature) {
+      return { value: JSON.parse(json) as T, signedBy: null };
+    }
+
+    if (!(await this.verifyWriterSignature(label, json, signedBy, signature))) {
+      throw new Error(
+        `The remote ${label} has an invalid signature. It may have been tampered with.`
+      );
+    }
+    return { value: JSON.parse(json) as T, signedBy };
+  }
+
+  private async verifyWriterSignature(
+    label: string,
+    json: string,
+    signedBy: string,
+    signature: string
+  ): Promise<boolean> {
+    const signerKey = await this.getWriterSigningKey(signedBy);
+    return (
+      signerKey !== null &&
+      verifySignature(signature, signedAssociatedData(this.projectId, label, json), signerKey)
+    );
+  }
+
+  private async openJson(label: string, sealed: SealedObject): Promise<string> {
+    return decrypt(
+      sealed.data,
+      await this.keyFor(sealed.keyVersion),
+      objectAssociatedData(this.projectId, label, sealed.keyVersion)
+    );
+  }
+
+  /**
+   * Signing key of a user allowed to write: a writer or owner of a shared
+   * project, or the user themselves for a personal one.
+   */
+  private async getWriterSigningKey(userId: string): Promise<Uint8Array | null> {
+    if (this.keys?.members) {
+      this.members ??= verifyMembers(this.keys);
+      const member = (await this.members)[userId];
+      return member?.role === "owner" || member?.role === "writer"
+        ? decodeSigningKey(member.signPublicKey, "public")
+        : null;
+    }
+    return this.identity?.userId === userId ? this.identity.signPublicKey : null;
+  }
+
+  /**
+   * Keyed content hash for manifest and history entries. The MAC key is derived
+   * from the current data key, so members removed by a rotation can't confirm
+   * guesses of content written after it. Projects without data keys fall back
+   * to plain hashes.
+   */
+  async hashContent(content: string): Promise<string> {
+    const version = this.keys?.currentVersion;
+    return version === undefined
+      ? hashFile(content)
+      : macContent(content, await this.getMacKey(version), version);
+  }
+
+  /**
+   * Compare content with a stored hash, whichever scheme and key version
+   * produced it. Hashes without a version predate per-version MAC keys and
+   * used the oldest data key.
+   */
+  async matchesHash(hash: string, content: string): Promise<boolean> {
+    if (hash.startsWith("sha256:")) {
+      return hash === (await hashFile(content));
+    }
+    const versions = (this.keys?.keys ?? []).map((key) => key.version);
+    if (versions.length === 0) {
+      return false;
+    }
+
+    const versioned = /^mac:(\d+):/.exec(hash);
+    const version = versioned ? Number(versioned[1]) : Math.min(...versions);
+    if (!versions.includes(version)) {
+      return false;
+    }
+    const macKey = await this.getMacKey(version);
+    return hash === (await macContent(content, macKey, versioned ? version : undefined));
+  }
+
+  private async getMacKey(version: number): Promise<Uint8Array> {
+    let macKey = this.macKeys.get(version);
+    if (!macKey) {
+      macKey = await deriveSubkey(await this.keyFor(version), "pss-content-mac");
+      this.macKeys.set(version, macKey);
+    }
+    return macKey;
+  }
+
+  /**
+   * Check whether content decrypts with the master key or any data key version.
+   */
+  async canDecrypt(fileName: string, encrypted: EncryptedData): Promise<boolean> {
+    const versions = [undefined, ...(this.keys?.keys ?? []).map((key) => key.version)];
+
+    for (const version of versions) {
+      try {
+        await this.decrypt(fileName, encrypted, version);
+        return true;
+      } catch {
+        // Try the next version
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Open a project's key ring. With `create`, a first data key is generated if
+ * the project doesn't have one yet (used by commands that upload content).
+ */
+export async function openProjectKeyRing(
+  storage: StorageBackend,
+  project: Pick<ProjectRef, "id" | "root" | "shared">,
+  masterKey: Uint8Array,
+  options: { create?: boolean; identity?: MemberIdentity } = {}
+): Promise<ProjectKeyRing> {
+  const loaded = await loadProjectKeys(storage, project.root);
+  const open = async (keys: ProjectKeys | null) => {
+    if (keys && keys.projectId !== project.id) {
+      throw new Error("Project keys belong to another project. They may have been tampered with.");
+    }
+    return new ProjectKeyRing(
+      project.id,
+      masterKey,
+      keys,
+      options.identity,
+      await getMemberRole(keys, options.identity, project.shared === true)
+    );
+  };
+
+  if (loaded || !options.create) {
+    return open(loaded?.keys ?? null);
+  }
+
+  const keys: ProjectKeys = {
+    version: 1,
+    projectId: project.id,
+    currentVersion: 1,
+    keys: [await createWrappedKey(project.id, 1, masterKey)],
+  };
+
+  try {
+    await storage.uploadJson(getProjectKeysPath(project.root), keys, { ifNoneMatch: "*" });
+    return open(keys);
+  } catch (error) {
+    if (!(error instanceof PreconditionFailedError)) {
+      throw error;
+    }
+    // Another machine created the key ring first; use theirs
+    const latest = await loadProjectKeys(storage, project.root);
+    return open(latest?.keys ?? null);
+  }
+}
+
+/**
+ * Add a new data key version and make it current. Older versions are kept so
+ * existing revisions remain readable. Returns the new version number.
+ */
+export async function rotateProjectKey(
+  storage: StorageBackend,
+  project: Pick<ProjectRef, "id" | "root">,
+  masterKey: Uint8Array,
+  identity?: MemberIdentity
+): Promise<number> {
+  const loaded = await loadProjectKeys(storage, project.root);
+
+  if (!loaded) {
+    const ring = await openProjectKeyRing(storage, project, masterKey, { create: true });
+    return ring.currentVersion!;
+  }
+
+  // Make sure we can actually open this ring before extending it
+  const ring = await openProjectKeyRing(storage, project, masterKey, { identity });
+  if (ring.role !== "owner") {
+    throw new Error("Only project owners can rotate its key");
+  }
+  await ring.keyFor(loaded.keys.currentVersion);
+
+  const version = Math.max(...loaded.keys.keys.map((key) => key.version)) + 1;
+  const newKey = loaded.keys.members
+    ? await createMemberKey(project.id, version, loaded.keys.members)
+    : await createWrappedKey(project.id, version, masterKey);
+  let keys: ProjectKeys = {
+    ...loaded.keys,
+    currentVersion: version,
+    keys: [...loaded.keys.keys, newKey],
+  };
+  if (keys.members) {
+    // The new version and its hash are part of what owners sign
+    keys = await signMembers(keys, identity!);
+  }
+
+  await saveProjectKeys(storage, project.root, keys, loaded);
+  return version;
+}
+
+/**
+ * Give a member access to every data key version of a shared project, or
+ * change the role of an existing member. Signed by `owner`.
+ */
+export async function addProjectMember(
+  keyRing: ProjectKeyRing,
+  keys: ProjectKeys,
+  userId: string,
+  member: ProjectMember,
+  owner: MemberIdentity
+): Promise<ProjectKeys> {
+  // Only extend a member list an owner signed
+  await verifyMembers(keys);
+  if (userId === keys.creator?.userId && member.role !== "owner") {
+    throw new Error("The project's creator always stays an owner");
+  }
+  if (member.role === "owner") {
+    member = { ...member, endorsement: await endorseOwner(keys, userId, member, owner) };
+  }
+
+  const next: WrappedKey[] = [];
+  for (const key of keys.keys) {
+    const sealed = await sealKeyForMembers(await keyRing.keyFor(key.version), {
+      [userId]: member,
+    });
+    next.push({ ...key, members: { ...key.members, ...sealed } });
+  }
+  return signMembers(
+    { ...keys, keys: next, members: { ...keys.members, [userId]: member } },
+    owner
+  );
+}
+
+/**
+ * Remove a member's copies of the data keys and start a new data key version
+ * sealed only to the remaining members, so content pushed from now on uses a
+ * key the removed member never had. Signed by `owner`.
+ */
+export async function revokeProjectMember(
+  keys: ProjectKeys,
+  userId: string,
+  owner: MemberIdentity
+): Promise<ProjectKeys> {
+  const members = { ...(await verifyMembers(keys)) };
+  if (userId === keys.creator?.userId) {
+    throw new Error("The project's creator can't be removed");
+  }
+  delete members[userId];
+
+  const remaining = keys.keys.map((key) => {
+    const sealed = { ...key.members };
+    delete sealed[userId];
+    return { ...key, members: sealed };
+  });
+  const version = Math.max(...keys.keys.map((key) => key.version)) + 1;
+
+  return signMembers(
+    {
+      ...keys,
+      members,
+      currentVersion: version,
+      keys: [...remaining, await createMemberKey(keys.projectId, version, members)],
+    },
+    owner
+  );
+}
+
+/**
+ * Re-wrap every data key in a key ring from one master key to another. Keys
+ * already wrapped with the new master key are left as they are.
+ */
+export async function rewrapProjectKeys(
+  keys: ProjectKeys,
+  oldMasterKey: Uint8Array,
+  newMasterKey: Uint8Array
+): Promise<{ keys: ProjectKeys; rewrapped: number }> {
+  let rewrapped = 0;
+  const next: WrappedKey[] = [];
+
+  for (const key of keys.keys) {
+    if (!key.wrappedKey) {
+      next.push(key);
+      continue;
+    }
+
+    try {
+      await unwrapKey(keys.projectId, key.version, key.wrappedKey, newMasterKey);
+      next.push(key);
+      continue;
+    } catch {
+      // Still wrapped with the old master key
+    }
+
+    const dataKey = await unwrapKey(keys.projectId, key.version, key.wrappedKey, oldMasterKey);
+    next.push({
+      ...key,
+      wrappedKey: await wrapKey(keys.projectId, key.version, dataKey, newMasterKey),
+    });
+    rewrapped++;
+  }
+
+  return { keys: { ...keys, keys: next }, rewrapped };
+}
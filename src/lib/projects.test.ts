@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { generateMasterKey } from "./crypto.ts";
+import { createUserIndex, saveUserIndex } from "./master-key.ts";
+import { listProjects, resolveProject } from "./projects.ts";
+
+describe("project IDs", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let masterKey: Uint8Array;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-projects-"));
+    storage = new FilesystemBackend(root);
+    masterKey = await generateMasterKey();
+    await saveUserIndex(storage, "u1", await createUserIndex("random", masterKey), null);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should give new projects an opaque ID recorded in the encrypted index", async () => {
+    expect(await resolveProject(storage, "u1", masterKey, "my-app")).toEqual({
+      name: "my-app",
+      id: "my-app",
+      root: "users/u1/projects/my-app",
+    });
+
+    const created = await resolveProject(storage, "u1", masterKey, "my-app", { create: true });
+    expect(created.id).toMatch(/^[0-9a-f]{32}$/);
+    expect(await resolveProject(storage, "u1", masterKey, "my-app")).toEqual(created);
+
+    const raw = (await storage.download("users/u1/index.json")).toString("utf-8");
+    expect(raw).not.toContain("my-app");
+  });
+
+  it("should keep projects stored under their name before IDs existed", async () => {
+    await storage.uploadJson("users/u1/projects/legacy/manifest.json", { files: [] });
+
+    const legacy = await resolveProject(storage, "u1", masterKey, "legacy", { create: true });
+    expect(legacy).toEqual({ name: "legacy", id: "legacy", root: "users/u1/projects/legacy" });
+
+    const created = await resolveProject(storage, "u1", masterKey, "new", { create: true });
+    await storage.uploadJson(`users/u1/projects/${created.id}/manifest.json`, {});
+
+    expect(await listProjects(storage, "u1", masterKey)).toEqual([legacy, created]);
+  });
+});
@@ -0,0 +1,338 @@
+import { randomBytes } from "node:crypto";
+import { requireAuth } from "./auth.ts";
+import { getIdentity, loadIdentity, readShareNotices, verifyShareNotice } from "./identity.ts";
+import {
+  getEncryptionKey,
+  loadUserIndex,
+  openUserIndexPayload,
+  updateUserIndexPayload,
+} from "./master-key.ts";
+import { openProjectKeyRing } from "./project-keys.ts";
+import type { ProjectKeyRing } from "./project-keys.ts";
+import { getServiceToken, openProjectWithToken } from "./service-tokens.ts";
+import type { ServiceToken } from "./service-tokens.ts";
+import { getProjectRoot, getProjectsPrefix, getSharedProjectRoot } from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+import type { MemberRole, ProjectRef, ShareNotice, UserIndexPayload } from "../types/index.ts";
+
+/**
+ * IDs of every personal project directory in the bucket. Projects created
+ * before IDs existed are stored under their name.
+ */
+async function listStoredProjectIds(storage: StorageBackend, userId: string): Promise<Set<string>> {
+  const prefix = getProjectsPrefix(userId);
+  const keys = await storage.list(prefix);
+  return new Set(keys.map((key) => key.slice(prefix.length).split("/")[0]!).filter(Boolean));
+}
+
+function personalProject(userId: string, name: string, id: string): ProjectRef {
+  return { name, id, root: getProjectRoot(userId, id) };
+}
+
+function sharedProject(name: string, id: string): ProjectRef {
+  return { name, id, root: getSharedProjectRoot(id), shared: true };
+}
+
+async function loadPayload(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array
+): Promise<UserIndexPayload> {
+  const loaded = await loadUserIndex(storage, userId);
+  return openUserIndexPayload(userId, loaded?.index ?? null, masterKey);
+}
+
+/**
+ * Notices of projects shared with this user, from their inbox. Anyone who can
+ * write to the bucket can put one there, so they are only listed as
+ * invitations until the user accepts one.
+ */
+async function readInbox(
+  storage: StorageBackend,
+  userId: string,
+  payload: UserIndexPayload
+): Promise<ShareNotice[]> {
+  const identity = await getIdentity(userId, payload);
+  return identity ? readShareNotices(storage, identity) : [];
+}
+
+/**
+ * Shared projects the user accepted and still has a notice for; removing a
+ * member withdraws their notice.
+ */
+function listJoinedProjects(payload: UserIndexPayload, notices: ShareNotice[]): ProjectRef[] {
+  return Object.entries(payload.joined ?? {})
+    .filter(([, id]) => notices.some((notice) => notice.projectId === id))
+    .map(([name, id]) => sharedProject(name, id));
+}
+
+/**
+ * Find where a project is stored. Projects are looked up in the encrypted
+ * user index, including shared ones the user accepted; projects that already
+ * exist under their name keep using it. With `create`, a new personal project
+ * is given a random ID. Invitations are never used here, so a project shared
+ * under the same name can't take over a push: they must be accepted first.
+ */
+export async function resolveProject(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  projectName: string,
+  options: { create?: boolean } = {}
+): Promise<ProjectRef> {
+  const payload = await loadPayload(storage, userId, masterKey);
+
+  const known = findInPayload(userId, payload, projectName);
+  if (known) {
+    return known;
+  }
+
+  const notices = await readInbox(storage, userId, payload);
+  const joined = listJoinedProjects(payload, notices).find(
+    (project) => project.name === projectName
+  );
+  if (joined) {
+    return joined;
+  }
+
+  const legacy = (await listStoredProjectIds(storage, userId)).has(projectName);
+  if (!legacy && !options.create) {
+    const invitation = notices.find((notice) => notice.projectName === projectName);
+    if (invitation) {
+      throw new Error(
+        `"${projectName}" was shared with you by ${invitation.sharedBy}. ` +
+          `Run 'pss accept ${projectName}' to use it.`
+      );
+    }
+  }
+  if (legacy || !options.create) {
+    return personalProject(userId, projectName, projectName);
+  }
+
+  const updated = await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    if (findInPayload(userId, current, projectName)) {
+      return null;
+    }
+    // A project the user was removed from no longer holds the name
+    delete current.joined?.[projectName];
+    current.projects[projectName] = randomBytes(16).toString("hex");
+    return current;
+  });
+  return findInPayload(userId, updated, projectName)!;
+}
+
+function findInPayload(
+  userId: string,
+  payload: UserIndexPayload,
+  projectName: string
+): ProjectRef | null {
+  const sharedId = payload.shared?.[projectName];
+  if (sharedId) {
+    return sharedProject(projectName, sharedId);
+  }
+  const id = payload.projects[projectName];
+  return id ? personalProject(userId, projectName, id) : null;
+}
+
+/**
+ * Resolve a project and open its key ring, with the user's identity to open
+ * shared data keys and sign manifests.
+ */
+export async function openProject(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  projectName: string,
+  options: { create?: boolean } = {}
+): Promise<{ project: ProjectRef; keyRing: ProjectKeyRing }> {
+  const project = await resolveProject(storage, userId, masterKey, projectName, options);
+  const identity = await loadIdentity(storage, userId, masterKey);
+
+  const keyRing = await openProjectKeyRing(storage, project, masterKey, {
+    // Shared projects get their key ring when they are shared
+    create: options.create && !project.shared,
+    identity,
+  });
+  return { project, keyRing };
+}
+
+/**
+ * Who a command that reads or writes project files runs as: the logged-in
+ * user, or a service token from PSS_TOKEN.
+ */
+export type Caller =
+  | { kind: "user"; userId: string; masterKey: Uint8Array }
+  | { kind: "token"; token: ServiceToken };
+
+/**
+ * Find out who the command runs as. A service token in PSS_TOKEN takes
+ * precedence over a login, so pipelines don't need a user account.
+ */
+export async function requireCaller(storage: StorageBackend): Promise<Caller> {
+  const token = await getServiceToken();
+  if (token) {
+    return { kind: "token", token };
+  }
+
+  const auth = await requireAuth();
+  return {
+    kind: "user",
+    userId: auth.userId,
+    masterKey: await getEncryptionKey(auth.userId, storage),
+  };
+}
+
+/**
+ * Open a project as the caller. Service tokens can't create projects.
+ */
+export async function openProjectAs(
+  storage: StorageBackend,
+  caller: Caller,
+  projectName: string,
+  options: { create?: boolean } = {}
+): Promise<{ project: ProjectRef; keyRing: ProjectKeyRing }> {
+  if (caller.kind === "token") {
+    return openProjectWithToken(storage, caller.token, projectName);
+  }
+  return openProject(storage, caller.userId, caller.masterKey, projectName, options);
+}
+
+/**
+ * Refuse to change a shared project's files unless the user's role allows it.
+ * This is enforced by pss, not by storage: readers still hold the data key.
+ */
+export function assertCanWrite(project: ProjectRef, keyRing: ProjectKeyRing): void {
+  if (!keyRing.canWrite) {
+    throw new Error(
+      `You have ${keyRing.role ?? "no"} access to "${project.name}" and can't change its files. ` +
+        "Ask a project owner for the writer role."
+    );
+  }
+}
+
+/**
+ * Record that a project now lives in the shared namespace.
+ */
+export async function recordSharedProject(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  project: ProjectRef
+): Promise<void> {
+  await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    delete current.projects[project.name];
+    current.shared = { ...current.shared, [project.name]: project.id };
+    return current;
+  });
+}
+
+/**
+ * Invitations to shared projects the user hasn't accepted yet.
+ */
+export async function listInvitations(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array
+): Promise<ShareNotice[]> {
+  const payload = await loadPayload(storage, userId, masterKey);
+  const known = new Set([
+    ...Object.values(payload.shared ?? {}),
+    ...Object.values(payload.joined ?? {}),
+  ]);
+  const notices = await readInbox(storage, userId, payload);
+  return notices.filter((notice) => !known.has(notice.projectId));
+}
+
+/**
+ * Accept an invitation to a shared project, under its own name or `localName`.
+ * The notice must be signed by the owner it names, whose keys are pinned, and
+ * the project's signed member list must include the user. The project is then
+ * recorded in the user index and resolved by name like the user's own.
+ */
+export async function acceptSharedProject(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  projectName: string,
+  localName = projectName
+): Promise<{ project: ProjectRef; role: MemberRole; sharedBy: string }> {
+  const notice = (await listInvitations(storage, userId, masterKey)).find(
+    (invitation) => invitation.projectName === projectName
+  );
+  if (!notice) {
+    throw new Error(`No invitation to a project named "${projectName}".`);
+  }
+  await verifyShareNotice(storage, userId, masterKey, notice);
+
+  const project = sharedProject(localName, notice.projectId);
+  const keyRing = await openProjectKeyRing(storage, project, masterKey, {
+    identity: await loadIdentity(storage, userId, masterKey),
+  });
+  if (!keyRing.role) {
+    throw new Error(`You are not a member of "${projectName}". Ask its owner to share it again.`);
+  }
+
+  const legacy = (await listStoredProjectIds(storage, userId)).has(localName);
+  await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    if (legacy || findInPayload(userId, current, localName)) {
+      throw new Error(
+        `You already have a project named "${localName}". Accept it under another name with --as.`
+      );
+    }
+    current.joined = { ...current.joined, [localName]: project.id };
+    return current;
+  });
+  return { project, role: keyRing.role, sharedBy: notice.sharedBy };
+}
+
+/**
+ * Drop a deleted shared project from the user index.
+ */
+export async function forgetSharedProject(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array,
+  project: ProjectRef
+): Promise<void> {
+  await updateUserIndexPayload(storage, userId, masterKey, (current) => {
+    if (current.shared?.[project.name] === project.id) {
+      delete current.shared[project.name];
+    } else if (current.joined?.[project.name] === project.id) {
+      delete current.joined[project.name];
+    } else {
+      return null;
+    }
+    return current;
+  });
+}
+
+/**
+ * List every project: those named in the user index, shared ones the user
+ * accepted, and legacy projects stored under their name.
+ */
+export async function listProjects(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array
+): Promise<ProjectRef[]> {
+  const payload = await loadPayload(storage, userId, masterKey);
+  const storedIds = await listStoredProjectIds(storage, userId);
+
+  const projects = Object.entries(payload.projects)
+    .filter(([, id]) => storedIds.has(id))
+    .map(([name, id]) => personalProject(userId, name, id));
+  const mappedIds = new Set(Object.values(payload.projects));
+
+  for (const id of storedIds) {
+    if (!mappedIds.has(id)) {
+      projects.push(personalProject(userId, id, id));
+    }
+  }
+
+  for (const [name, id] of Object.entries(payload.shared ?? {})) {
+    projects.push(sharedProject(name, id));
+  }
+  projects.push(...listJoinedProjects(payload, await readInbox(storage, userId, payload)));
+
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
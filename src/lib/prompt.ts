@@ -0,0 +1,73 @@
+import { createInterface } from "node:readline/promises";
+
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY) && !process.env.CI;
+}
+
+/**
+ * Prompt for a value without echoing it to the terminal.
+ */
+export function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error("Cannot prompt for secrets without a terminal"));
+  }
+
+  process.stdout.write(question);
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+
+    const finish = (error?: Error) => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdin.removeListener("data", onData);
+      process.stdout.write("\n");
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve(value);
+      }
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf-8")) {
+        if (char === "\r" || char === "\n" || char === "\u0004") {
+          finish();
+          return;
+        }
+        if (char === "\u0003") {
+          finish(new Error("Cancelled"));
+          return;
+        }
+        if (char === "\u007f" || char === "\b") {
+          value = value.slice(0, -1);
+        } else {
+          value += char;
+        }
+      }
+    };
+
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * Prompt for a line of visible input.
+ */
+export async function promptLine(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error("Cannot prompt without a terminal");
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await rl.question(question);
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { generateMasterKey } from "./crypto.ts";
+import {
+  encodeRecoveryCode,
+  formatRecoveryKit,
+  parseRecoveryKit,
+  recoveryChecksum,
+} from "./recovery-kit.ts";
+
+describe("recovery kit", () => {
+  it("should restore the user ID and key from a printed kit", async () => {
+    const key = await generateMasterKey();
+    const kit = await formatRecoveryKit({
+      userId: "1234567890",
+      key,
+      email: "dev@example.com",
+      keyMode: "passphrase",
+      projects: ["api", "web"],
+    });
+
+    expect(kit).toContain("Projects: api, web");
+    expect(await parseRecoveryKit(kit)).toEqual({ userId: "1234567890", key });
+  });
+
+  it("should accept a hand-typed code with its checksum", async () => {
+    const key = await generateMasterKey();
+    const code = await encodeRecoveryCode("u1", key);
+    const typed = `${code.slice(0, 20)} ${code.slice(20)}\n`;
+
+    expect(await parseRecoveryKit(typed, recoveryChecksum(code).toUpperCase())).toEqual({
+      userId: "u1",
+      key,
+    });
+  });
+
+  it("should reject a code with a typo", async () => {
+    const code = await encodeRecoveryCode("u1", await generateMasterKey());
+    const typo = code.slice(0, -1) + (code.endsWith("A") ? "B" : "A");
+
+    await expect(parseRecoveryKit(typo, recoveryChecksum(code))).rejects.toThrow("typos");
+  });
+});
@@ -0,0 +1,133 @@
+import { createHash } from "node:crypto";
+import { decodeKey, encodeKey } from "./crypto.ts";
+import type { KeyMode } from "../types/index.ts";
+
+const CODE_PREFIX = "pss1-";
+const CODE_LINE_LENGTH = 48;
+
+/**
+ * Everything needed to regain access to remote data: the storage namespace
+ * (user ID) and the master key, plus metadata to help identify the kit later.
+ */
+export interface RecoveryKit {
+  userId: string;
+  key: Uint8Array;
+  email?: string;
+  keyMode?: KeyMode;
+  storage?: string;
+  projects?: string[];
+  createdAt?: string;
+}
+
+interface RecoveryCodePayload {
+  u: string;
+  k: string;
+}
+
+/**
+ * Short checksum of a recovery code, so typos are caught before the key is tried.
+ */
+export function recoveryChecksum(code: string): string {
+  const digest = createHash("sha256").update(normalizeCode(code)).digest("hex").slice(0, 12);
+  return digest.match(/.{4}/g)!.join("-");
+}
+
+export async function encodeRecoveryCode(userId: string, key: Uint8Array): Promise<string> {
+  const payload: RecoveryCodePayload = { u: userId, k: await encodeKey(key) };
+  return CODE_PREFIX + Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export async function decodeRecoveryCode(
+  code: string
+): Promise<Pick<RecoveryKit, "userId" | "key">> {
+  const normalized = normalizeCode(code);
+  if (!normalized.startsWith(CODE_PREFIX)) {
+    throw new Error("Not a pss recovery code");
+  }
+
+  let payload: RecoveryCodePayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(normalized.slice(CODE_PREFIX.length), "base64url").toString("utf-8")
+    ) as RecoveryCodePayload;
+  } catch {
+    throw new Error("Recovery code is damaged");
+  }
+
+  if (typeof payload.u !== "string" || typeof payload.k !== "string") {
+    throw new Error("Recovery code is damaged");
+  }
+  return { userId: payload.u, key: await decodeKey(payload.k) };
+}
+
+/**
+ * Render a recovery kit as plain text suitable for printing.
+ */
+export async function formatRecoveryKit(kit: RecoveryKit): Promise<string> {
+  const code = await encodeRecoveryCode(kit.userId, kit.key);
+  const codeLines = code.match(new RegExp(`.{1,${CODE_LINE_LENGTH}}`, "g"))!;
+
+  return [
+    "PSS RECOVERY KIT",
+    "",
+    "Anyone with this kit and access to your storage can decrypt your settings.",
+    "Print it or keep it in a password manager, then delete any copies on disk.",
+    "",
+    `Created:  ${kit.createdAt ?? new Date().toISOString()}`,
+    `Account:  ${kit.email ? `${kit.email} ` : ""}(${kit.userId})`,
+    `Key mode: ${kit.keyMode ?? "legacy"}`,
+    ...(kit.storage ? [`Storage:  ${kit.storage}`] : []),
+    `Projects: ${kit.projects && kit.projects.length > 0 ? kit.projects.join(", ") : "(none)"}`,
+    "",
+    "Recovery code:",
+    ...codeLines.map((line) => `  ${line}`),
+    "",
+    `Checksum: ${recoveryChecksum(code)}`,
+    "",
+    "Restore with: pss key import <this file>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Read the recovery code back from a kit (or from the code and checksum typed
+ * in by hand) and verify it against its checksum.
+ */
+export async function parseRecoveryKit(
+  text: string,
+  checksum?: string
+): Promise<Pick<RecoveryKit, "userId" | "key">> {
+  const lines = text.split(/\r?\n/);
+  const codeStart = lines.findIndex((line) => line.trim() === "Recovery code:");
+
+  let code: string;
+  if (codeStart >= 0) {
+    const codeLines: string[] = [];
+    for (const line of lines.slice(codeStart + 1)) {
+      if (!line.trim()) break;
+      codeLines.push(line);
+    }
+    code = codeLines.join("");
+  } else {
+    code = text;
+  }
+
+  const expected =
+    checksum ??
+    lines
+      .map((line) => /^Checksum:\s*(\S+)/.exec(line.trim())?.[1])
+      .find((value) => value !== undefined);
+
+  if (!expected) {
+    throw new Error("Recovery kit has no checksum");
+  }
+  if (expected.trim().toLowerCase() !== recoveryChecksum(code)) {
+    throw new Error("Recovery code doesn't match its checksum - check for typos");
+  }
+
+  return decodeRecoveryCode(code);
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/\s+/g, "");
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { normalizeEndpoint, resolveS3Options } from "./s3-client.ts";
+import type { S3Config } from "../types/index.ts";
+
+const baseConfig: S3Config = {
+  endpoint: "",
+  accessKeyId: "key",
+  secretAccessKey: "secret",
+  bucket: "settings",
+  region: "",
+};
+
+describe("normalizeEndpoint", () => {
+  it("should default bare hostnames to https", () => {
+    expect(normalizeEndpoint("s3.us-east-005.backblazeb2.com")).toBe(
+      "https://s3.us-east-005.backblazeb2.com"
+    );
+  });
+
+  it("should keep an explicit scheme and port", () => {
+    expect(normalizeEndpoint("http://localhost:9000")).toBe("http://localhost:9000");
+    expect(normalizeEndpoint("https://minio.internal:9443/")).toBe("https://minio.internal:9443");
+  });
+});
+
+describe("resolveS3Options", () => {
+  it("should apply provider defaults", () => {
+    const options = resolveS3Options({
+      ...baseConfig,
+      provider: "minio",
+      endpoint: "http://localhost:9000",
+    });
+
+    expect(options.endpoint).toBe("http://localhost:9000");
+    expect(options.forcePathStyle).toBe(true);
+    expect(options.region).toBe("us-east-1");
+  });
+
+  it("should let explicit settings override provider defaults", () => {
+    const options = resolveS3Options({
+      ...baseConfig,
+      provider: "r2",
+      endpoint: "acct.r2.cloudflarestorage.com",
+      forcePathStyle: false,
+      sessionToken: "token",
+    });
+
+    expect(options.region).toBe("auto");
+    expect(options.forcePathStyle).toBe(false);
+    expect(options.sessionToken).toBe("token");
+  });
+
+  it("should allow AWS without an endpoint", () => {
+    const options = resolveS3Options({ ...baseConfig, provider: "aws", region: "eu-west-1" });
+
+    expect(options.endpoint).toBeUndefined();
+    expect(options.region).toBe("eu-west-1");
+    expect(options.forcePathStyle).toBe(false);
+  });
+
+  it("should require an endpoint for other providers", () => {
+    expect(() => resolveS3Options({ ...baseConfig, provider: "minio" })).toThrow(
+      "S3 endpoint not configured"
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  HeadObjectCommand,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { readFileSync } from "node:fs";
+import { Agent } from "node:https";
+import type { GlobalConfig, S3Config } from "../types/index.ts";
+import { S3_PROVIDER_DEFAULTS } from "../types/index.ts";
+import type { StorageBackend, UploadOptions, VersionedObject } from "./storage.ts";
+import { ConditionalWriteUnsupportedError, PreconditionFailedError } from "./storage-errors.ts";
+
+export interface S3StorageOptions {
+  /** Full endpoint URL including scheme and optional port */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  forcePathStyle: boolean;
+  /** Path to a PEM bundle of additional trusted CA certificates */
+  caBundle?: string;
+}
+
+/**
+ * Storage backend for any S3-compatible object store.
+ */
+export class S3StorageClient implements StorageBackend {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3StorageOptions) {
+    const s3Config: S3ClientConfig = {
+      endpoint: options.endpoint,
+      region: options.region,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+        sessionToken: options.sessionToken,
+      },
+      forcePathStyle: options.forcePathStyle,
+    };
+
+    if (options.caBundle) {
+      s3Config.requestHandler = {
+        httpsAgent: new Agent({ ca: readFileSync(options.caBundle) }),
+      };
+    }
+
+    this.client = new S3Client(s3Config);
+    this.bucket = options.bucket;
+  }
+
+  async upload(
+    key: string,
+    data: string | Buffer,
+    contentType = "application/octet-stream",
+    options: UploadOptions = {}
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: typeof data === "string" ? Buffer.from(data) : data,
+      ContentType: contentType,
+      IfMatch: options.ifMatch,
+      IfNoneMatch: options.ifNoneMatch,
+    });
+
+    try {
+      await this.client.send(command);
+    } catch (error) {
+      const name = (error as { name?: string }).name;
+      if (name === "PreconditionFailed" || name === "ConditionalRequestConflict") {
+        throw new PreconditionFailedError(key);
+      }
+      if (name === "NotImplemented" && (options.ifMatch || options.ifNoneMatch)) {
+        // A plain write here could silently undo a concurrent change
+        throw new ConditionalWriteUnsupportedError(
+          key,
+          "this S3-compatible store doesn't support conditional writes (If-Match / If-None-Match)"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const { data } = await this.getObject(key);
+    return data;
+  }
+
+  async downloadVersioned(key: string): Promise<VersionedObject | null> {
+    try {
+      return await this.getObject(key);
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async downloadJson<T>(key: string): Promise<T> {
+    const data = await this.download(key);
+    return JSON.parse(data.toString("utf-8")) as T;
+  }
+
+  async uploadJson<T>(key: string, data: T, options?: UploadOptions): Promise<void> {
+    await this.upload(key, JSON.stringify(data, null, 2), "application/json", options);
+  }
+
+  async delete(key: string): Promise<void> {
+    const command = new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    await this.client.send(command);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if ((error as { name?: string }).name === "NotFound") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const command = new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      });
+
+      const response = await this.client.send(command);
+
+      if (response.Contents) {
+        for (const obj of response.Contents) {
+          if (obj.Key) {
+            keys.push(obj.Key);
+          }
+        }
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const command = new ListObjectsV2Command({
+        Bucket: this.bucket,
+        MaxKeys: 1,
+      });
+      await this.client.send(command);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async getObject(key: string): Promise<VersionedObject> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const response = await this.client.send(command);
+    if (!response.Body) {
+      throw new Error(`No body in response for ${key}`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of response.Body as AsyncIterable<Uint8Array>) {
+      chunks.push(chunk);
+    }
+
+    return { data: Buffer.concat(chunks), etag: response.ETag ?? "" };
+  }
+}
+
+/**
+ * Accept endpoints with or without a scheme. Bare hostnames default to HTTPS;
+ * an explicit http:// is kept so local stores like MinIO work without TLS.
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  const trimmed = endpoint.trim().replace(/\/+$/, "");
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return trimmed;
+  }
+  return `https://${trimmed}`;
+}
+
+export function createS3Client(config: GlobalConfig): S3StorageClient {
+  const s3 = config.s3;
+  if (!s3?.accessKeyId || !s3.secretAccessKey) {
+    throw new Error(
+      "S3 credentials not configured. Run 'pss config set s3.accessKeyId' and 's3.secretAccessKey' first."
+    );
+  }
+  if (!s3.bucket) {
+    throw new Error("S3 bucket not configured. Run 'pss config set s3.bucket' first.");
+  }
+
+  return new S3StorageClient(resolveS3Options(s3));
+}
+
+export function resolveS3Options(s3: S3Config): S3StorageOptions {
+  const defaults = S3_PROVIDER_DEFAULTS[s3.provider ?? "custom"];
+
+  if (!s3.endpoint && s3.provider !== "aws") {
+    throw new Error("S3 endpoint not configured. Run 'pss config set s3.endpoint' first.");
+  }
+
+  return {
+    endpoint: s3.endpoint ? normalizeEndpoint(s3.endpoint) : undefined,
+    region: s3.region || defaults.region,
+    bucket: s3.bucket,
+    accessKeyId: s3.accessKeyId,
+    secretAccessKey: s3.secretAccessKey,
+    sessionToken: s3.sessionToken || undefined,
+    forcePathStyle: s3.forcePathStyle ?? defaults.forcePathStyle,
+    caBundle: s3.caBundle || undefined,
+  };
+}
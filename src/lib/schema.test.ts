@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkSchema, getBaseLayers, parseSchema, validateEnvFile } from "./schema.ts";
+import type { ProjectConfig } from "../types/index.ts";
+
+const schema = parseSchema(
+  "env.schema.json",
+  JSON.stringify({
+    variables: {
+      PORT: { type: "integer", required: true },
+      RATIO: { type: "number" },
+      DEBUG: { type: "boolean" },
+      API_URL: { type: "url" },
+      LOG_LEVEL: { enum: ["debug", "info"] },
+      API_KEY: { pattern: "^sk_", required: true },
+    },
+  })
+);
+
+describe("validateEnvFile", () => {
+  it("should accept values that follow the rules and ignore unknown keys", () => {
+    const content = [
+      "PORT=8080",
+      "RATIO=0.5",
+      "DEBUG=yes",
+      "API_URL=https://api.example.com",
+      "LOG_LEVEL=info",
+      "API_KEY=sk_live_123",
+      "EXTRA=anything",
+    ].join("\n");
+
+    expect(validateEnvFile(schema, ".env", content)).toEqual([]);
+    expect(validateEnvFile(schema, ".env", "PORT=1\nAPI_KEY=sk_1\nRATIO=\n")).toEqual([]);
+  });
+
+  it("should report each broken rule per key without revealing values", () => {
+    const content = "PORT=80a\nRATIO=lots\nDEBUG=maybe\nAPI_URL=nope\nLOG_LEVEL=warn\nAPI_KEY=\n";
+
+    expect(validateEnvFile(schema, ".env", content)).toEqual([
+      { file: ".env", key: "PORT", message: "must be an integer" },
+      { file: ".env", key: "RATIO", message: "must be a number" },
+      { file: ".env", key: "DEBUG", message: "must be true or false" },
+      { file: ".env", key: "API_URL", message: "must be a URL" },
+      { file: ".env", key: "LOG_LEVEL", message: "must be one of: debug, info" },
+      { file: ".env", key: "API_KEY", message: "is required but empty" },
+    ]);
+    expect(validateEnvFile(schema, ".env", "API_KEY=pk_1\n")).toEqual([
+      { file: ".env", key: "PORT", message: "is required" },
+      { file: ".env", key: "API_KEY", message: "must match /^sk_/" },
+    ]);
+  });
+
+  it("should reject malformed schemas", () => {
+    expect(() => parseSchema("s.json", "{")).toThrow(/Invalid schema s.json/);
+    expect(() => parseSchema("s.json", '{"keys":{}}')).toThrow(/"variables" object/);
+    expect(() => parseSchema("s.json", '{"variables":{"A":{"type":"date"}}}')).toThrow(
+      'A has unknown type "date"'
+    );
+    expect(() => parseSchema("s.json", '{"variables":{"A":{"pattern":"("}}}')).toThrow(
+      "A.pattern is not a valid regular expression"
+    );
+  });
+});
+
+describe("checkSchema", () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "pss-schema-"));
+    await writeFile(join(projectDir, ".env.example"), "# Required\nDB_URL=\nSECRET=changeme\n");
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  function projectConfig(schema?: ProjectConfig["schema"]): ProjectConfig {
+    return { version: 1, projectName: "app", pattern: ".env*", ignore: [], schema };
+  }
+
+  it("should require the keys of .env.example unless told not to", async () => {
+    // The files push and sync check before uploading
+    const files = [
+      { name: ".env", content: "DB_URL=postgres://db\n" },
+      { name: ".env.example", content: "DB_URL=\nSECRET=changeme\n" },
+      { name: "config.json", content: "{}" },
+    ];
+    const source = { source: ".env.example" };
+
+    expect(await checkSchema(projectDir, projectConfig(source), files)).toEqual([
+      { file: ".env", key: "SECRET", message: "is required" },
+    ]);
+    expect(
+      await checkSchema(projectDir, projectConfig({ ...source, required: false }), files)
+    ).toEqual([]);
+    expect(await checkSchema(projectDir, projectConfig({ ...source, files: [] }), files)).toEqual(
+      []
+    );
+    expect(await checkSchema(projectDir, projectConfig(), files)).toEqual([]);
+    await expect(
+      checkSchema(projectDir, projectConfig({ source: "missing.json" }), files)
+    ).rejects.toThrow("Schema file not found: missing.json");
+  });
+
+  it("should let overrides rely on the files they are layered on", async () => {
+    await writeFile(join(projectDir, ".env"), "DB_URL=postgres://db\nSECRET=\n");
+    const files = [
+      { name: ".env.local", content: "SECRET=local\n" },
+      { name: ".env.production", content: "SECRET=prod\n" },
+      { name: "api/.env.local", content: "SECRET=api\n" },
+    ];
+    const config = projectConfig({ source: ".env.example" });
+
+    // .env.production is checked on top of .env and the .env.local being pushed with it
+    expect(await checkSchema(projectDir, config, files)).toEqual([
+      { file: "api/.env.local", key: "DB_URL", message: "is required" },
+    ]);
+    expect(getBaseLayers(".env")).toEqual([]);
+    expect(getBaseLayers("api/.env.staging.local")).toEqual([
+      "api/.env",
+      "api/.env.local",
+      "api/.env.staging",
+    ]);
+  });
+});
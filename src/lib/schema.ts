@@ -0,0 +1,235 @@
+import { readFile } from "node:fs/promises";
+import { join, posix } from "node:path";
+import { isEnvFile, parseEnvFile } from "./env-files.ts";
+import type { ProjectConfig, SchemaConfig } from "../types/index.ts";
+
+export type VariableType = "string" | "number" | "integer" | "boolean" | "url";
+
+/**
+ * Rules for one variable. Empty values count as unset: a required variable
+ * must have a value, and the other rules only apply to values that are set.
+ */
+export interface VariableSchema {
+  type?: VariableType;
+  required?: boolean;
+  /** A regular expression the value must match */
+  pattern?: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface EnvSchema {
+  variables: Record<string, VariableSchema>;
+}
+
+/**
+ * A rule a file breaks. Messages never include the value, which may be a secret.
+ */
+export interface SchemaViolation {
+  file: string;
+  key: string;
+  message: string;
+}
+
+const VARIABLE_TYPES: VariableType[] = ["string", "number", "integer", "boolean", "url"];
+
+const TYPE_CHECKS: Record<VariableType, (value: string) => boolean> = {
+  string: () => true,
+  number: (value) => value.trim() !== "" && Number.isFinite(Number(value)),
+  integer: (value) => /^[+-]?\d+$/.test(value),
+  boolean: (value) => /^(true|false|1|0|yes|no|on|off)$/i.test(value),
+  url: (value) => URL.canParse(value),
+};
+
+const TYPE_NAMES: Record<VariableType, string> = {
+  string: "a string",
+  number: "a number",
+  integer: "an integer",
+  boolean: "true or false",
+  url: "a URL",
+};
+
+/**
+ * Read a schema source. A `.json` file holds `{ "variables": { KEY: rules } }`;
+ * any other file is read as an env file naming the variables, which are all
+ * required unless `required` is false, as for a source kept up to date by
+ * `pss template` with keys only some environments set.
+ */
+export function parseSchema(source: string, content: string, required = true): EnvSchema {
+  if (!source.endsWith(".json")) {
+    const variables: Record<string, VariableSchema> = {};
+    for (const key of parseEnvFile(content).keys()) {
+      variables[key] = { required };
+    }
+    return { variables };
+  }
+
+  const invalid = (reason: string): Error => new Error(`Invalid schema ${source}: ${reason}`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw invalid((error as Error).message);
+  }
+
+  const variables = (parsed as Partial<EnvSchema> | null)?.variables;
+  if (!variables || typeof variables !== "object" || Array.isArray(variables)) {
+    throw invalid('expected an object with a "variables" object');
+  }
+
+  for (const [key, rules] of Object.entries(variables)) {
+    if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+      throw invalid(`rules for ${key} must be an object`);
+    }
+    if (rules.type !== undefined && !VARIABLE_TYPES.includes(rules.type)) {
+      throw invalid(`${key} has unknown type "${rules.type}"`);
+    }
+    if (rules.required !== undefined && typeof rules.required !== "boolean") {
+      throw invalid(`${key}.required must be true or false`);
+    }
+    if (rules.pattern !== undefined) {
+      try {
+        new RegExp(rules.pattern);
+      } catch {
+        throw invalid(`${key}.pattern is not a valid regular expression`);
+      }
+    }
+    if (
+      rules.enum !== undefined &&
+      (!Array.isArray(rules.enum) || rules.enum.some((value) => typeof value !== "string"))
+    ) {
+      throw invalid(`${key}.enum must be a list of strings`);
+    }
+  }
+
+  return { variables };
+}
+
+export async function loadSchema(projectDir: string, config: SchemaConfig): Promise<EnvSchema> {
+  let content: string;
+  try {
+    content = await readFile(join(projectDir, config.source), "utf-8");
+  } catch {
+    throw new Error(`Schema file not found: ${config.source}`);
+  }
+  return parseSchema(config.source, content, config.required);
+}
+
+/**
+ * Whether a file is one the schema applies to.
+ */
+export function isSchemaTarget(config: SchemaConfig, fileName: string): boolean {
+  if (config.files) {
+    return config.files.includes(fileName);
+  }
+  return isEnvFile(fileName) && fileName !== config.source;
+}
+
+/**
+ * The env files `fileName` is loaded on top of the dotenv-flow way, lowest
+ * first: `.env.local` overrides `.env`, `.env.production` overrides both, and
+ * `.env.production.local` all three. Other files aren't layered.
+ */
+export function getBaseLayers(fileName: string): string[] {
+  const dir = posix.dirname(fileName);
+  const match = /^\.env(?:\.(.+?))?(\.local)?$/.exec(posix.basename(fileName));
+  if (!match) {
+    return [];
+  }
+
+  // `.env.local` matches as the mode "local"
+  const [, mode, local] = match;
+  let layers: string[] = [];
+  if (mode === "local") {
+    layers = [".env"];
+  } else if (mode !== undefined) {
+    layers = [".env", ".env.local", ...(local ? [`.env.${mode}`] : [])];
+  }
+  return layers.map((name) => posix.join(dir, name));
+}
+
+/**
+ * Validate one env file. `inherited` holds the values of the files it is
+ * layered on (see getBaseLayers): a required key they set needn't be repeated
+ * in an override, while the other rules only apply to the file's own values.
+ */
+export function validateEnvFile(
+  schema: EnvSchema,
+  fileName: string,
+  content: string,
+  inherited: Map<string, string> = new Map()
+): SchemaViolation[] {
+  const values = parseEnvFile(content);
+  const violations: SchemaViolation[] = [];
+  const violation = (key: string, message: string): void => {
+    violations.push({ file: fileName, key, message });
+  };
+
+  for (const [key, rules] of Object.entries(schema.variables)) {
+    const value = values.get(key);
+    if (!value) {
+      const effective = value ?? inherited.get(key);
+      if (rules.required && !effective) {
+        violation(key, effective === undefined ? "is required" : "is required but empty");
+      }
+      continue;
+    }
+
+    if (rules.type && !TYPE_CHECKS[rules.type](value)) {
+      violation(key, `must be ${TYPE_NAMES[rules.type]}`);
+    }
+    if (rules.pattern !== undefined && !new RegExp(rules.pattern).test(value)) {
+      violation(key, `must match /${rules.pattern}/`);
+    }
+    if (rules.enum && !rules.enum.includes(value)) {
+      violation(key, `must be one of: ${rules.enum.join(", ")}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Values a file inherits from the files it is layered on, taken from `files`
+ * when they're there (they may not be written yet) and from disk otherwise.
+ */
+export async function loadInheritedValues(
+  projectDir: string,
+  fileName: string,
+  files: { name: string; content: string }[]
+): Promise<Map<string, string>> {
+  const inherited = new Map<string, string>();
+  for (const layer of getBaseLayers(fileName)) {
+    const content =
+      files.find((file) => file.name === layer)?.content ??
+      (await readFile(join(projectDir, layer), "utf-8").catch(() => ""));
+    for (const [key, value] of parseEnvFile(content)) {
+      inherited.set(key, value);
+    }
+  }
+  return inherited;
+}
+
+/**
+ * Validate the files the project's schema applies to. Returns no violations
+ * when the project has no schema.
+ */
+export async function checkSchema(
+  projectDir: string,
+  projectConfig: ProjectConfig,
+  files: { name: string; content: string }[]
+): Promise<SchemaViolation[]> {
+  if (!projectConfig.schema) {
+    return [];
+  }
+
+  const config = projectConfig.schema;
+  const schema = await loadSchema(projectDir, config);
+  const violations: SchemaViolation[] = [];
+  for (const file of files.filter((file) => isSchemaTarget(config, file.name))) {
+    const inherited = await loadInheritedValues(projectDir, file.name, files);
+    violations.push(...validateEnvFile(schema, file.name, file.content, inherited));
+  }
+  return violations;
+}
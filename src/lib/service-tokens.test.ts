@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { generateMasterKey } from "./crypto.ts";
+import { ensureIdentity } from "./identity.ts";
+import { commitManifest, createEmptyManifest, loadManifest } from "./manifest.ts";
+import { createUserIndex, saveUserIndex } from "./master-key.ts";
+import { loadProjectKeys } from "./project-keys.ts";
+import type { MemberIdentity } from "./project-keys.ts";
+import { assertCanWrite, openProject, resolveProject } from "./projects.ts";
+import {
+  createServiceToken,
+  listServiceTokens,
+  openProjectWithToken,
+  parseServiceToken,
+  revokeServiceToken,
+} from "./service-tokens.ts";
+import { convertToSharedProject } from "./sharing.ts";
+import { getManifestPath } from "./storage.ts";
+import type { ProjectRef } from "../types/index.ts";
+
+describe("service tokens", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let masterKey: Uint8Array;
+  let owner: MemberIdentity;
+  let project: ProjectRef;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-tokens-"));
+    storage = new FilesystemBackend(root);
+    masterKey = await generateMasterKey();
+    await saveUserIndex(storage, "alice", await createUserIndex("random", masterKey), null);
+    owner = await ensureIdentity(storage, "alice", "alice@example.com", masterKey);
+
+    const personal = await openProject(storage, "alice", masterKey, "app", { create: true });
+    const shared = await convertToSharedProject(
+      storage,
+      masterKey,
+      personal,
+      owner,
+      "alice@example.com"
+    );
+    await commitManifest(
+      storage,
+      getManifestPath(shared.project.root),
+      null,
+      createEmptyManifest("app"),
+      shared.keyRing
+    );
+    project = shared.project;
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function createToken(role: "reader" | "writer"): Promise<{ id: string; token: string }> {
+    const opened = await openProject(storage, "alice", masterKey, "app");
+    return createServiceToken(storage, opened, owner, { name: "ci", role });
+  }
+
+  it("should open the project with nothing but the token", async () => {
+    const { id, token } = await createToken("reader");
+    const parsed = await parseServiceToken(token);
+
+    expect(parsed.id).toBe(id);
+    const { keyRing } = await openProjectWithToken(storage, parsed, "app");
+    expect(keyRing.role).toBe("reader");
+    const loaded = await loadManifest(storage, getManifestPath(project.root), keyRing);
+    expect(loaded?.manifest.projectName).toBe("app");
+  });
+
+  it("should give tokens the role they were created with", async () => {
+    const reader = await parseServiceToken((await createToken("reader")).token);
+    const writer = await parseServiceToken((await createToken("writer")).token);
+
+    const read = await openProjectWithToken(storage, reader, "app");
+    expect(() => assertCanWrite(read.project, read.keyRing)).toThrow("reader access");
+
+    const write = await openProjectWithToken(storage, writer, "app");
+    const loaded = await loadManifest(storage, getManifestPath(project.root), write.keyRing);
+    const committed = await commitManifest(
+      storage,
+      getManifestPath(project.root),
+      loaded,
+      loaded!.manifest,
+      write.keyRing
+    );
+    // The owner trusts manifests the writer token signed
+    const alice = await openProject(storage, "alice", masterKey, "app");
+    const reloaded = await loadManifest(storage, getManifestPath(project.root), alice.keyRing);
+    expect(reloaded?.signedBy).toBe(`token-${writer.id}`);
+    expect(reloaded?.manifest.generation).toBe(committed.manifest.generation);
+  });
+
+  it("should stop working once revoked", async () => {
+    const { id, token } = await createToken("reader");
+    const keys = (await loadProjectKeys(storage, project.root))!.keys;
+    expect(listServiceTokens(keys)).toEqual([{ id, name: "ci", role: "reader" }]);
+
+    const resolved = await resolveProject(storage, "alice", masterKey, "app");
+    expect(await revokeServiceToken(storage, resolved, id, owner)).toBe(true);
+    expect(await revokeServiceToken(storage, resolved, id, owner)).toBe(false);
+
+    await expect(
+      openProjectWithToken(storage, await parseServiceToken(token), "app")
+    ).rejects.toThrow("revoked");
+  });
+
+  it("should reject malformed tokens and tokens for another project", async () => {
+    await expect(parseServiceToken("not-a-token")).rejects.toThrow("not a valid");
+
+    const parsed = await parseServiceToken((await createToken("reader")).token);
+    await expect(openProjectWithToken(storage, parsed, "other")).rejects.toThrow(
+      'This service token is for project "app"'
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { randomBytes } from "node:crypto";
+import {
+  decodeKey,
+  deriveBoxKeyPair,
+  deriveSigningKeyPair,
+  deriveSubkey,
+  encodeKey,
+} from "./crypto.ts";
+import {
+  addProjectMember,
+  loadProjectKeys,
+  openProjectKeyRing,
+  revokeProjectMember,
+  saveProjectKeys,
+} from "./project-keys.ts";
+import type { MemberIdentity, ProjectKeyRing } from "./project-keys.ts";
+import { getSharedProjectRoot } from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+import type { MemberRole, ProjectKeys, ProjectRef } from "../types/index.ts";
+
+export const SERVICE_TOKEN_ENV = "PSS_TOKEN";
+
+const TOKEN_PREFIX = "pss_";
+const MEMBER_PREFIX = "token-";
+
+/**
+ * A service token: which shared project it opens, and the secret its key
+ * pairs are derived from. The project's data keys are sealed to the token's
+ * public key like they are for any member, so the token string is all a
+ * pipeline needs besides storage access.
+ */
+export interface ServiceToken {
+  id: string;
+  projectId: string;
+  projectName: string;
+  secret: Uint8Array;
+}
+
+export interface ServiceTokenInfo {
+  id: string;
+  name: string;
+  role: MemberRole;
+}
+
+interface EncodedToken {
+  v: 1;
+  id: string;
+  project: string;
+  name: string;
+  secret: string;
+}
+
+export function getTokenMemberId(tokenId: string): string {
+  return `${MEMBER_PREFIX}${tokenId}`;
+}
+
+export async function encodeServiceToken(token: ServiceToken): Promise<string> {
+  const encoded: EncodedToken = {
+    v: 1,
+    id: token.id,
+    project: token.projectId,
+    name: token.projectName,
+    secret: await encodeKey(token.secret),
+  };
+  return TOKEN_PREFIX + Buffer.from(JSON.stringify(encoded)).toString("base64url");
+}
+
+export async function parseServiceToken(value: string): Promise<ServiceToken> {
+  const trimmed = value.trim();
+  try {
+    if (!trimmed.startsWith(TOKEN_PREFIX)) {
+      throw new Error("missing prefix");
+    }
+    const json = Buffer.from(trimmed.slice(TOKEN_PREFIX.length), "base64url").toString("utf-8");
+    const decoded = JSON.parse(json) as EncodedToken;
+    if (decoded.v !== 1 || !decoded.id || !decoded.project || !decoded.name) {
+      throw new Error("unknown format");
+    }
+    return {
+      id: decoded.id,
+      projectId: decoded.project,
+      projectName: decoded.name,
+      secret: await decodeKey(decoded.secret),
+    };
+  } catch {
+    throw new Error(`${SERVICE_TOKEN_ENV} is not a valid pss service token`);
+  }
+}
+
+/**
+ * The service token in PSS_TOKEN, if one is set.
+ */
+export async function getServiceToken(): Promise<ServiceToken | null> {
+  const value = process.env[SERVICE_TOKEN_ENV];
+  return value ? parseServiceToken(value) : null;
+}
+
+/**
+ * The member identity a token acts as, recreated from its secret.
+ */
+async function getTokenIdentity(token: ServiceToken): Promise<MemberIdentity> {
+  const box = await deriveBoxKeyPair(await deriveSubkey(token.secret, "pss-token-box"));
+  const signing = await deriveSigningKeyPair(await deriveSubkey(token.secret, "pss-token-sign"));
+  return {
+    userId: getTokenMemberId(token.id),
+    publicKey: box.publicKey,
+    secretKey: box.secretKey,
+    signPublicKey: signing.publicKey,
+    signSecretKey: signing.secretKey,
+  };
+}
+
+/**
+ * Add a service token to a shared project as a member with `role`, and
+ * return the token string. It is only shown once; storage keeps just its
+ * public keys.
+ */
+export async function createServiceToken(
+  storage: StorageBackend,
+  shared: { project: ProjectRef; keyRing: ProjectKeyRing },
+  owner: MemberIdentity,
+  options: { name: string; role: Exclude<MemberRole, "owner"> }
+): Promise<{ id: string; token: string }> {
+  const { project, keyRing } = shared;
+  const loaded = await loadProjectKeys(storage, project.root);
+  if (!project.shared || !loaded) {
+    throw new Error(`Project "${project.name}" must be shared before it can have service tokens`);
+  }
+
+  const token: ServiceToken = {
+    id: randomBytes(8).toString("hex"),
+    projectId: project.id,
+    projectName: project.name,
+    secret: new Uint8Array(randomBytes(32)),
+  };
+  const identity = await getTokenIdentity(token);
+
+  const keys = await addProjectMember(
+    keyRing,
+    loaded.keys,
+    identity.userId,
+    {
+      email: options.name,
+      role: options.role,
+      publicKey: await encodeKey(identity.publicKey),
+      signPublicKey: await encodeKey(identity.signPublicKey),
+    },
+    owner
+  );
+  await saveProjectKeys(storage, project.root, keys, loaded);
+
+  return { id: token.id, token: await encodeServiceToken(token) };
+}
+
+export function listServiceTokens(keys: ProjectKeys): ServiceTokenInfo[] {
+  return Object.entries(keys.members ?? {})
+    .filter(([memberId]) => memberId.startsWith(MEMBER_PREFIX))
+    .map(([memberId, member]) => ({
+      id: memberId.slice(MEMBER_PREFIX.length),
+      name: member.email,
+      role: member.role,
+    }));
+}
+
+/**
+ * Remove a service token from a project and re-key it, so the token can't
+ * read anything pushed afterwards. Returns false if there is no such token.
+ */
+export async function revokeServiceToken(
+  storage: StorageBackend,
+  project: ProjectRef,
+  tokenId: string,
+  owner: MemberIdentity
+): Promise<boolean> {
+  const loaded = await loadProjectKeys(storage, project.root);
+  const memberId = getTokenMemberId(tokenId);
+  if (!loaded?.keys.members?.[memberId]) {
+    return false;
+  }
+
+  const keys = await revokeProjectMember(loaded.keys, memberId, owner);
+  await saveProjectKeys(storage, project.root, keys, loaded);
+  return true;
+}
+
+/**
+ * Open the project a service token belongs to, with the token's role as
+ * recorded in the owner-signed member list.
+ */
+export async function openProjectWithToken(
+  storage: StorageBackend,
+  token: ServiceToken,
+  projectName: string
+): Promise<{ project: ProjectRef; keyRing: ProjectKeyRing }> {
+  if (token.projectName !== projectName) {
+    throw new Error(
+      `This service token is for project "${token.projectName}", not "${projectName}"`
+    );
+  }
+
+  const project: ProjectRef = {
+    name: token.projectName,
+    id: token.projectId,
+    root: getSharedProjectRoot(token.projectId),
+    shared: true,
+  };
+  const identity = await getTokenIdentity(token);
+  // Shared projects never use a master key, and tokens don't have one
+  const unusedMasterKey = await deriveSubkey(token.secret, "pss-token-unused");
+  const keyRing = await openProjectKeyRing(storage, project, unusedMasterKey, { identity });
+
+  if (keyRing.currentVersion === undefined) {
+    throw new Error(`Project "${projectName}" no longer exists`);
+  }
+  if (!keyRing.role) {
+    throw new Error("This service token has been revoked");
+  }
+  return { project, keyRing };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { collectSessions } from "./sessions.ts";
+import type { FileEntry, ProjectManifest } from "../types/index.ts";
+
+const laptop = { machineName: "laptop", os: "darwin 24.0.0", projectPath: "/Users/me/app" };
+const server = { machineName: "build-01", os: "linux 6.8.0", projectPath: "/srv/app" };
+
+function file(name: string, updatedAt: string, source: typeof laptop): FileEntry {
+  return {
+    name,
+    hash: "h",
+    size: 1,
+    updatedAt,
+    source: { ...source, filePath: `${source.projectPath}/${name}` },
+  };
+}
+
+describe("collectSessions", () => {
+  it("should group pushes by machine, most recent first", () => {
+    const manifests: ProjectManifest[] = [
+      {
+        version: 1,
+        projectName: "app",
+        files: [
+          file(".env", "2026-01-02T00:00:00.000Z", laptop),
+          file(".env.production", "2026-03-01T00:00:00.000Z", server),
+        ],
+        source: server,
+      },
+      {
+        version: 1,
+        projectName: "api",
+        files: [
+          file(".env", "2026-02-01T00:00:00.000Z", {
+            ...laptop,
+            os: "darwin 25.0.0",
+            projectPath: "/Users/me/api",
+          }),
+        ],
+      },
+    ];
+
+    expect(collectSessions(manifests)).toEqual([
+      {
+        machineName: "build-01",
+        os: "linux 6.8.0",
+        lastPushAt: "2026-03-01T00:00:00.000Z",
+        projects: { app: ["/srv/app"] },
+      },
+      {
+        machineName: "laptop",
+        os: "darwin 25.0.0",
+        lastPushAt: "2026-02-01T00:00:00.000Z",
+        projects: { app: ["/Users/me/app"], api: ["/Users/me/api"] },
+      },
+    ]);
+  });
+
+  it("should list a machine that only wrote the manifest, without a push time", () => {
+    const sessions = collectSessions([
+      { version: 1, projectName: "app", files: [], source: laptop },
+    ]);
+
+    expect(sessions).toEqual([
+      { machineName: "laptop", os: "darwin 24.0.0", projects: { app: ["/Users/me/app"] } },
+    ]);
+  });
+});
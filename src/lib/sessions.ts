@@ -0,0 +1,100 @@
+import { loadManifest } from "./manifest.ts";
+import { listProjects, openProject } from "./projects.ts";
+import { getManifestPath } from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+import type { ManifestSource, ProjectManifest } from "../types/index.ts";
+
+/**
+ * A machine that pushed to the user's projects, as recorded in the source
+ * information manifests keep for the files they list and for their last writer.
+ */
+export interface MachineSession {
+  machineName: string;
+  /** OS of the most recent push from the machine */
+  os: string;
+  /** When the newest file pushed from the machine was uploaded, if one is still listed */
+  lastPushAt?: string;
+  /** Project name -> local directories it was pushed from */
+  projects: Record<string, string[]>;
+}
+
+export interface SessionList {
+  sessions: MachineSession[];
+  /** Projects whose manifests couldn't be read, e.g. shares that were revoked */
+  unreadable: string[];
+}
+
+function addPush(
+  sessions: Map<string, MachineSession>,
+  projectName: string,
+  source: ManifestSource,
+  pushedAt?: string
+): void {
+  let session = sessions.get(source.machineName);
+  if (!session) {
+    session = { machineName: source.machineName, os: source.os, projects: {} };
+    sessions.set(source.machineName, session);
+  }
+
+  if (pushedAt && (!session.lastPushAt || pushedAt > session.lastPushAt)) {
+    session.lastPushAt = pushedAt;
+    session.os = source.os;
+  }
+  const paths = (session.projects[projectName] ??= []);
+  if (!paths.includes(source.projectPath)) {
+    paths.push(source.projectPath);
+  }
+}
+
+/**
+ * Group the sources recorded in manifests by machine, most recent push first.
+ */
+export function collectSessions(manifests: ProjectManifest[]): MachineSession[] {
+  const sessions = new Map<string, MachineSession>();
+
+  for (const manifest of manifests) {
+    for (const file of manifest.files) {
+      if (file.source) {
+        addPush(sessions, manifest.projectName, file.source, file.updatedAt);
+      }
+    }
+    // The last writer may have only deleted files, so it has no upload time
+    if (manifest.source) {
+      addPush(sessions, manifest.projectName, manifest.source);
+    }
+  }
+
+  return [...sessions.values()].sort((a, b) =>
+    (b.lastPushAt ?? "").localeCompare(a.lastPushAt ?? "")
+  );
+}
+
+/**
+ * The machines that pushed to any of the user's projects, own or shared.
+ */
+export async function listSessions(
+  storage: StorageBackend,
+  userId: string,
+  masterKey: Uint8Array
+): Promise<SessionList> {
+  const manifests: ProjectManifest[] = [];
+  const unreadable: string[] = [];
+
+  for (const project of await listProjects(storage, userId, masterKey)) {
+    try {
+      const opened = await openProject(storage, userId, masterKey, project.name);
+      const loaded = await loadManifest(
+        storage,
+        getManifestPath(opened.project.root),
+        opened.keyRing
+      );
+      if (loaded) {
+        manifests.push(loaded.manifest);
+      }
+    } catch {
+      unreadable.push(project.name);
+    }
+  }
+
+  return { sessions: collectSessions(manifests), unreadable };
+}
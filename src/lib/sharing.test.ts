@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { decodePublicKey, encodeKey, generateMasterKey, sealToPublicKey } from "./crypto.ts";
+import { appendHistory, loadHistory, uploadRevision } from "./history.ts";
+import { ensureIdentity, hashEmail, lookupMember, pinMember, sendShareNotice } from "./identity.ts";
+import { createUserIndex, saveUserIndex } from "./master-key.ts";
+import { commitManifest, createEmptyManifest, loadManifest } from "./manifest.ts";
+import {
+  loadProjectKeys,
+  openProjectKeyRing,
+  rotateProjectKey,
+  signMembers,
+} from "./project-keys.ts";
+import type { MemberIdentity } from "./project-keys.ts";
+import {
+  acceptSharedProject,
+  assertCanWrite,
+  listInvitations,
+  openProject,
+  resolveProject,
+} from "./projects.ts";
+import { addMember, convertToSharedProject, removeMember } from "./sharing.ts";
+import {
+  getDirectoryPath,
+  getFileObjectPath,
+  getManifestPath,
+  getProjectKeysPath,
+} from "./storage.ts";
+import type { DirectoryEntry, EncryptedData, MemberRole } from "../types/index.ts";
+
+describe("project sharing", () => {
+  let root: string;
+  let storage: FilesystemBackend;
+  let aliceKey: Uint8Array;
+  let bobKey: Uint8Array;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "pss-sharing-"));
+    storage = new FilesystemBackend(root);
+    aliceKey = await generateMasterKey();
+    bobKey = await generateMasterKey();
+    await saveUserIndex(storage, "alice", await createUserIndex("random", aliceKey), null);
+    await saveUserIndex(storage, "bob", await createUserIndex("random", bobKey), null);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function pushPersonalProject(): Promise<void> {
+    const { project, keyRing } = await openProject(storage, "alice", aliceKey, "app", {
+      create: true,
+    });
+    const { encrypted, keyVersion } = await keyRing.encrypt(".env", "API_KEY=secret");
+    const { revision, objectId } = await uploadRevision(storage, project.root, encrypted);
+    const file = {
+      name: ".env",
+      hash: await keyRing.hashContent("API_KEY=secret"),
+      size: 14,
+      updatedAt: new Date().toISOString(),
+      revision,
+      keyVersion,
+      objectId,
+    };
+
+    await commitManifest(
+      storage,
+      getManifestPath(project.root),
+      null,
+      { ...createEmptyManifest("app"), files: [file] },
+      keyRing
+    );
+    await appendHistory(storage, project, keyRing, [
+      { file: ".env", action: "upload", revision, keyVersion, objectId, createdAt: file.updatedAt },
+    ]);
+  }
+
+  async function shareWithBob(role: MemberRole = "writer"): Promise<MemberIdentity> {
+    const owner = await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+    await ensureIdentity(storage, "bob", "Bob@Example.com", bobKey);
+
+    const personal = await openProject(storage, "alice", aliceKey, "app");
+    const shared = await convertToSharedProject(
+      storage,
+      aliceKey,
+      personal,
+      owner,
+      "alice@example.com"
+    );
+    const bob = (await lookupMember(storage, "bob@example.com"))!;
+    await addMember(
+      storage,
+      shared,
+      bob,
+      { email: "bob@example.com", role },
+      owner,
+      "alice@example.com"
+    );
+    await acceptSharedProject(storage, "bob", bobKey, "app");
+    return owner;
+  }
+
+  it("should publish each user's public key once", async () => {
+    const first = await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+    const second = await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+
+    expect(second.publicKey).toEqual(first.publicKey);
+    expect((await lookupMember(storage, " ALICE@example.com "))?.userId).toBe("alice");
+    expect(await lookupMember(storage, "nobody@example.com")).toBeNull();
+  });
+
+  it("should refuse directory entries that were claimed or tampered with", async () => {
+    await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+    const path = getDirectoryPath(hashEmail("bob@example.com"));
+    const bobEntry = await storage.downloadJson<DirectoryEntry>(path);
+
+    // Someone else's keys under Bob's address are reported, not overwritten
+    await expect(ensureIdentity(storage, "alice", "bob@example.com", aliceKey)).rejects.toThrow(
+      "Other keys are already published for bob@example.com"
+    );
+    expect(await storage.downloadJson<DirectoryEntry>(path)).toEqual(bobEntry);
+
+    await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+    const alice = (await lookupMember(storage, "alice@example.com"))!;
+    await storage.uploadJson(path, { ...bobEntry, publicKey: alice.publicKey });
+    await expect(lookupMember(storage, "bob@example.com")).rejects.toThrow("run 'pss login' again");
+
+    // Entries from before signatures are replaced by their owner's next login
+    const { signature: _, ...unsigned } = bobEntry;
+    await storage.uploadJson(path, unsigned);
+    await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+    expect(await lookupMember(storage, "bob@example.com")).toMatchObject({ userId: "bob" });
+  });
+
+  it("should pin a member's keys the first time a project is shared with them", async () => {
+    await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+    const bob = (await lookupMember(storage, "bob@example.com"))!;
+    await pinMember(storage, "alice", aliceKey, "bob@example.com", bob);
+    await pinMember(storage, "alice", aliceKey, "Bob@Example.com", bob);
+
+    await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+    const alice = (await lookupMember(storage, "alice@example.com"))!;
+    const replaced = { ...bob, signPublicKey: alice.signPublicKey };
+    await expect(
+      pinMember(storage, "alice", aliceKey, "bob@example.com", replaced)
+    ).rejects.toThrow("changed since you first shared with them");
+  });
+
+  it("should only use a shared project once its invitation is accepted", async () => {
+    await ensureIdentity(storage, "alice", "alice@example.com", aliceKey);
+    const bob = await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+    await saveUserIndex(storage, "carol", await createUserIndex("random", bobKey), null);
+    await ensureIdentity(storage, "carol", "carol@example.com", bobKey);
+
+    // Bob shares a project of his with Alice under a name she is about to use
+    const personal = await openProject(storage, "bob", bobKey, "api", { create: true });
+    const shared = await convertToSharedProject(storage, bobKey, personal, bob, "bob@example.com");
+    const aliceEntry = (await lookupMember(storage, "alice@example.com"))!;
+    const member = { email: "alice@example.com", role: "writer" as const };
+    await addMember(storage, shared, aliceEntry, member, bob, "bob@example.com");
+
+    await expect(resolveProject(storage, "alice", aliceKey, "api")).rejects.toThrow(
+      "Run 'pss accept api'"
+    );
+    const created = await openProject(storage, "alice", aliceKey, "api", { create: true });
+    expect(created.project.shared).toBeUndefined();
+
+    // A notice claiming to come from someone else is refused
+    await sendShareNotice(
+      storage,
+      aliceEntry,
+      { projectId: "billing-id", projectName: "billing", sharedBy: "carol@example.com" },
+      bob
+    );
+    const invitations = await listInvitations(storage, "alice", aliceKey);
+    expect(invitations.map((notice) => notice.projectName).sort()).toEqual(["api", "billing"]);
+    await expect(acceptSharedProject(storage, "alice", aliceKey, "billing")).rejects.toThrow(
+      "isn't signed by carol@example.com"
+    );
+
+    await expect(acceptSharedProject(storage, "alice", aliceKey, "api")).rejects.toThrow(
+      "Accept it under another name with --as"
+    );
+    const accepted = await acceptSharedProject(storage, "alice", aliceKey, "api", "bob-api");
+    expect(accepted).toMatchObject({ role: "writer", sharedBy: "bob@example.com" });
+    const opened = await openProject(storage, "alice", aliceKey, "bob-api");
+    expect(opened.project).toMatchObject({ id: shared.project.id, shared: true });
+  });
+
+  it("should let a member pull a project moved into the shared namespace", async () => {
+    await pushPersonalProject();
+    await shareWithBob();
+
+    expect(await storage.list("users/alice/projects/")).toEqual([]);
+    expect((await resolveProject(storage, "alice", aliceKey, "app")).shared).toBe(true);
+
+    const { project, keyRing } = await openProject(storage, "bob", bobKey, "app");
+    expect(project.root).toMatch(/^shared\//);
+
+    const loaded = (await loadManifest(storage, getManifestPath(project.root), keyRing))!;
+    const [file] = loaded.manifest.files;
+    const encrypted = await storage.downloadJson<EncryptedData>(
+      getFileObjectPath(project.root, file!)
+    );
+    expect(await keyRing.decrypt(".env", encrypted, file!.keyVersion)).toBe("API_KEY=secret");
+    expect(await keyRing.matchesHash(file!.hash, "API_KEY=secret")).toBe(true);
+
+    const history = await loadHistory(storage, project, keyRing);
+    expect(history.entries.map((entry) => entry.revision)).toEqual([file!.revision]);
+  });
+
+  it("should give each member the role they were shared with", async () => {
+    await pushPersonalProject();
+    await shareWithBob("reader");
+
+    const alice = await openProject(storage, "alice", aliceKey, "app");
+    expect(alice.keyRing.role).toBe("owner");
+
+    const bob = await openProject(storage, "bob", bobKey, "app");
+    expect(bob.keyRing.role).toBe("reader");
+    expect(() => assertCanWrite(bob.project, bob.keyRing)).toThrow("reader access");
+  });
+
+  it("should reject a member list changed without an owner's signature", async () => {
+    await pushPersonalProject();
+    await shareWithBob("reader");
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+
+    const loaded = (await loadProjectKeys(storage, project.root))!;
+    loaded.keys.members!["bob"]!.role = "owner";
+    await storage.uploadJson(getProjectKeysPath(project.root), loaded.keys);
+
+    await expect(openProject(storage, "bob", bobKey, "app")).rejects.toThrow(
+      "not signed by an owner"
+    );
+  });
+
+  it("should reject data keys an owner didn't sign", async () => {
+    await pushPersonalProject();
+    await shareWithBob();
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+    const loaded = (await loadProjectKeys(storage, project.root))!;
+
+    // Someone with write access to the bucket seals a key of their own to every member
+    const injected = await encodeKey(await generateMasterKey());
+    const sealed: Record<string, string> = {};
+    for (const [userId, member] of Object.entries(loaded.keys.members!)) {
+      sealed[userId] = await sealToPublicKey(injected, await decodePublicKey(member.publicKey));
+    }
+    const path = getProjectKeysPath(project.root);
+    await storage.uploadJson(path, {
+      ...loaded.keys,
+      currentVersion: 2,
+      keys: [...loaded.keys.keys, { version: 2, members: sealed, createdAt: "" }],
+    });
+    await expect(openProject(storage, "bob", bobKey, "app")).rejects.toThrow(
+      "not signed by an owner"
+    );
+
+    // Swapping a member's copy of a signed version is caught when it is opened
+    const [first] = loaded.keys.keys;
+    await storage.uploadJson(path, {
+      ...loaded.keys,
+      keys: [{ ...first!, members: { ...first!.members, bob: sealed["bob"]! } }],
+    });
+    const bob = await openProject(storage, "bob", bobKey, "app");
+    await expect(bob.keyRing.encrypt(".env", "API_KEY=leaked")).rejects.toThrow(
+      "Project key version 1 is not signed by an owner"
+    );
+  });
+
+  it("should not treat a shared project without a member list as personal", async () => {
+    await pushPersonalProject();
+    await shareWithBob("reader");
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+
+    const loaded = (await loadProjectKeys(storage, project.root))!;
+    delete loaded.keys.members;
+    delete loaded.keys.membersSignature;
+    await storage.uploadJson(getProjectKeysPath(project.root), loaded.keys);
+
+    await expect(openProject(storage, "bob", bobKey, "app")).rejects.toThrow(
+      "not signed by an owner"
+    );
+  });
+
+  it("should reject a member who makes themselves owner and re-signs the list", async () => {
+    await pushPersonalProject();
+    await shareWithBob("reader");
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+    const bob = await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+
+    const loaded = (await loadProjectKeys(storage, project.root))!;
+    loaded.keys.members!["bob"]!.role = "owner";
+    await storage.uploadJson(getProjectKeysPath(project.root), await signMembers(loaded.keys, bob));
+
+    await expect(openProject(storage, "bob", bobKey, "app")).rejects.toThrow(
+      "not signed by an owner"
+    );
+
+    // Claiming to be the creator doesn't help either: the project ID commits to alice's key
+    loaded.keys.creator = { ...loaded.keys.creator!, userId: "bob" };
+    loaded.keys.creator.signPublicKey = loaded.keys.members!["bob"]!.signPublicKey;
+    await storage.uploadJson(getProjectKeysPath(project.root), await signMembers(loaded.keys, bob));
+
+    await expect(openProject(storage, "alice", aliceKey, "app")).rejects.toThrow(
+      "doesn't match the project ID"
+    );
+  });
+
+  it("should trust owners endorsed by the creator, but never remove the creator", async () => {
+    await pushPersonalProject();
+    await shareWithBob("owner");
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+    const bob = await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+
+    expect((await openProject(storage, "bob", bobKey, "app")).keyRing.role).toBe("owner");
+    await expect(removeMember(storage, project, "alice@example.com", bob)).rejects.toThrow(
+      "creator can't be removed"
+    );
+  });
+
+  it("should re-key the project when a member is removed", async () => {
+    await pushPersonalProject();
+    const owner = await shareWithBob();
+    const project = await resolveProject(storage, "alice", aliceKey, "app");
+
+    expect(await removeMember(storage, project, "carol@example.com", owner)).toBeNull();
+    expect(await removeMember(storage, project, "BOB@example.com", owner)).toBe("bob");
+
+    const alice = await openProject(storage, "alice", aliceKey, "app");
+    expect(alice.keyRing.currentVersion).toBe(2);
+    await expect(alice.keyRing.keyFor(2)).resolves.toBeDefined();
+
+    // Bob no longer sees the project, and can't open its keys directly either
+    expect((await resolveProject(storage, "bob", bobKey, "app")).shared).toBeUndefined();
+    const bob = await ensureIdentity(storage, "bob", "bob@example.com", bobKey);
+    const ring = await openProjectKeyRing(storage, project, bobKey, { identity: bob });
+    await expect(ring.keyFor(1)).rejects.toThrow("not been shared with you");
+    await expect(ring.keyFor(2)).rejects.toThrow("not been shared with you");
+
+    // A rotation by an owner is signed along with the member list
+    expect(await rotateProjectKey(storage, project, aliceKey, owner)).toBe(3);
+    const rotated = await openProject(storage, "alice", aliceKey, "app");
+    expect((await rotated.keyRing.encrypt(".env", "A=1")).keyVersion).toBe(3);
+  });
+});
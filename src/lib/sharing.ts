@@ -0,0 +1,195 @@
+import { randomBytes } from "node:crypto";
+import { appendHistory, loadHistory } from "./history.ts";
+import { removeShareNotice, sendShareNotice } from "./identity.ts";
+import { commitManifest, loadManifest } from "./manifest.ts";
+import {
+  ProjectKeyRing,
+  addProjectMember,
+  createSharedProjectKeys,
+  loadProjectKeys,
+  revokeProjectMember,
+  saveProjectKeys,
+} from "./project-keys.ts";
+import type { MemberIdentity } from "./project-keys.ts";
+import { recordSharedProject } from "./projects.ts";
+import {
+  getFileObjectPath,
+  getManifestPath,
+  getObjectPath,
+  getSharedProjectRoot,
+} from "./storage.ts";
+import type { StorageBackend } from "./storage.ts";
+import type {
+  DirectoryEntry,
+  EncryptedData,
+  FileEntry,
+  HistoryEntry,
+  MemberRole,
+  ProjectRef,
+} from "../types/index.ts";
+
+interface CopiedObject {
+  objectId: string;
+  keyVersion?: number;
+  hash: string;
+}
+
+/**
+ * Move a personal project into the shared namespace. Every file and revision
+ * is re-encrypted with a new data key sealed to the owner, then the personal
+ * copy is deleted. Revision IDs are kept so history and restore still work.
+ */
+export async function convertToSharedProject(
+  storage: StorageBackend,
+  masterKey: Uint8Array,
+  personal: { project: ProjectRef; keyRing: ProjectKeyRing },
+  owner: MemberIdentity,
+  email: string
+): Promise<{ project: ProjectRef; keyRing: ProjectKeyRing }> {
+  const { project: source, keyRing: sourceRing } = personal;
+  const keys = await createSharedProjectKeys(owner, email);
+  const id = keys.projectId;
+  const project: ProjectRef = {
+    name: source.name,
+    id,
+    root: getSharedProjectRoot(id),
+    shared: true,
+  };
+
+  await saveProjectKeys(storage, project.root, keys, null);
+  const keyRing = new ProjectKeyRing(id, masterKey, keys, owner, "owner");
+
+  const copied = new Map<string, CopiedObject>();
+  const copy = async (
+    entry: Pick<FileEntry, "name" | "revision" | "objectId" | "keyVersion">
+  ): Promise<CopiedObject> => {
+    const path = getFileObjectPath(source.root, entry);
+    const existing = copied.get(path);
+    if (existing) {
+      return existing;
+    }
+
+    const encrypted = await storage.downloadJson<EncryptedData>(path);
+    const content = await sourceRing.decrypt(entry.name, encrypted, entry.keyVersion);
+    const reencrypted = await keyRing.encrypt(entry.name, content);
+    const objectId = randomBytes(16).toString("hex");
+    await storage.uploadJson(getObjectPath(project.root, objectId), reencrypted.encrypted);
+
+    const result = {
+      objectId,
+      keyVersion: reencrypted.keyVersion,
+      hash: await keyRing.hashContent(content),
+    };
+    copied.set(path, result);
+    return result;
+  };
+
+  const history = await loadHistory(storage, source, sourceRing);
+  const entries: HistoryEntry[] = [];
+  for (const entry of history.entries) {
+    if (entry.action !== "upload" || !entry.revision) {
+      entries.push(entry);
+      continue;
+    }
+    entries.push({ ...entry, ...(await copy({ name: entry.file, ...entry })) });
+  }
+
+  const loaded = await loadManifest(storage, getManifestPath(source.root), sourceRing);
+  if (loaded) {
+    const files: FileEntry[] = [];
+    for (const entry of loaded.manifest.files) {
+      files.push({ ...entry, ...(await copy(entry)) });
+    }
+    await commitManifest(
+      storage,
+      getManifestPath(project.root),
+      null,
+      { ...loaded.manifest, files },
+      keyRing
+    );
+  }
+  await appendHistory(storage, project, keyRing, entries);
+
+  await recordSharedProject(storage, owner.userId, masterKey, project);
+
+  for (const key of await storage.list(`${source.root}/`)) {
+    await storage.delete(key);
+  }
+
+  return { project, keyRing };
+}
+
+/**
+ * Give a member access to a shared project (or change their role) and tell
+ * them about it.
+ */
+export async function addMember(
+  storage: StorageBackend,
+  shared: { project: ProjectRef; keyRing: ProjectKeyRing },
+  recipient: DirectoryEntry,
+  member: { email: string; role: MemberRole },
+  owner: MemberIdentity,
+  sharedBy: string
+): Promise<void> {
+  const { project, keyRing } = shared;
+  const loaded = await loadProjectKeys(storage, project.root);
+  if (!loaded) {
+    throw new Error(`Project "${project.name}" has no key ring`);
+  }
+  if (!recipient.signPublicKey) {
+    throw new Error(`${member.email} needs to run 'pss login' again before projects can be shared`);
+  }
+
+  const keys = await addProjectMember(
+    keyRing,
+    loaded.keys,
+    recipient.userId,
+    { ...member, publicKey: recipient.publicKey, signPublicKey: recipient.signPublicKey },
+    owner
+  );
+  await saveProjectKeys(storage, project.root, keys, loaded);
+  await sendShareNotice(
+    storage,
+    recipient,
+    { projectId: project.id, projectName: project.name, sharedBy },
+    owner
+  );
+}
+
+/**
+ * Remove a member, found by email, from a shared project and re-key it.
+ * Returns their user ID, or null if nobody with that email is a member.
+ */
+export async function removeMember(
+  storage: StorageBackend,
+  project: ProjectRef,
+  email: string,
+  owner: MemberIdentity
+): Promise<string | null> {
+  const loaded = await loadProjectKeys(storage, project.root);
+  const wanted = email.trim().toLowerCase();
+  const userId = Object.entries(loaded?.keys.members ?? {}).find(
+    ([, member]) => member.email.toLowerCase() === wanted
+  )?.[0];
+  if (!loaded || !userId) {
+    return null;
+  }
+
+  const keys = await revokeProjectMember(loaded.keys, userId, owner);
+  await saveProjectKeys(storage, project.root, keys, loaded);
+  await removeShareNotice(storage, userId, project.id);
+  return userId;
+}
+
+/**
+ * Withdraw the share notices of every member, before a shared project is deleted.
+ */
+export async function withdrawShareNotices(
+  storage: StorageBackend,
+  project: ProjectRef
+): Promise<void> {
+  const loaded = await loadProjectKeys(storage, project.root);
+  for (const userId of Object.keys(loaded?.keys.members ?? {})) {
+    await removeShareNotice(storage, userId, project.id);
+  }
+}
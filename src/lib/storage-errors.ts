@@ -0,0 +1,20 @@
+/**
+ * Thrown when a conditional write fails because the object changed since it was read.
+ */
+export class PreconditionFailedError extends Error {
+  constructor(key: string) {
+    super(`Object was modified concurrently: ${key}`);
+    this.name = "PreconditionFailedError";
+  }
+}
+
+/**
+ * Thrown when the storage can't make a write conditional, so it can't be done
+ * without risking overwriting a concurrent change.
+ */
+export class ConditionalWriteUnsupportedError extends Error {
+  constructor(key: string, reason: string) {
+    super(`Refusing to overwrite ${key}: ${reason}`);
+    this.name = "ConditionalWriteUnsupportedError";
+  }
+}
@@ -0,0 +1,212 @@
+import type { FileEntry, GlobalConfig, StorageType } from "../types/index.ts";
+import { createB2Client } from "./b2-client.ts";
+import { createS3Client } from "./s3-client.ts";
+import { FilesystemBackend } from "./fs-backend.ts";
+import { ConditionalWriteUnsupportedError } from "./storage-errors.ts";
+
+/**
+ * Conditional write options. A failed condition raises PreconditionFailedError.
+ */
+export interface UploadOptions {
+  /** Only write if the current object has this ETag */
+  ifMatch?: string;
+  /** "*" to only write if the object doesn't exist yet */
+  ifNoneMatch?: string;
+}
+
+/**
+ * Conditions for replacing `base`, the copy of `key` read before, or for
+ * creating the object when there was none. A copy read without an ETag can't
+ * be matched, and writing it back unconditionally could undo someone else's
+ * change, so that is refused.
+ */
+export function getWriteConditions(key: string, base: { etag: string } | null): UploadOptions {
+  if (!base) {
+    return { ifNoneMatch: "*" };
+  }
+  if (!base.etag) {
+    throw new ConditionalWriteUnsupportedError(key, "the storage returned no ETag for it");
+  }
+  return { ifMatch: base.etag };
+}
+
+export interface VersionedObject {
+  data: Buffer;
+  etag: string;
+}
+
+/**
+ * Common interface for every place project settings can be stored.
+ * Keys are always "/"-separated object keys (e.g. users/<id>/projects/<project-id>/manifest.json),
+ * regardless of how the backend lays them out physically.
+ */
+export interface StorageBackend {
+  upload(
+    key: string,
+    data: string | Buffer,
+    contentType?: string,
+    options?: UploadOptions
+  ): Promise<void>;
+  download(key: string): Promise<Buffer>;
+  /** Download an object together with its ETag, or null if it doesn't exist */
+  downloadVersioned(key: string): Promise<VersionedObject | null>;
+  downloadJson<T>(key: string): Promise<T>;
+  uploadJson<T>(key: string, data: T, options?: UploadOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(prefix: string): Promise<string[]>;
+  testConnection(): Promise<boolean>;
+}
+
+export function getStorageType(config: GlobalConfig): StorageType {
+  return config.storage?.type ?? "b2";
+}
+
+export function getStorageLabel(config: GlobalConfig): string {
+  switch (getStorageType(config)) {
+    case "filesystem":
+      return "filesystem storage";
+    case "s3":
+      return "S3 storage";
+    case "b2":
+      return "B2";
+  }
+}
+
+/**
+ * Where settings are stored, for display (never includes credentials).
+ */
+export function getStorageLocation(config: GlobalConfig): string {
+  switch (getStorageType(config)) {
+    case "filesystem":
+      return `${getStorageLabel(config)} at ${config.storage?.path ?? "(not set)"}`;
+    case "s3":
+      return `${getStorageLabel(config)} bucket ${config.s3?.bucket ?? "(not set)"}`;
+    case "b2":
+      return `${getStorageLabel(config)} bucket ${config.b2.bucket}`;
+  }
+}
+
+export function createStorageBackend(config: GlobalConfig): StorageBackend {
+  const type = getStorageType(config);
+
+  switch (type) {
+    case "filesystem": {
+      if (!config.storage?.path) {
+        throw new Error(
+          "Filesystem storage path not configured.\nRun: pss config set storage.path /path/to/dir"
+        );
+      }
+      return new FilesystemBackend(config.storage.path);
+    }
+    case "s3":
+      return createS3Client(config);
+    case "b2":
+      return createB2Client(config);
+    default:
+      throw new Error(`Unknown storage type: ${type as string}`);
+  }
+}
+
+/*
+ * Every project lives under a root prefix. Personal projects are stored under
+ * the owner's user ID, keyed by the project's storage ID: projects created
+ * before IDs existed use their name as ID, newer ones get an opaque random ID
+ * mapped back to the name in the encrypted user index. Shared projects live in
+ * a common namespace so every member can reach them.
+ */
+
+export function getProjectsPrefix(userId: string): string {
+  return `users/${userId}/projects/`;
+}
+
+export function getProjectRoot(userId: string, projectId: string): string {
+  return `${getProjectsPrefix(userId)}${projectId}`;
+}
+
+export function getSharedProjectRoot(projectId: string): string {
+  return `shared/${projectId}`;
+}
+
+export function getStoragePath(root: string, fileName: string): string {
+  return `${root}/files/${fileName}.enc`;
+}
+
+export function getRevisionPath(root: string, fileName: string, revision: string): string {
+  return `${root}/revisions/${fileName}/${revision}.enc`;
+}
+
+export function getObjectPath(root: string, objectId: string): string {
+  return `${root}/objects/${objectId}.enc`;
+}
+
+/**
+ * Object key holding the encrypted content a manifest entry points at.
+ * Entries written before opaque objects existed live at a revisions/ path
+ * named after the file, or at the legacy files/ path.
+ */
+export function getFileObjectPath(
+  root: string,
+  entry: Pick<FileEntry, "name" | "revision" | "objectId">
+): string {
+  if (entry.objectId) {
+    return getObjectPath(root, entry.objectId);
+  }
+  if (entry.revision) {
+    return getRevisionPath(root, entry.name, entry.revision);
+  }
+  return getStoragePath(root, entry.name);
+}
+
+/**
+ * Recover the project and file name from an encrypted file object key
+ * (legacy files/ path or revisions/ path). Returns null for other keys,
+ * including opaque objects/ keys, which don't carry a file name.
+ */
+export function parseFileObjectPath(key: string): { projectId: string; fileName: string } | null {
+  const match = /^users\/[^/]+\/projects\/([^/]+)\/(files|revisions)\/(.+)\.enc$/.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  const [, projectId, kind, rest] = match;
+  if (projectId === undefined || rest === undefined) {
+    return null;
+  }
+  if (kind === "files") {
+    return { projectId, fileName: rest };
+  }
+
+  const slashIndex = rest.lastIndexOf("/");
+  return slashIndex > 0 ? { projectId, fileName: rest.slice(0, slashIndex) } : null;
+}
+
+export function getHistoryPath(root: string): string {
+  return `${root}/history.json`;
+}
+
+export function getManifestPath(root: string): string {
+  return `${root}/manifest.json`;
+}
+
+export function getProjectKeysPath(root: string): string {
+  return `${root}/keys.json`;
+}
+
+/**
+ * Public identity keys, looked up by a hash of the member's email address.
+ */
+export function getDirectoryPath(emailHash: string): string {
+  return `directory/${emailHash}.json`;
+}
+
+/**
+ * Notice that a shared project was shared with a user, encrypted to them.
+ */
+export function getInboxPath(userId: string, projectId?: string): string {
+  return projectId ? `users/${userId}/shared/${projectId}.json` : `users/${userId}/shared/`;
+}
+
+export function getUserIndexPath(userId: string): string {
+  return `users/${userId}/index.json`;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { getPlaceholder, getTemplatePath, renderTemplate } from "./template.ts";
+import type { ProjectConfig } from "../types/index.ts";
+
+const env = [
+  "# Database",
+  "DB_URL=postgres://user:hunter2@db/app",
+  "DB_POOL=10",
+  "",
+  "# Flags",
+  "# STRIPE_KEY=sk_live_commented_out # old account",
+  "#export DEBUG=false",
+  "export DEBUG=true # local only",
+  'API_KEY="sk_live_first"',
+  "sk_live_pasted_by_mistake",
+  "API_KEY=sk_live_second",
+  "",
+].join("\n");
+
+const production = "SENTRY_DSN=https://key@sentry.io/1\nDB_URL=postgres://prod/app\nREGION=eu";
+
+describe("renderTemplate", () => {
+  it("should build a template from the first file's layout without any value", () => {
+    const template = renderTemplate(
+      [
+        { name: ".env", content: env },
+        { name: ".env.production", content: production },
+      ],
+      null
+    );
+
+    expect(template).toBe(
+      [
+        "# Database",
+        "DB_URL=<postgres-url>",
+        "DB_POOL=<number>",
+        "",
+        "# Flags",
+        "# STRIPE_KEY=<string>",
+        "#export DEBUG=<boolean>",
+        "export DEBUG=<boolean> # local only",
+        "API_KEY=<string>",
+        "SENTRY_DSN=<https-url>",
+        "REGION=<string>",
+        "",
+      ].join("\n")
+    );
+    expect(template).not.toMatch(/hunter2|sk_live|sentry\.io/);
+  });
+
+  it("should update an existing template, keeping its comments and placeholders", () => {
+    const existing =
+      "# Copy to .env\nDB_URL=postgres://localhost/app\n\n# Gone\nOLD=1\nDB_POOL=5\n";
+
+    expect(
+      renderTemplate(
+        [{ name: ".env", content: "DB_URL=postgres://x/y\nLOG_LEVEL=info\nDB_POOL=3\nPORT=80\n" }],
+        existing,
+        { variables: { LOG_LEVEL: { enum: ["debug", "info"] }, PORT: { type: "integer" } } }
+      )
+    ).toBe(
+      "# Copy to .env\nDB_URL=postgres://localhost/app\nLOG_LEVEL=debug|info\n\n# Gone\nDB_POOL=5\nPORT=<integer>\n"
+    );
+  });
+});
+
+describe("template placeholders", () => {
+  it("should hint at the kind of value", () => {
+    expect(getPlaceholder("")).toBe("");
+    expect(getPlaceholder("FALSE")).toBe("<boolean>");
+    expect(getPlaceholder("-1.5")).toBe("<number>");
+    expect(getPlaceholder("redis://cache:6379")).toBe("<redis-url>");
+    expect(getPlaceholder("a:b")).toBe("<string>");
+    expect(getPlaceholder("42", { type: "string" })).toBe("<number>");
+  });
+
+  it("should write to the configured path, else to an env schema source", () => {
+    const config: ProjectConfig = { version: 1, projectName: "app", pattern: ".env*", ignore: [] };
+
+    expect(getTemplatePath(config)).toBe(".env.example");
+    expect(getTemplatePath({ ...config, schema: { source: ".env.sample" } })).toBe(".env.sample");
+    expect(getTemplatePath({ ...config, schema: { source: "env.schema.json" } })).toBe(
+      ".env.example"
+    );
+    expect(
+      getTemplatePath({
+        ...config,
+        template: { path: "api/.env.example" },
+        schema: { source: ".env.sample" },
+      })
+    ).toBe("api/.env.example");
+  });
+});
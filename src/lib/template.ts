@@ -0,0 +1,175 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { posix, join } from "node:path";
+import { EnvDocument } from "./env-document.ts";
+import { discoverProjectFiles, isEnvFile } from "./env-files.ts";
+import { loadSchema } from "./schema.ts";
+import type { EnvNode } from "./env-document.ts";
+import type { EnvSource } from "./interpolation.ts";
+import type { EnvSchema, VariableSchema } from "./schema.ts";
+import type { ProjectConfig } from "../types/index.ts";
+
+export const DEFAULT_TEMPLATE_PATH = ".env.example";
+
+/** A comment that is a commented-out assignment, such as `# API_KEY=...` */
+const COMMENTED_ASSIGNMENT = /^(\s*#+\s*)((?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=)/;
+
+/**
+ * Where `pss template` writes: the configured path, else the schema source
+ * when that is an env file (so the two stay one file), else `.env.example`.
+ */
+export function getTemplatePath(projectConfig: ProjectConfig): string {
+  const source = projectConfig.schema?.source;
+  return (
+    projectConfig.template?.path ??
+    (source && !source.endsWith(".json") ? source : DEFAULT_TEMPLATE_PATH)
+  );
+}
+
+/**
+ * A placeholder that says what kind of value goes there without giving it
+ * away: schema rules when there are any, else a guess from the real value.
+ */
+export function getPlaceholder(value: string, rules?: VariableSchema): string {
+  if (rules?.enum?.length) {
+    return rules.enum.join("|");
+  }
+  if (rules?.type && rules.type !== "string") {
+    return `<${rules.type}>`;
+  }
+  if (value === "") {
+    return "";
+  }
+  if (/^(true|false)$/i.test(value)) {
+    return "<boolean>";
+  }
+  if (value.trim() !== "" && Number.isFinite(Number(value))) {
+    return "<number>";
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value) && URL.canParse(value)) {
+    return `<${new URL(value).protocol.slice(0, -1)}-url>`;
+  }
+  return "<string>";
+}
+
+/**
+ * A line of an env file as it may appear in a template: commented-out
+ * assignments get a placeholder instead of their value, which is as likely to
+ * be a secret as any other.
+ */
+function redactLine(node: EnvNode): string {
+  const match = node.type === "comment" ? COMMENTED_ASSIGNMENT.exec(node.raw) : null;
+  if (!match) {
+    return node.raw;
+  }
+  const [prefix, assignment] = [match[1]!, match[2]!];
+  const [entry] = EnvDocument.parse(node.raw.slice(prefix.length)).entries;
+  return `${prefix}${assignment}${getPlaceholder(entry?.value ?? "")}`;
+}
+
+/**
+ * The template for a set of env files: every key any of them sets, with a
+ * placeholder for its value. An existing template is updated in place, so its
+ * comments and the placeholders already in it are kept; new keys are placed
+ * next to their neighbours in the env files and keys no file sets any more are
+ * removed. Without a template, the layout and comments of the first file are
+ * used, minus its values (commented-out ones included) and any line that isn't
+ * an assignment.
+ */
+export function renderTemplate(
+  sources: EnvSource[],
+  existing: string | null,
+  schema?: EnvSchema | null
+): string {
+  const combined = EnvDocument.parse(
+    sources
+      .map((source) => (source.content.endsWith("\n") ? source.content : `${source.content}\n`))
+      .join("")
+  );
+  const values = combined.toMap();
+
+  let document: EnvDocument;
+  let kept = new Map<string, string>();
+  if (existing !== null) {
+    document = EnvDocument.parse(existing);
+    kept = document.toMap();
+  } else {
+    // Stray lines may hold pasted secrets, and overridden duplicates would keep their values
+    const first = EnvDocument.parse(sources[0]?.content ?? "");
+    document = EnvDocument.parse(
+      first.lines
+        .filter((node) => node.type !== "invalid")
+        .map((node) => redactLine(node) + node.newline)
+        .join("")
+    );
+    document.fix();
+  }
+
+  const placeholders = new Map<string, string>();
+  for (const [key, value] of values) {
+    placeholders.set(key, kept.get(key) ?? getPlaceholder(value, schema?.variables[key]));
+  }
+  document.update(placeholders, combined);
+  return document.toString();
+}
+
+/**
+ * Regenerate the project's template from the env files next to it. Returns
+ * the template path and whether the file changed.
+ */
+export async function updateTemplate(
+  projectDir: string,
+  projectConfig: ProjectConfig
+): Promise<{ path: string; changed: boolean }> {
+  const path = getTemplatePath(projectConfig);
+  const files = await discoverProjectFiles(projectDir, projectConfig.pattern, projectConfig.ignore);
+  const sources = files
+    .filter(
+      (file) =>
+        isEnvFile(file.name) &&
+        file.name !== path &&
+        posix.dirname(file.name) === posix.dirname(path)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+  if (sources.length === 0) {
+    throw new Error(`No env files next to ${path} to build it from`);
+  }
+
+  const schemaConfig = projectConfig.schema;
+  const schema =
+    schemaConfig?.source.endsWith(".json") === true
+      ? await loadSchema(projectDir, schemaConfig)
+      : null;
+
+  const templatePath = join(projectDir, path);
+  const existing = await readFile(templatePath, "utf-8").catch(() => null);
+  const content = renderTemplate(sources, existing, schema);
+  if (content === existing) {
+    return { path, changed: false };
+  }
+
+  await writeFile(templatePath, content);
+  return { path, changed: true };
+}
+
+/**
+ * Bring the template up to date after pull or sync wrote env files, if the
+ * project turned that on with `template.afterSync`. A failure is passed to
+ * `report.warn` instead of thrown, since the files themselves were written.
+ */
+export async function refreshTemplate(
+  projectDir: string,
+  projectConfig: ProjectConfig,
+  report: { log: (message: string) => void; warn: (message: string) => void }
+): Promise<void> {
+  if (!projectConfig.template?.afterSync) {
+    return;
+  }
+  try {
+    const { path, changed } = await updateTemplate(projectDir, projectConfig);
+    if (changed) {
+      report.log(`Updated ${path}`);
+    }
+  } catch (error) {
+    report.warn(`Could not update the template: ${(error as Error).message}`);
+  }
+}
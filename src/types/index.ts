@@ -1,9 +1,62 @@
+export type StorageType = "b2" | "s3" | "filesystem";
+
+export interface StorageConfig {
+  type: StorageType;
+  /** Root directory for the filesystem backend */
+  path?: string;
+}
+
+export type S3Provider = "aws" | "minio" | "r2" | "wasabi" | "custom";
+
+export interface S3Config {
+  provider?: S3Provider;
+  /** Full endpoint URL, e.g. http://localhost:9000. Bare hostnames default to https:// */
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  bucket: string;
+  region: string;
+  /** Path-style (bucket in path) instead of virtual-host addressing */
+  forcePathStyle?: boolean;
+  /** Path to a PEM file with additional trusted CA certificates */
+  caBundle?: string;
+}
+
+export type AuthProviderType = "google" | "oidc" | "github";
+
+export const AUTH_PROVIDERS: AuthProviderType[] = ["google", "oidc", "github"];
+
+/**
+ * Where secrets are kept instead of the JSON files:
+ * - secret-service: the desktop keyring, through libsecret (Linux)
+ * - file: a file encrypted with a local passphrase
+ */
+export type CredentialStoreType = "secret-service" | "file";
+
 export interface GlobalConfig {
   version: number;
+  /** Set once secrets were moved out of this file by 'pss config migrate-secrets' */
+  secretStore?: CredentialStoreType;
+  storage?: StorageConfig;
+  auth?: {
+    /** Identity provider `pss login` uses (default: google) */
+    provider: AuthProviderType;
+  };
   google?: {
     clientId: string;
     clientSecret?: string;
   };
+  oidc?: {
+    /** Issuer URL; endpoints come from its .well-known/openid-configuration */
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+  };
+  github?: {
+    clientId: string;
+    clientSecret?: string;
+  };
   b2: {
     keyId: string;
     appKey: string;
@@ -11,14 +64,23 @@ export interface GlobalConfig {
     bucket: string;
     region: string;
   };
+  s3?: S3Config;
 }
 
 export interface AuthData {
+  /** Set once the tokens were moved out of auth.json */
+  secretStore?: CredentialStoreType;
+  /** Provider the tokens are from (missing for logins from before providers existed: google) */
+  provider?: AuthProviderType;
   accessToken: string;
+  /** Empty when the provider issues tokens that don't expire */
   refreshToken: string;
   expiresAt: number;
+  /** Storage namespace; prefixed per provider except for Google */
   userId: string;
   email: string;
+  /** Access restored from a recovery kit instead of a login; there are no tokens */
+  recovery?: boolean;
 }
 
 export interface ProjectConfig {
@@ -27,6 +89,27 @@ export interface ProjectConfig {
   pattern: string;
   ignore: string[];
   lastSync?: string;
+  /** Check `${VAR}` references in env files during diff and sync */
+  interpolation?: boolean;
+  /** Variables the env files must define; push and sync refuse files that don't */
+  schema?: SchemaConfig;
+  template?: TemplateConfig;
+}
+
+export interface TemplateConfig {
+  /** The example file `pss template` writes (default: .env.example) */
+  path?: string;
+  /** Regenerate it after every pull and sync */
+  afterSync?: boolean;
+}
+
+export interface SchemaConfig {
+  /** An env file such as `.env.example` naming the variables, or a `.json` schema with rules per key */
+  source: string;
+  /** Require every key of an env-file source (default: true; JSON schemas say per key) */
+  required?: boolean;
+  /** Env files to validate (default: every env file except the source) */
+  files?: string[];
 }
 
 export type FileKind = "env" | "text";
@@ -46,6 +129,11 @@ export interface ProjectManifest {
   projectName: string;
   files: FileEntry[];
   source?: ManifestSource;
+  /**
+   * Sequence number, incremented on every write. Used to detect concurrent
+   * updates, and covered by the signature so it can't be rolled back.
+   */
+  generation?: number;
 }
 
 export interface FileEntry {
@@ -54,6 +142,35 @@ export interface FileEntry {
   size: number;
   updatedAt: string;
   source?: FileSource;
+  /** Immutable revision object holding this content (absent for legacy entries) */
+  revision?: string;
+  /** Project data key version that encrypted this content (absent: master key) */
+  keyVersion?: number;
+  /** Opaque object holding this content; its key doesn't reveal the file name */
+  objectId?: string;
+}
+
+export type HistoryAction = "upload" | "delete";
+
+export interface HistoryEntry {
+  file: string;
+  action: HistoryAction;
+  revision?: string;
+  keyVersion?: number;
+  objectId?: string;
+  hash?: string;
+  size?: number;
+  createdAt: string;
+  source?: FileSource;
+  /** Who recorded the entry; their identity key signed the fields above */
+  signedBy?: string;
+  signature?: string;
+}
+
+export interface ProjectHistory {
+  version: number;
+  projectName: string;
+  entries: HistoryEntry[];
 }
 
 export interface EncryptedData {
@@ -63,12 +180,207 @@ export interface EncryptedData {
   ciphertext: string;
 }
 
+/**
+ * How the master encryption key is obtained:
+ * - legacy: derived from the OAuth user ID (pre-passphrase installs)
+ * - passphrase: derived from a user-chosen passphrase with Argon2id
+ * - random: randomly generated and stored on each machine
+ */
+export type KeyMode = "legacy" | "passphrase" | "random";
+
+export interface KdfParams {
+  algorithm: "argon2id13";
+  salt: string;
+  opsLimit: number;
+  memLimit: number;
+}
+
+export interface KeyMigration {
+  from: KeyMode;
+  startedAt: string;
+  /** Unlock parameters of the key being replaced, needed to resume an interrupted run */
+  previousKdf?: KdfParams;
+  previousKeyCheck?: EncryptedData;
+}
+
+/**
+ * Per-user index stored remotely. Holds everything needed to unlock the
+ * master key except the secret itself.
+ */
+export interface UserIndex {
+  version: 1;
+  keyMode: KeyMode;
+  kdf?: KdfParams;
+  /** A known value encrypted with the master key, used to reject wrong keys early */
+  keyCheck?: EncryptedData;
+  /** Set while existing objects are being re-encrypted with a new master key */
+  migration?: KeyMigration;
+  /** UserIndexPayload encrypted with the master key */
+  sealed?: EncryptedData;
+  updatedAt: string;
+}
+
+/**
+ * A project's display name, its storage ID and the prefix its remote objects
+ * are stored under.
+ */
+export interface ProjectRef {
+  name: string;
+  id: string;
+  root: string;
+  /** Stored in the shared namespace, with data keys wrapped for each member */
+  shared?: boolean;
+}
+
+/**
+ * Private part of the user index, stored encrypted.
+ */
+export interface UserIndexPayload {
+  /** Project name -> opaque storage ID */
+  projects: Record<string, string>;
+  /** Project name -> ID of a shared project this user created */
+  shared?: Record<string, string>;
+  /** Project name -> ID of a shared project this user accepted an invitation to */
+  joined?: Record<string, string>;
+  /** Email hash -> keys of someone projects were shared with, pinned the first time */
+  contacts?: Record<string, { userId: string; signPublicKey: string }>;
+  /** X25519 key pair used to receive shared project keys, and an Ed25519 signing key pair (base64) */
+  identity?: {
+    publicKey: string;
+    secretKey: string;
+    signPublicKey?: string;
+    signSecretKey?: string;
+  };
+}
+
+/**
+ * A member's published public key, stored under a hash of their email.
+ */
+export interface DirectoryEntry {
+  version: 1;
+  userId: string;
+  publicKey: string;
+  signPublicKey?: string;
+  updatedAt: string;
+  /** By `signPublicKey`, over the email hash and both keys (entries from older versions have none) */
+  signature?: string;
+}
+
+/**
+ * Decrypted content of a share notice in a member's inbox.
+ */
+export interface ShareNotice {
+  projectId: string;
+  projectName: string;
+  /** Email of the owner who shared the project */
+  sharedBy: string;
+  /** User ID of that owner, whose identity key signed the notice */
+  signedBy?: string;
+  signature?: string;
+}
+
+/**
+ * A JSON document encrypted with a project key (manifest, history).
+ */
+export interface SealedObject {
+  sealed: 1;
+  keyVersion?: number;
+  data: EncryptedData;
+  /** User whose identity key signed the plaintext (manifests) */
+  signedBy?: string;
+  signature?: string;
+}
+
+/**
+ * A project data key encrypted ("wrapped") for whoever may use it.
+ */
+export interface WrappedKey {
+  version: number;
+  /** Wrapped with the owner's master key (personal projects) */
+  wrappedKey?: EncryptedData;
+  /** User ID -> key sealed to that member's public key (shared projects) */
+  members?: Record<string, string>;
+  /** Hash of a shared project's data key, covered by the owner's signature */
+  keyHash?: string;
+  createdAt: string;
+}
+
+/**
+ * What a member may do in a shared project:
+ * - owner: everything, including sharing, revoking and deleting the project
+ * - writer: push, sync and delete files
+ * - reader: pull only
+ */
+export type MemberRole = "owner" | "writer" | "reader";
+
+/**
+ * A member of a shared project: a user, or a service token when the user ID
+ * starts with "token-".
+ */
+export interface ProjectMember {
+  /** The user's email, or the service token's name */
+  email: string;
+  role: MemberRole;
+  /** X25519 key the data keys are sealed to */
+  publicKey: string;
+  /** Ed25519 key that verifies what this member signs */
+  signPublicKey: string;
+  /** For owners other than the creator: an already trusted owner vouching for this key */
+  endorsement?: MembershipSignature;
+}
+
+export interface MembershipSignature {
+  signedBy: string;
+  signature: string;
+}
+
+/**
+ * The user who created a shared project. The project ID is derived from their
+ * signing key and `nonce`, so it can't be swapped for someone else's.
+ */
+export interface ProjectCreator {
+  userId: string;
+  signPublicKey: string;
+  nonce: string;
+}
+
+/**
+ * Per-project key ring stored next to the manifest. Old versions are kept so
+ * existing revisions stay readable after rotation.
+ */
+export interface ProjectKeys {
+  version: 1;
+  /** Storage ID of the project (the project name for projects created before IDs) */
+  projectId: string;
+  currentVersion: number;
+  keys: WrappedKey[];
+  /** Creator of a shared project, the root of trust for its owners */
+  creator?: ProjectCreator;
+  /** Members of a shared project, by user ID */
+  members?: Record<string, ProjectMember>;
+  /** An owner's signature over the member list, the key versions and the current one */
+  membersSignature?: MembershipSignature;
+}
+
 export const DEFAULT_B2_CONFIG = {
   endpoint: "s3.us-east-005.backblazeb2.com",
   bucket: "project-settings-sync",
   region: "us-east-005",
 } as const;
 
+export interface S3ProviderDefaults {
+  region: string;
+  forcePathStyle: boolean;
+}
+
+export const S3_PROVIDER_DEFAULTS: Record<S3Provider, S3ProviderDefaults> = {
+  aws: { region: "us-east-1", forcePathStyle: false },
+  minio: { region: "us-east-1", forcePathStyle: true },
+  r2: { region: "auto", forcePathStyle: true },
+  wasabi: { region: "us-east-1", forcePathStyle: false },
+  custom: { region: "us-east-1", forcePathStyle: true },
+};
+
 // ============================================
 // Base Snapshot Types (for three-way merge)
 // ============================================
@@ -82,6 +394,8 @@ export interface BaseSnapshot {
   files: BaseFileEntry[];
   syncedAt: string;
   remoteManifestHash: string;
+  /** Highest manifest sequence number seen; older manifests are rejected as rollbacks */
+  remoteSequence?: number;
 }
 
 export interface BaseFileEntry {